@@ -3,6 +3,7 @@ pragma solidity ^0.8.28;
 
 import {Script, console} from "forge-std/Script.sol";
 import {SupplyChain} from "../src/SupplyChain.sol";
+import {Multicall3} from "../src/Multicall3.sol";
 
 /**
  * @title DeploySupplyChain
@@ -20,6 +21,12 @@ contract DeploySupplyChain is Script {
         // Deploy the contract
         SupplyChain supplyChain = new SupplyChain();
         
+        // Deploy a local Multicall3 on Anvil (public networks already have the canonical one)
+        address multicall = address(0);
+        if (block.chainid == 31337) {
+            multicall = address(new Multicall3());
+        }
+        
         // Stop broadcasting
         vm.stopBroadcast();
         
@@ -29,11 +36,17 @@ contract DeploySupplyChain is Script {
         console.log("==============================================");
         console.log("Contract Address:", address(supplyChain));
         console.log("Admin Address:", supplyChain.admin());
+        if (multicall != address(0)) {
+            console.log("Multicall3 Address:", multicall);
+        }
         console.log("==============================================");
         console.log("");
         console.log("IMPORTANT: Copy these values to your frontend config:");
         console.log("- CONTRACT_ADDRESS:", address(supplyChain));
         console.log("- ADMIN_ADDRESS:", supplyChain.admin());
+        if (multicall != address(0)) {
+            console.log("- MULTICALL_ADDRESS:", multicall);
+        }
         console.log("==============================================");
         
         return supplyChain;
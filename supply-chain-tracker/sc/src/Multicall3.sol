@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title Multicall3
+ * @notice Minimal local deployment of the Multicall3 aggregator
+ * @dev Implements the `aggregate3` subset of the canonical Multicall3 ABI
+ *      (see forge-std IMulticall3) so the frontend can batch view calls on Anvil
+ */
+contract Multicall3 {
+
+    // ============================================
+    // STRUCTS
+    // ============================================
+
+    /**
+     * @notice A call to aggregate
+     */
+    struct Call3 {
+        address target;      // Contract to call
+        bool allowFailure;   // If false, a failing call reverts the whole batch
+        bytes callData;      // ABI-encoded calldata
+    }
+
+    /**
+     * @notice Result of an aggregated call
+     */
+    struct Result {
+        bool success;        // Whether the call succeeded
+        bytes returnData;    // Raw return (or revert) data
+    }
+
+    // ============================================
+    // AGGREGATION FUNCTIONS
+    // ============================================
+
+    /**
+     * @notice Aggregates calls, optionally allowing individual failures
+     * @param calls Calls to execute
+     * @return returnData Array of results, one per call
+     */
+    function aggregate3(Call3[] calldata calls) public payable returns (Result[] memory returnData) {
+        uint256 length = calls.length;
+        returnData = new Result[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            Call3 calldata call = calls[i];
+            Result memory result = returnData[i];
+
+            (result.success, result.returnData) = call.target.call(call.callData);
+            require(call.allowFailure || result.success, "Multicall3: call failed");
+        }
+    }
+
+    /**
+     * @notice Gets the current block number
+     * @return blockNumber Current block number
+     */
+    function getBlockNumber() public view returns (uint256 blockNumber) {
+        blockNumber = block.number;
+    }
+}
@@ -73,6 +73,15 @@ contract SupplyChain {
         UserStatus status;   // Current status
     }
     
+    /**
+     * @notice Recall of a token, also covering every token derived from it
+     */
+    struct Recall {
+        address recalledBy;   // Creator or admin who issued the recall (0 if not recalled)
+        string reason;        // Why the token was recalled
+        uint256 dateRecalled; // Recall timestamp
+    }
+    
     // ============================================
     // STATE VARIABLES
     // ============================================
@@ -107,6 +116,9 @@ contract SupplyChain {
     /// @notice Mapping from address to array of transfer IDs involving them
     mapping(address => uint256[]) private userTransferIds;
     
+    /// @notice Mapping from token ID to the recall issued for that token
+    mapping(uint256 => Recall) public recalls;
+    
     // ============================================
     // EVENTS
     // ============================================
@@ -167,6 +179,14 @@ contract SupplyChain {
      */
     event UserStatusChanged(address indexed user, UserStatus status);
     
+    /**
+     * @notice Emitted when a token is recalled
+     * @param tokenId The ID of the recalled token
+     * @param recalledBy The creator or admin issuing the recall
+     * @param reason Why the token was recalled
+     */
+    event TokenRecalled(uint256 indexed tokenId, address indexed recalledBy, string reason);
+    
     // ============================================
     // CONSTRUCTOR
     // ============================================
@@ -302,6 +322,38 @@ contract SupplyChain {
         return keccak256(abi.encodePacked(a)) == keccak256(abi.encodePacked(b));
     }
     
+    /**
+     * @notice Slices an ID list stored in insertion (oldest first) order
+     * @dev An offset past the end returns an empty page
+     * @param list Stored ID list
+     * @param offset Number of IDs to skip, counted in the requested order
+     * @param limit Maximum number of IDs to return
+     * @param newestFirst Walk the list from the end
+     * @return ids IDs of the page
+     * @return total Length of the list
+     */
+    function _paginate(
+        uint256[] storage list,
+        uint256 offset,
+        uint256 limit,
+        bool newestFirst
+    ) internal view returns (uint256[] memory ids, uint256 total) {
+        total = list.length;
+        if (offset >= total) {
+            return (new uint256[](0), total);
+        }
+        
+        uint256 count = total - offset;
+        if (count > limit) {
+            count = limit;
+        }
+        
+        ids = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = newestFirst ? list[total - 1 - offset - i] : list[offset + i];
+        }
+    }
+    
     // ============================================
     // TOKEN MANAGEMENT FUNCTIONS
     // ============================================
@@ -408,6 +460,24 @@ contract SupplyChain {
         return userTokenIds[userAddress];
     }
     
+    /**
+     * @notice Gets one page of the token IDs owned by a user
+     * @param userAddress Address of the user
+     * @param offset Number of IDs to skip
+     * @param limit Maximum number of IDs to return
+     * @param newestFirst Return the most recently received tokens first
+     * @return ids Token IDs of the page
+     * @return total Total number of token IDs of the user
+     */
+    function getUserTokensPage(
+        address userAddress,
+        uint256 offset,
+        uint256 limit,
+        bool newestFirst
+    ) public view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(userTokenIds[userAddress], offset, limit, newestFirst);
+    }
+    
     // ============================================
     // TRANSFER MANAGEMENT FUNCTIONS
     // ============================================
@@ -422,6 +492,7 @@ contract SupplyChain {
         require(to != address(0), "Invalid recipient");
         require(to != msg.sender, "Cannot transfer to yourself");
         require(tokenId > 0 && tokenId < nextTokenId, "Invalid token ID");
+        require(!isRecalled(tokenId), "Token is recalled");
         require(amount > 0, "Amount must be greater than 0");
         require(tokens[tokenId].balance[msg.sender] >= amount, "Insufficient balance");
         
@@ -464,6 +535,7 @@ contract SupplyChain {
         
         require(txn.to == msg.sender, "Only recipient can accept");
         require(txn.status == TransferStatus.Pending, "Transfer not pending");
+        require(!isRecalled(txn.tokenId), "Token is recalled");
         require(tokens[txn.tokenId].balance[txn.from] >= txn.amount, "Insufficient balance");
         
         // Execute transfer
@@ -523,5 +595,78 @@ contract SupplyChain {
     function getUserTransfers(address userAddress) public view returns (uint256[] memory) {
         return userTransferIds[userAddress];
     }
+    
+    /**
+     * @notice Gets one page of the transfer IDs involving a user
+     * @param userAddress Address of the user
+     * @param offset Number of IDs to skip
+     * @param limit Maximum number of IDs to return
+     * @param newestFirst Return the most recent transfers first
+     * @return ids Transfer IDs of the page
+     * @return total Total number of transfer IDs of the user
+     */
+    function getUserTransfersPage(
+        address userAddress,
+        uint256 offset,
+        uint256 limit,
+        bool newestFirst
+    ) public view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(userTransferIds[userAddress], offset, limit, newestFirst);
+    }
+    
+    // ============================================
+    // RECALL MANAGEMENT FUNCTIONS
+    // ============================================
+    
+    /**
+     * @notice Recalls a token and, through parentId, every product made from it
+     * @dev Pending transfers stay pending: they can be rejected but no longer accepted
+     * @param tokenId Token to recall
+     * @param reason Why the token is recalled
+     */
+    function recallToken(uint256 tokenId, string memory reason) public {
+        require(tokenId > 0 && tokenId < nextTokenId, "Invalid token ID");
+        require(
+            msg.sender == tokens[tokenId].creator || msg.sender == admin,
+            "Only creator or admin can recall"
+        );
+        require(bytes(reason).length > 0, "Reason cannot be empty");
+        require(recalls[tokenId].recalledBy == address(0), "Token already recalled");
+        
+        recalls[tokenId] = Recall({
+            recalledBy: msg.sender,
+            reason: reason,
+            dateRecalled: block.timestamp
+        });
+        
+        emit TokenRecalled(tokenId, msg.sender, reason);
+    }
+    
+    /**
+     * @notice Finds the recall covering a token: its own or the nearest recalled ancestor's
+     * @dev Parent IDs always decrease, so the walk ends at the raw material
+     * @param tokenId ID of the token
+     * @return ID of the recalled token (the token itself or an ancestor), 0 if not recalled
+     */
+    function getRecallSource(uint256 tokenId) public view returns (uint256) {
+        require(tokenId > 0 && tokenId < nextTokenId, "Invalid token ID");
+        uint256 currentId = tokenId;
+        while (currentId != 0) {
+            if (recalls[currentId].recalledBy != address(0)) {
+                return currentId;
+            }
+            currentId = tokens[currentId].parentId;
+        }
+        return 0;
+    }
+    
+    /**
+     * @notice Checks if a token or any token it was made from is recalled
+     * @param tokenId ID of the token
+     * @return bool True if the token is recalled
+     */
+    function isRecalled(uint256 tokenId) public view returns (bool) {
+        return getRecallSource(tokenId) != 0;
+    }
 }
 
@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {Multicall3} from "../src/Multicall3.sol";
+import {SupplyChain} from "../src/SupplyChain.sol";
+
+/**
+ * @title Multicall3Test
+ * @notice Test suite for the local Multicall3 deployment
+ */
+contract Multicall3Test is Test {
+
+    Multicall3 public multicall;
+    SupplyChain public supplyChain;
+
+    address public producer;
+
+    function setUp() public {
+        producer = makeAddr("producer");
+
+        multicall = new Multicall3();
+        supplyChain = new SupplyChain();
+
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        vm.prank(producer);
+        supplyChain.createToken("Organic Wheat", 1000, '{"origin": "Spain"}', 0);
+    }
+
+    function testAggregateViewCalls() public {
+        Multicall3.Call3[] memory calls = new Multicall3.Call3[](2);
+        calls[0] = Multicall3.Call3({
+            target: address(supplyChain),
+            allowFailure: false,
+            callData: abi.encodeCall(SupplyChain.getTokenBalance, (1, producer))
+        });
+        calls[1] = Multicall3.Call3({
+            target: address(supplyChain),
+            allowFailure: false,
+            callData: abi.encodeCall(SupplyChain.isAdmin, (address(this)))
+        });
+
+        Multicall3.Result[] memory results = multicall.aggregate3(calls);
+
+        assertEq(results.length, 2);
+        assertTrue(results[0].success);
+        assertEq(abi.decode(results[0].returnData, (uint256)), 1000);
+        assertTrue(results[1].success);
+        assertTrue(abi.decode(results[1].returnData, (bool)));
+    }
+
+    function testAggregateAllowFailure() public {
+        Multicall3.Call3[] memory calls = new Multicall3.Call3[](2);
+        calls[0] = Multicall3.Call3({
+            target: address(supplyChain),
+            allowFailure: true,
+            callData: abi.encodeCall(SupplyChain.getTokenBalance, (99, producer))
+        });
+        calls[1] = Multicall3.Call3({
+            target: address(supplyChain),
+            allowFailure: true,
+            callData: abi.encodeCall(SupplyChain.getTokenBalance, (1, producer))
+        });
+
+        Multicall3.Result[] memory results = multicall.aggregate3(calls);
+
+        assertFalse(results[0].success);
+        assertTrue(results[1].success);
+    }
+
+    function testAggregateRevertsWhenFailureNotAllowed() public {
+        Multicall3.Call3[] memory calls = new Multicall3.Call3[](1);
+        calls[0] = Multicall3.Call3({
+            target: address(supplyChain),
+            allowFailure: false,
+            callData: abi.encodeCall(SupplyChain.getTokenBalance, (99, producer))
+        });
+
+        vm.expectRevert("Multicall3: call failed");
+        multicall.aggregate3(calls);
+    }
+
+    function testGetBlockNumber() public {
+        vm.roll(42);
+        assertEq(multicall.getBlockNumber(), 42);
+    }
+}
@@ -27,6 +27,7 @@ contract SupplyChainTest is Test {
     event TransferRequested(uint256 indexed transferId, address indexed from, address indexed to, uint256 tokenId, uint256 amount);
     event TransferAccepted(uint256 indexed transferId);
     event TransferRejected(uint256 indexed transferId);
+    event TokenRecalled(uint256 indexed tokenId, address indexed recalledBy, string reason);
     
     function setUp() public {
         // Setup test accounts
@@ -993,5 +994,295 @@ contract SupplyChainTest is Test {
         
         // Complete supply chain validated! 🎉
     }
+    
+    // ============================================
+    // PAGINATION TESTS
+    // ============================================
+    
+    function testGetUserTokensPageOldestFirst() public {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        
+        for (uint256 i = 0; i < 5; i++) {
+            vm.prank(producer);
+            supplyChain.createToken("Token", 100, '{}', 0);
+        }
+        
+        (uint256[] memory ids, uint256 total) = supplyChain.getUserTokensPage(producer, 1, 2, false);
+        assertEq(total, 5);
+        assertEq(ids.length, 2);
+        assertEq(ids[0], 2);
+        assertEq(ids[1], 3);
+    }
+    
+    function testGetUserTokensPageNewestFirst() public {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        
+        for (uint256 i = 0; i < 5; i++) {
+            vm.prank(producer);
+            supplyChain.createToken("Token", 100, '{}', 0);
+        }
+        
+        (uint256[] memory ids, uint256 total) = supplyChain.getUserTokensPage(producer, 0, 2, true);
+        assertEq(total, 5);
+        assertEq(ids.length, 2);
+        assertEq(ids[0], 5);
+        assertEq(ids[1], 4);
+        
+        // Last page is truncated
+        (ids, ) = supplyChain.getUserTokensPage(producer, 4, 2, true);
+        assertEq(ids.length, 1);
+        assertEq(ids[0], 1);
+    }
+    
+    function testGetUserTokensPageOffsetPastEnd() public {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        vm.prank(producer);
+        supplyChain.createToken("Token", 100, '{}', 0);
+        
+        (uint256[] memory ids, uint256 total) = supplyChain.getUserTokensPage(producer, 1, 10, false);
+        assertEq(total, 1);
+        assertEq(ids.length, 0);
+        
+        // Users without tokens get an empty page
+        (ids, total) = supplyChain.getUserTokensPage(factory, 0, 10, true);
+        assertEq(total, 0);
+        assertEq(ids.length, 0);
+    }
+    
+    function testGetUserTransfersPage() public {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        vm.prank(producer);
+        supplyChain.createToken("Wheat", 1000, '{}', 0);
+        
+        vm.prank(factory);
+        supplyChain.requestUserRole("Factory");
+        supplyChain.changeStatusUser(factory, SupplyChain.UserStatus.Approved);
+        
+        for (uint256 i = 0; i < 4; i++) {
+            vm.prank(producer);
+            supplyChain.transfer(factory, 1, 10);
+        }
+        
+        // Newest first, second page of size 3
+        (uint256[] memory ids, uint256 total) = supplyChain.getUserTransfersPage(factory, 3, 3, true);
+        assertEq(total, 4);
+        assertEq(ids.length, 1);
+        assertEq(ids[0], 1);
+        
+        // Oldest first, limit larger than the list
+        (ids, total) = supplyChain.getUserTransfersPage(producer, 0, 100, false);
+        assertEq(total, 4);
+        assertEq(ids.length, 4);
+        assertEq(ids[0], 1);
+        assertEq(ids[3], 4);
+    }
+    
+    function testGetUserTransfersPageZeroLimit() public {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        vm.prank(producer);
+        supplyChain.createToken("Wheat", 1000, '{}', 0);
+        
+        vm.prank(factory);
+        supplyChain.requestUserRole("Factory");
+        supplyChain.changeStatusUser(factory, SupplyChain.UserStatus.Approved);
+        vm.prank(producer);
+        supplyChain.transfer(factory, 1, 10);
+        
+        (uint256[] memory ids, uint256 total) = supplyChain.getUserTransfersPage(producer, 0, 0, true);
+        assertEq(total, 1);
+        assertEq(ids.length, 0);
+    }
+    
+    // ============================================
+    // RECALL TESTS
+    // ============================================
+    
+    /**
+     * @notice Wheat (1) -> flour (2) -> bread (3), each held in part by the next step
+     */
+    function _setUpProductChain() internal {
+        vm.prank(producer);
+        supplyChain.requestUserRole("Producer");
+        supplyChain.changeStatusUser(producer, SupplyChain.UserStatus.Approved);
+        vm.prank(factory);
+        supplyChain.requestUserRole("Factory");
+        supplyChain.changeStatusUser(factory, SupplyChain.UserStatus.Approved);
+        vm.prank(retailer);
+        supplyChain.requestUserRole("Retailer");
+        supplyChain.changeStatusUser(retailer, SupplyChain.UserStatus.Approved);
+        vm.prank(consumer);
+        supplyChain.requestUserRole("Consumer");
+        supplyChain.changeStatusUser(consumer, SupplyChain.UserStatus.Approved);
+        
+        vm.prank(producer);
+        supplyChain.createToken("Wheat", 1000, '{}', 0);
+        vm.prank(producer);
+        supplyChain.transfer(factory, 1, 400);
+        vm.prank(factory);
+        supplyChain.acceptTransfer(1);
+        
+        vm.prank(factory);
+        supplyChain.createToken("Flour", 300, '{}', 1);
+        vm.prank(factory);
+        supplyChain.transfer(retailer, 2, 100);
+        vm.prank(retailer);
+        supplyChain.acceptTransfer(2);
+        
+        vm.prank(retailer);
+        supplyChain.createToken("Bread", 50, '{}', 2);
+    }
+    
+    function testRecallTokenByCreator() public {
+        _setUpProductChain();
+        
+        vm.prank(factory);
+        vm.expectEmit(true, true, false, true);
+        emit TokenRecalled(2, factory, "Contaminated batch");
+        supplyChain.recallToken(2, "Contaminated batch");
+        
+        (address recalledBy, string memory reason, uint256 dateRecalled) = supplyChain.recalls(2);
+        assertEq(recalledBy, factory);
+        assertEq(reason, "Contaminated batch");
+        assertEq(dateRecalled, block.timestamp);
+        assertTrue(supplyChain.isRecalled(2));
+    }
+    
+    function testRecallTokenByAdmin() public {
+        _setUpProductChain();
+        
+        supplyChain.recallToken(1, "Pesticide residue");
+        
+        (address recalledBy, , ) = supplyChain.recalls(1);
+        assertEq(recalledBy, admin);
+        assertTrue(supplyChain.isRecalled(1));
+    }
+    
+    function testOnlyCreatorOrAdminCanRecall() public {
+        _setUpProductChain();
+        
+        // Holders that did not create the token cannot recall it
+        vm.prank(factory);
+        vm.expectRevert("Only creator or admin can recall");
+        supplyChain.recallToken(1, "Contaminated batch");
+        
+        vm.prank(unauthorized);
+        vm.expectRevert("Only creator or admin can recall");
+        supplyChain.recallToken(1, "Contaminated batch");
+    }
+    
+    function testRecallTokenValidation() public {
+        _setUpProductChain();
+        
+        vm.expectRevert("Invalid token ID");
+        supplyChain.recallToken(99, "Contaminated batch");
+        
+        vm.prank(producer);
+        vm.expectRevert("Reason cannot be empty");
+        supplyChain.recallToken(1, "");
+        
+        vm.prank(producer);
+        supplyChain.recallToken(1, "Contaminated batch");
+        vm.expectRevert("Token already recalled");
+        supplyChain.recallToken(1, "Second recall");
+    }
+    
+    function testRecallPropagatesToDerivedTokens() public {
+        _setUpProductChain();
+        
+        vm.prank(producer);
+        supplyChain.recallToken(1, "Contaminated batch");
+        
+        // Flour and bread are made from the wheat
+        assertTrue(supplyChain.isRecalled(2));
+        assertTrue(supplyChain.isRecalled(3));
+        assertEq(supplyChain.getRecallSource(3), 1);
+        
+        // Only the wheat carries its own recall record
+        (address recalledBy, , ) = supplyChain.recalls(3);
+        assertEq(recalledBy, address(0));
+    }
+    
+    function testRecallDoesNotPropagateUpstream() public {
+        _setUpProductChain();
+        
+        vm.prank(retailer);
+        supplyChain.recallToken(3, "Mislabelled allergens");
+        
+        assertTrue(supplyChain.isRecalled(3));
+        assertFalse(supplyChain.isRecalled(2));
+        assertFalse(supplyChain.isRecalled(1));
+        assertEq(supplyChain.getRecallSource(2), 0);
+        
+        // A descendant recall does not hide its own source when an ancestor is recalled later
+        vm.prank(producer);
+        supplyChain.recallToken(1, "Contaminated batch");
+        assertEq(supplyChain.getRecallSource(3), 3);
+        assertEq(supplyChain.getRecallSource(2), 1);
+    }
+    
+    function testGetRecallSourceInvalidId() public {
+        vm.expectRevert("Invalid token ID");
+        supplyChain.getRecallSource(1);
+        
+        vm.expectRevert("Invalid token ID");
+        supplyChain.isRecalled(0);
+    }
+    
+    function testCannotTransferRecalledToken() public {
+        _setUpProductChain();
+        
+        vm.prank(producer);
+        supplyChain.recallToken(1, "Contaminated batch");
+        
+        vm.prank(factory);
+        vm.expectRevert("Token is recalled");
+        supplyChain.transfer(retailer, 2, 50);
+        
+        vm.prank(retailer);
+        vm.expectRevert("Token is recalled");
+        supplyChain.transfer(consumer, 3, 10);
+    }
+    
+    function testCannotAcceptRecalledTokenTransfer() public {
+        _setUpProductChain();
+        
+        vm.prank(retailer);
+        supplyChain.transfer(consumer, 3, 10);
+        
+        vm.prank(producer);
+        supplyChain.recallToken(1, "Contaminated batch");
+        
+        vm.prank(consumer);
+        vm.expectRevert("Token is recalled");
+        supplyChain.acceptTransfer(3);
+        
+        assertEq(supplyChain.getTokenBalance(3, consumer), 0);
+        assertEq(supplyChain.getTokenBalance(3, retailer), 50);
+    }
+    
+    function testCanRejectRecalledTokenTransfer() public {
+        _setUpProductChain();
+        
+        vm.prank(retailer);
+        supplyChain.transfer(consumer, 3, 10);
+        
+        vm.prank(retailer);
+        supplyChain.recallToken(3, "Mislabelled allergens");
+        
+        vm.prank(consumer);
+        supplyChain.rejectTransfer(3);
+        
+        SupplyChain.Transfer memory txn = supplyChain.getTransfer(3);
+        assertEq(uint(txn.status), uint(SupplyChain.TransferStatus.Rejected));
+    }
 }
-
@@ -5,6 +5,13 @@ import nextTs from "eslint-config-next/typescript";
 const eslintConfig = defineConfig([
   ...nextVitals,
   ...nextTs,
+  // Wallet icons, generated QR codes and label previews are data URIs: next/image has nothing to optimize.
+  {
+    files: ["src/components/WalletPicker.tsx", "src/components/TokenQRCode.tsx", "src/components/LabelDesigner.tsx"],
+    rules: {
+      "@next/next/no-img-element": "off",
+    },
+  },
   // Override default ignores of eslint-config-next.
   globalIgnores([
     // Default ignores of eslint-config-next:
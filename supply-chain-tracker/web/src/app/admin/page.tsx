@@ -1,11 +1,12 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useWeb3 } from '@/contexts/Web3Context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Loader2, Users, Package, ArrowRightLeft, UserCheck, UserX, Clock } from 'lucide-react';
+import { useStatistics, useUsers } from '@/hooks/use-data';
 
 /**
  * Admin Dashboard Page
@@ -13,19 +14,7 @@ import { Loader2, Users, Package, ArrowRightLeft, UserCheck, UserX, Clock } from
  */
 export default function AdminPage() {
   const router = useRouter();
-  const { isConnected, isAdmin, isLoading, account } = useWeb3();
-  const [statistics, setStatistics] = useState({
-    totalUsers: 0,
-    totalTokens: 0,
-    totalTransfers: 0,
-  });
-  const [userStats, setUserStats] = useState({
-    pending: 0,
-    approved: 0,
-    rejected: 0,
-  });
-  const [isLoadingData, setIsLoadingData] = useState(true);
-
+  const { isConnected, isAdmin, isLoading } = useWeb3();
   // Check admin access
   useEffect(() => {
     if (!isLoading && !isConnected) {
@@ -36,35 +25,17 @@ export default function AdminPage() {
     }
   }, [isLoading, isConnected, isAdmin, router]);
 
-  // Fetch statistics
-  useEffect(() => {
-    async function fetchData() {
-      if (!isConnected || !isAdmin) return;
-
-      try {
-        setIsLoadingData(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        // Get overall statistics
-        const stats = await web3Service.getStatistics();
-        setStatistics(stats);
-
-        // Get all users to calculate status breakdown
-        const users = await web3Service.getAllUsers();
-        const pending = users.filter(u => u.status === 0).length;
-        const approved = users.filter(u => u.status === 1).length;
-        const rejected = users.filter(u => u.status === 2).length;
-
-        setUserStats({ pending, approved, rejected });
-      } catch (error) {
-        console.error('Error fetching statistics:', error);
-      } finally {
-        setIsLoadingData(false);
-      }
-    }
-
-    fetchData();
-  }, [isConnected, isAdmin]);
+  // Overall statistics and the users behind the status breakdown
+  const stats = useStatistics(isConnected && isAdmin);
+  const users = useUsers(isConnected && isAdmin);
+  const statistics = stats.data ?? { totalUsers: 0, totalTokens: 0, totalTransfers: 0 };
+  const allUsers = users.data ?? [];
+  const userStats = {
+    pending: allUsers.filter(u => u.status === 0).length,
+    approved: allUsers.filter(u => u.status === 1).length,
+    rejected: allUsers.filter(u => u.status === 2).length,
+  };
+  const isLoadingData = stats.isLoading || users.isLoading;
 
   // Show loading while checking permissions
   if (isLoading || !isConnected || !isAdmin) {
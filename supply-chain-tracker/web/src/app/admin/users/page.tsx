@@ -9,16 +9,19 @@ import { Badge } from '@/components/ui/badge';
 import { Loader2, Check, X, RefreshCcw, ArrowLeft } from 'lucide-react';
 import { truncateAddress, getRoleBadgeVariant, getStatusBadgeVariant } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-
-interface User {
-  id: number;
-  userAddress: string;
-  role: string;
-  status: number;
-}
+import { decodeContractError } from '@/lib/errors';
+import { User } from '@/contracts/models';
+import { useUsers } from '@/hooks/use-data';
+import { invalidateUsers } from '@/lib/queries';
 
 type FilterStatus = 'all' | 'pending' | 'approved' | 'rejected';
 
+const FILTER_STATUS: Record<Exclude<FilterStatus, 'all'>, number> = {
+  pending: 0,
+  approved: 1,
+  rejected: 2,
+};
+
 /**
  * User Management Page
  * Allows admin to view and manage all users
@@ -26,11 +29,8 @@ type FilterStatus = 'all' | 'pending' | 'approved' | 'rejected';
 export default function AdminUsersPage() {
   const router = useRouter();
   const { isConnected, isAdmin, isLoading } = useWeb3();
-  const [users, setUsers] = useState<User[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [isLoadingUsers, setIsLoadingUsers] = useState(true);
   const [filter, setFilter] = useState<FilterStatus>('all');
-  const [processingUserId, setProcessingUserId] = useState<number | null>(null);
+  const [processingUserId, setProcessingUserId] = useState<bigint | null>(null);
 
   // Check admin access
   useEffect(() => {
@@ -42,38 +42,16 @@ export default function AdminUsersPage() {
     }
   }, [isLoading, isConnected, isAdmin, router]);
 
-  // Fetch users
-  const fetchUsers = async () => {
-    if (!isConnected || !isAdmin) return;
-
-    try {
-      setIsLoadingUsers(true);
-      const { web3Service } = await import('@/lib/web3');
-      const allUsers = await web3Service.getAllUsers();
-      setUsers(allUsers);
-    } catch (error) {
-      console.error('Error fetching users:', error);
-    } finally {
-      setIsLoadingUsers(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchUsers();
-  }, [isConnected, isAdmin]);
-
-  // Apply filter
-  useEffect(() => {
-    if (filter === 'all') {
-      setFilteredUsers(users);
-    } else if (filter === 'pending') {
-      setFilteredUsers(users.filter(u => u.status === 0));
-    } else if (filter === 'approved') {
-      setFilteredUsers(users.filter(u => u.status === 1));
-    } else if (filter === 'rejected') {
-      setFilteredUsers(users.filter(u => u.status === 2));
-    }
-  }, [users, filter]);
+  // Users (shared cache, refetched on registration and status events)
+  const {
+    data: users = [],
+    isLoading: isLoadingUsers,
+    isFetching,
+    refetch,
+  } = useUsers(isConnected && isAdmin);
+  const filteredUsers = filter === 'all'
+    ? users
+    : users.filter(u => u.status === FILTER_STATUS[filter]);
 
   const { toast } = useToast();
 
@@ -90,17 +68,14 @@ export default function AdminUsersPage() {
         variant: 'success',
       });
       
-      // Wait a moment for transaction to be mined
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Refresh users list
-      await fetchUsers();
+      // Refresh users list and statistics
+      invalidateUsers();
     } catch (error: unknown) {
       console.error('Error approving user:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to approve user';
+      const decoded = decodeContractError(error);
       toast({
-        title: 'Approval Failed',
-        description: errorMessage,
+        title: `Approval Failed: ${decoded.title}`,
+        description: decoded.message,
         variant: 'danger',
       });
     } finally {
@@ -121,17 +96,14 @@ export default function AdminUsersPage() {
         variant: 'warning',
       });
       
-      // Wait a moment for transaction to be mined
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Refresh users list
-      await fetchUsers();
+      // Refresh users list and statistics
+      invalidateUsers();
     } catch (error: unknown) {
       console.error('Error rejecting user:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to reject user';
+      const decoded = decodeContractError(error);
       toast({
-        title: 'Rejection Failed',
-        description: errorMessage,
+        title: `Rejection Failed: ${decoded.title}`,
+        description: decoded.message,
         variant: 'danger',
       });
     } finally {
@@ -177,11 +149,11 @@ export default function AdminUsersPage() {
           </div>
           
           <Button
-            onClick={fetchUsers}
+            onClick={refetch}
             variant="outline"
-            disabled={isLoadingUsers}
+            disabled={isFetching}
           >
-            <RefreshCcw className={`mr-2 h-4 w-4 ${isLoadingUsers ? 'animate-spin' : ''}`} />
+            <RefreshCcw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
         </div>
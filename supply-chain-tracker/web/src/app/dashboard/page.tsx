@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useWeb3 } from '@/contexts/Web3Context';
@@ -22,35 +22,20 @@ import {
   CheckCircle,
   Clock,
   BarChart3,
+  ScanLine,
 } from 'lucide-react';
 import { 
   truncateAddress, 
   formatDate, 
   formatNumber,
+  sumBigInt,
   getStatusBadgeVariant,
 } from '@/lib/utils';
-
-interface Token {
-  id: number;
-  name: string;
-  totalSupply: number;
-  balance: number;
-  creator: string;
-  dateCreated: number;
-  parentId: number;
-  features: string;
-}
-
-interface Transfer {
-  id: number;
-  from: string;
-  to: string;
-  tokenId: number;
-  tokenName?: string;
-  amount: number;
-  status: number;
-  dateCreated: number;
-}
+import { TokenWithBalance, TransferWithToken } from '@/contracts/models';
+import { ConnectionNotice } from '@/components/ConnectionNotice';
+import { QRCodeScanner } from '@/components/QRCodeScanner';
+import { RecalledHoldingsBanner } from '@/components/RecallBanner';
+import { usePortfolio, useRecalledTokens, useTransfers } from '@/hooks/use-data';
 
 /**
  * Dashboard Page
@@ -59,9 +44,6 @@ interface Transfer {
 export default function DashboardPage() {
   const router = useRouter();
   const { isConnected, isLoading, account, userInfo, isApproved } = useWeb3();
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [transfers, setTransfers] = useState<Transfer[]>([]);
-  const [isLoadingData, setIsLoadingData] = useState(true);
 
   // Check access
   useEffect(() => {
@@ -73,56 +55,15 @@ export default function DashboardPage() {
     }
   }, [isLoading, isConnected, isApproved, router]);
 
-  // Fetch user's data
-  useEffect(() => {
-    async function fetchData() {
-      if (!isConnected || !isApproved || !account) return;
-
-      try {
-        setIsLoadingData(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        // Fetch tokens
-        const tokenIds = await web3Service.getUserTokens(account);
-        const tokenDetails = await Promise.all(
-          tokenIds.map(async (tokenId) => {
-            const token = await web3Service.getToken(tokenId);
-            const balance = await web3Service.getTokenBalance(tokenId, account);
-            return {
-              ...token,
-              balance,
-            };
-          })
-        );
-
-        // Fetch transfers
-        const transferIds = await web3Service.getUserTransfers(account);
-        const transferDetails = await Promise.all(
-          transferIds.map(async (transferId) => {
-            const transfer = await web3Service.getTransfer(transferId);
-            try {
-              const token = await web3Service.getToken(transfer.tokenId);
-              return {
-                ...transfer,
-                tokenName: token.name,
-              };
-            } catch {
-              return transfer;
-            }
-          })
-        );
-
-        setTokens(tokenDetails);
-        setTransfers(transferDetails.sort((a, b) => b.dateCreated - a.dateCreated));
-      } catch (error) {
-        console.error('Error fetching dashboard data:', error);
-      } finally {
-        setIsLoadingData(false);
-      }
-    }
-
-    fetchData();
-  }, [isConnected, isApproved, account]);
+  // Tokens with balances and transfers with token names (most recent first)
+  const owner = isConnected && isApproved ? account : null;
+  const portfolio = usePortfolio(owner);
+  const history = useTransfers(owner);
+  const { data: recalls } = useRecalledTokens(owner !== null);
+  const tokens = portfolio.data ?? [];
+  const transfers = history.data ?? [];
+  const isLoadingData = portfolio.isLoading || history.isLoading;
+  const loadFailed = !!portfolio.error || !!history.error;
 
   // Show loading while checking permissions
   if (isLoading || !isConnected || !isApproved || !userInfo) {
@@ -135,7 +76,7 @@ export default function DashboardPage() {
 
   // Calculate statistics
   const totalTokens = tokens.length;
-  const totalBalance = tokens.reduce((sum, token) => sum + token.balance, 0);
+  const totalBalance = sumBigInt(tokens.map(token => token.balance));
   const tokensCreated = tokens.filter(token => 
     token.creator.toLowerCase() === account?.toLowerCase()
   ).length;
@@ -163,6 +104,10 @@ export default function DashboardPage() {
         </p>
       </div>
 
+      <ConnectionNotice loadFailed={loadFailed} />
+
+      {recalls && <RecalledHoldingsBanner tokens={tokens} recalls={recalls} />}
+
       {/* Role-specific content */}
       {userInfo.role === 'Producer' && (
         <ProducerDashboard 
@@ -205,8 +150,8 @@ export default function DashboardPage() {
  * Focus: Raw material production and distribution
  */
 function ProducerDashboard({ tokens, transfers, stats, isLoading }: {
-  tokens: Token[];
-  transfers: Transfer[];
+  tokens: TokenWithBalance[];
+  transfers: TransferWithToken[];
   stats: { totalTokens: number; tokensCreated: number; sentTransfers: number };
   isLoading: boolean;
 }) {
@@ -340,7 +285,7 @@ function ProducerDashboard({ tokens, transfers, stats, isLoading }: {
                     <Send className="h-5 w-5 text-blue-600" />
                     <div>
                       <div className="font-medium text-gray-900">
-                        Sent {formatNumber(transfer.amount)} {transfer.tokenName || `Token #${transfer.tokenId}`}
+                        Sent {formatNumber(transfer.amount)} {transfer.tokenName}
                       </div>
                       <div className="text-sm text-gray-600">
                         To: {truncateAddress(transfer.to)}
@@ -368,8 +313,8 @@ function ProducerDashboard({ tokens, transfers, stats, isLoading }: {
  * Focus: Processing raw materials into products
  */
 function FactoryDashboard({ tokens, transfers, stats, isLoading }: {
-  tokens: Token[];
-  transfers: Transfer[];
+  tokens: TokenWithBalance[];
+  transfers: TransferWithToken[];
   stats: { totalTokens: number; tokensCreated: number; sentTransfers: number; receivedTransfers: number };
   isLoading: boolean;
 }) {
@@ -557,7 +502,7 @@ function FactoryDashboard({ tokens, transfers, stats, isLoading }: {
                       )}
                       <div>
                         <div className="font-medium text-gray-900">
-                          {isSender ? 'Sent' : 'Received'} {formatNumber(transfer.amount)} {transfer.tokenName || `Token #${transfer.tokenId}`}
+                          {isSender ? 'Sent' : 'Received'} {formatNumber(transfer.amount)} {transfer.tokenName}
                         </div>
                         <div className="text-sm text-gray-600">
                           {isSender ? 'To' : 'From'}: {truncateAddress(isSender ? transfer.to : transfer.from)}
@@ -586,9 +531,9 @@ function FactoryDashboard({ tokens, transfers, stats, isLoading }: {
  * Focus: Distributing to consumers
  */
 function RetailerDashboard({ tokens, transfers, stats, isLoading }: {
-  tokens: Token[];
-  transfers: Transfer[];
-  stats: { totalTokens: number; totalBalance: number; sentTransfers: number; receivedTransfers: number };
+  tokens: TokenWithBalance[];
+  transfers: TransferWithToken[];
+  stats: { totalTokens: number; totalBalance: bigint; sentTransfers: number; receivedTransfers: number };
   isLoading: boolean;
 }) {
   const { account } = useWeb3();
@@ -777,7 +722,7 @@ function RetailerDashboard({ tokens, transfers, stats, isLoading }: {
                     <Send className="h-5 w-5 text-purple-600" />
                     <div>
                       <div className="font-medium text-gray-900">
-                        Sold {formatNumber(transfer.amount)} {transfer.tokenName || `Token #${transfer.tokenId}`}
+                        Sold {formatNumber(transfer.amount)} {transfer.tokenName}
                       </div>
                       <div className="text-sm text-gray-600">
                         To: {truncateAddress(transfer.to)}
@@ -805,9 +750,9 @@ function RetailerDashboard({ tokens, transfers, stats, isLoading }: {
  * Focus: Product traceability and purchases
  */
 function ConsumerDashboard({ tokens, transfers, stats, isLoading }: {
-  tokens: Token[];
-  transfers: Transfer[];
-  stats: { totalTokens: number; totalBalance: number; receivedTransfers: number; pendingTransfers: number };
+  tokens: TokenWithBalance[];
+  transfers: TransferWithToken[];
+  stats: { totalTokens: number; totalBalance: bigint; receivedTransfers: number; pendingTransfers: number };
   isLoading: boolean;
 }) {
   const recentPurchases = transfers.slice(0, 5);
@@ -924,6 +869,22 @@ function ConsumerDashboard({ tokens, transfers, stats, isLoading }: {
         </Card>
       )}
 
+      {/* Scan a Product */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Scan a Product
+          </CardTitle>
+          <CardDescription>
+            Check a product from the QR code on its label
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QRCodeScanner />
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card className="mb-8">
         <CardHeader>
@@ -984,7 +945,7 @@ function ConsumerDashboard({ tokens, transfers, stats, isLoading }: {
                     <Download className="h-5 w-5 text-green-600" />
                     <div>
                       <div className="font-medium text-gray-900">
-                        Received {formatNumber(transfer.amount)} {transfer.tokenName || `Token #${transfer.tokenId}`}
+                        Received {formatNumber(transfer.amount)} {transfer.tokenName}
                       </div>
                       <div className="text-sm text-gray-600">
                         From: {truncateAddress(transfer.from)}
@@ -6,6 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { SimulationStatus } from '@/components/SimulationStatus';
+import { useSimulation } from '@/hooks/use-simulation';
+import { ContractError, decodeContractError } from '@/lib/errors';
 
 export default function Home() {
   const { isConnected, isLoading, connectWallet } = useWeb3();
@@ -35,9 +39,9 @@ export default function Home() {
             <p className="text-xl text-gray-600 mb-8">
               A blockchain-based supply chain tracking DApp built with Ethereum
             </p>
-            <Button onClick={connectWallet} size="lg" className="gap-2">
+            <Button onClick={() => connectWallet().catch(() => {})} size="lg" className="gap-2">
               <span>🔗</span>
-              Connect MetaMask to Get Started
+              Connect Your Wallet to Get Started
             </Button>
           </div>
 
@@ -96,7 +100,7 @@ export default function Home() {
                 <div>
                   <h4 className="font-semibold text-gray-900">Connect Your Wallet</h4>
                   <p className="text-sm text-gray-600">
-                    Use MetaMask to connect to the Anvil local network
+                    Use MetaMask, Rabby, Frame or any browser wallet on a supported network
                   </p>
                 </div>
               </div>
@@ -197,11 +201,18 @@ function AuthenticatedView() {
  * Step 3.2: Registration Form
  */
 function RegistrationForm() {
-  const { refreshUserInfo } = useWeb3();
+  const { account, refreshUserInfo } = useWeb3();
   const { toast } = useToast();
   const [selectedRole, setSelectedRole] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ContractError | string | null>(null);
+
+  // Simulate the role request as soon as a role is picked
+  const simulationKey = !isSubmitting && account && selectedRole ? [account, selectedRole].join('|') : null;
+  const { simulation, isSimulating, willRevert } = useSimulation(simulationKey, async () => {
+    const { web3Service } = await import('@/lib/web3');
+    return web3Service.simulateRequestUserRole(selectedRole);
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -235,11 +246,11 @@ function RegistrationForm() {
       await refreshUserInfo();
     } catch (err: unknown) {
       console.error('Registration error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to register. Please try again.';
-      setError(errorMessage);
+      const decoded = decodeContractError(err);
+      setError(decoded);
       toast({
-        title: 'Registration Failed',
-        description: errorMessage,
+        title: `Registration Failed: ${decoded.title}`,
+        description: decoded.message,
         variant: 'danger',
       });
     } finally {
@@ -322,17 +333,16 @@ function RegistrationForm() {
                 </label>
               </div>
 
+              {/* Pre-flight simulation */}
+              <SimulationStatus simulation={simulation} isSimulating={isSimulating} />
+
               {/* Error message */}
-              {error && (
-                <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
-                  {error}
-                </div>
-              )}
+              <ErrorMessage error={error} />
 
               {/* Submit button */}
               <Button
                 type="submit"
-                disabled={!selectedRole || isSubmitting}
+                disabled={!selectedRole || isSubmitting || willRevert}
                 className="w-full"
                 size="lg"
               >
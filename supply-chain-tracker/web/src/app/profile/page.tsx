@@ -22,31 +22,23 @@ import {
   truncateAddress, 
   formatDate, 
   formatNumber, 
+  percentOf,
+  sumBigInt,
   getRoleBadgeVariant,
   getStatusBadgeVariant,
 } from '@/lib/utils';
+import { ConnectionNotice } from '@/components/ConnectionNotice';
+import { EPCISExportButton } from '@/components/EPCISExportButton';
+import { Pagination } from '@/components/Pagination';
+import { SortOrderSelect } from '@/components/SortOrderSelect';
+import { usePortfolio, useTokensPage, useTransfers, useTransfersPage } from '@/hooks/use-data';
+import { PAGINATION_CONFIG } from '@/contracts/config';
+import { SortOrder } from '@/contracts/models';
 
-interface Token {
-  id: number;
-  name: string;
-  totalSupply: number;
-  balance: number;
-  creator: string;
-  dateCreated: number;
-  parentId: number;
-  features: string;
-}
-
-interface Transfer {
-  id: number;
-  from: string;
-  to: string;
-  tokenId: number;
-  tokenName: string;
-  amount: number;
-  status: number;
-  dateCreated: number;
-}
+/**
+ * Transfers per page in the activity list
+ */
+const ACTIVITY_PAGE_SIZE = 10;
 
 const statusLabels = ['Pending', 'Approved', 'Rejected', 'Cancelled'];
 
@@ -56,10 +48,10 @@ const statusLabels = ['Pending', 'Approved', 'Rejected', 'Cancelled'];
  */
 export default function ProfilePage() {
   const router = useRouter();
-  const { isConnected, isLoading, account, userInfo, isApproved } = useWeb3();
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [transfers, setTransfers] = useState<Transfer[]>([]);
-  const [isLoadingData, setIsLoadingData] = useState(true);
+  const { isConnected, isLoading, account, userInfo, isApproved, deployment } = useWeb3();
+  const [tokenOffset, setTokenOffset] = useState(0);
+  const [tokenOrder, setTokenOrder] = useState<SortOrder>('newest');
+  const [activityOffset, setActivityOffset] = useState(0);
 
   // Check access
   useEffect(() => {
@@ -71,52 +63,24 @@ export default function ProfilePage() {
     }
   }, [isLoading, isConnected, isApproved, router]);
 
-  // Fetch user's data
-  useEffect(() => {
-    async function fetchData() {
-      if (!isConnected || !isApproved || !account) return;
-
-      try {
-        setIsLoadingData(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        // Fetch tokens
-        const tokenIds = await web3Service.getUserTokens(account);
-        const tokenDetails = await Promise.all(
-          tokenIds.map(async (tokenId) => {
-            const token = await web3Service.getToken(tokenId);
-            const balance = await web3Service.getTokenBalance(tokenId, account);
-            return {
-              ...token,
-              balance,
-            };
-          })
-        );
-
-        // Fetch transfers
-        const transferIds = await web3Service.getUserTransfers(account);
-        const transferDetails = await Promise.all(
-          transferIds.map(async (transferId) => {
-            const transfer = await web3Service.getTransfer(transferId);
-            const token = await web3Service.getToken(transfer.tokenId);
-            return {
-              ...transfer,
-              tokenName: token.name,
-            };
-          })
-        );
+  // Statistics are computed over the whole history from the local index
+  const owner = isConnected && isApproved ? account : null;
+  const portfolio = usePortfolio(owner);
+  const history = useTransfers(owner);
+  const tokens = portfolio.data ?? [];
+  const transfers = history.data ?? [];
 
-        setTokens(tokenDetails);
-        setTransfers(transferDetails.sort((a, b) => b.dateCreated - a.dateCreated));
-      } catch (error) {
-        console.error('Error fetching profile data:', error);
-      } finally {
-        setIsLoadingData(false);
-      }
-    }
+  // The portfolio table and activity list show one contract page at a time
+  const tokenPage = useTokensPage(owner, tokenOffset, PAGINATION_CONFIG.pageSize, tokenOrder);
+  const activityPage = useTransfersPage(owner, activityOffset, ACTIVITY_PAGE_SIZE, 'newest');
+  const pageTokens = tokenPage.data?.items ?? [];
+  const pageTransfers = activityPage.data?.items ?? [];
+  const loadFailed = [portfolio, history, tokenPage, activityPage].some((q) => !!q.error);
 
-    fetchData();
-  }, [isConnected, isApproved, account]);
+  const handleTokenOrderChange = (order: SortOrder) => {
+    setTokenOrder(order);
+    setTokenOffset(0);
+  };
 
   // Show loading while checking permissions
   if (isLoading || !isConnected || !isApproved || !userInfo) {
@@ -129,7 +93,7 @@ export default function ProfilePage() {
 
   // Calculate statistics
   const totalTokens = tokens.length;
-  const totalBalance = tokens.reduce((sum, token) => sum + token.balance, 0);
+  const totalBalance = sumBigInt(tokens.map(token => token.balance));
   const tokensCreated = tokens.filter(token => 
     token.creator.toLowerCase() === account?.toLowerCase()
   ).length;
@@ -150,13 +114,21 @@ export default function ProfilePage() {
         </p>
       </div>
 
+      <ConnectionNotice loadFailed={loadFailed} />
+
       {/* User Information Card */}
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Wallet className="h-5 w-5" />
-            Account Information
-          </CardTitle>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Account Information
+              </CardTitle>
+              <CardDescription>Export your full history as GS1 EPCIS events for partners</CardDescription>
+            </div>
+            {account && <EPCISExportButton account={account} deployment={deployment} />}
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -303,20 +275,25 @@ export default function ProfilePage() {
       {/* Token Portfolio */}
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Package className="h-5 w-5" />
-            Token Portfolio
-          </CardTitle>
-          <CardDescription>
-            All tokens you currently own
-          </CardDescription>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Token Portfolio
+              </CardTitle>
+              <CardDescription>
+                All tokens you currently own
+              </CardDescription>
+            </div>
+            <SortOrderSelect value={tokenOrder} onChange={handleTokenOrderChange} />
+          </div>
         </CardHeader>
         <CardContent>
-          {isLoadingData ? (
+          {tokenPage.isLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
             </div>
-          ) : tokens.length === 0 ? (
+          ) : pageTokens.length === 0 ? (
             <div className="text-center py-12">
               <Package className="h-12 w-12 text-gray-300 mx-auto mb-3" />
               <p className="text-gray-500 mb-4">No tokens in your portfolio yet</p>
@@ -354,10 +331,8 @@ export default function ProfilePage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {tokens.map((token) => {
-                    const ownershipPercentage = token.totalSupply > 0 
-                      ? (token.balance / token.totalSupply) * 100 
-                      : 0;
+                  {pageTokens.map((token) => {
+                    const ownershipPercentage = percentOf(token.balance, token.totalSupply);
                     const isCreator = token.creator.toLowerCase() === account?.toLowerCase();
 
                     return (
@@ -404,6 +379,14 @@ export default function ProfilePage() {
                   })}
                 </tbody>
               </table>
+              <Pagination
+                offset={tokenOffset}
+                limit={PAGINATION_CONFIG.pageSize}
+                total={tokenPage.data?.total ?? 0}
+                label="tokens"
+                isFetching={tokenPage.isFetching}
+                onOffsetChange={setTokenOffset}
+              />
             </div>
           )}
         </CardContent>
@@ -421,18 +404,18 @@ export default function ProfilePage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {isLoadingData ? (
+          {activityPage.isLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
             </div>
-          ) : transfers.length === 0 ? (
+          ) : pageTransfers.length === 0 ? (
             <div className="text-center py-12">
               <ArrowRightLeft className="h-12 w-12 text-gray-300 mx-auto mb-3" />
               <p className="text-gray-500">No transfer activity yet</p>
             </div>
           ) : (
             <div className="space-y-4">
-              {transfers.slice(0, 10).map((transfer) => {
+              {pageTransfers.map((transfer) => {
                 const isSender = transfer.from.toLowerCase() === account?.toLowerCase();
                 const statusLabel = ['Pending', 'Accepted', 'Rejected', 'Cancelled'][transfer.status];
                 const statusVariant = getStatusBadgeVariant(transfer.status);
@@ -475,15 +458,14 @@ export default function ProfilePage() {
                   </div>
                 );
               })}
-              {transfers.length > 10 && (
-                <div className="text-center pt-4">
-                  <Link href="/transfers">
-                    <Button variant="outline" size="sm">
-                      View All Transfers ({transfers.length})
-                    </Button>
-                  </Link>
-                </div>
-              )}
+              <Pagination
+                offset={activityOffset}
+                limit={ACTIVITY_PAGE_SIZE}
+                total={activityPage.data?.total ?? 0}
+                label="transfers"
+                isFetching={activityPage.isFetching}
+                onOffsetChange={setActivityOffset}
+              />
             </div>
           )}
         </CardContent>
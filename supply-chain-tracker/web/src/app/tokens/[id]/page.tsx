@@ -1,103 +1,77 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useWeb3 } from '@/contexts/Web3Context';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, ArrowLeft, Package, User, Calendar, ArrowUpRight, Send } from 'lucide-react';
-import { truncateAddress, formatDate } from '@/lib/utils';
-
-interface Token {
-  id: number;
-  name: string;
-  totalSupply: number;
-  features: string;
-  creator: string;
-  dateCreated: number;
-  parentId: number;
-}
-
-interface ParentToken {
-  id: number;
-  name: string;
-}
+import {
+  Loader2,
+  ArrowLeft,
+  Package,
+  User,
+  Calendar,
+  ArrowUpRight,
+  Send,
+  Wallet,
+  GitBranch,
+  GitFork,
+  History,
+  Download,
+  QrCode,
+  FileText,
+  AlertOctagon,
+} from 'lucide-react';
+import { CustodyTimeline } from '@/components/CustodyTimeline';
+import { DerivedProductsTree } from '@/components/DerivedProductsTree';
+import { EPCISExportButton } from '@/components/EPCISExportButton';
+import { LabelDesigner } from '@/components/LabelDesigner';
+import { ProvenanceReportExport } from '@/components/ProvenanceReportExport';
+import { ProvenanceTree } from '@/components/ProvenanceTree';
+import { RecallBanner } from '@/components/RecallBanner';
+import { RecallReport } from '@/components/RecallReport';
+import { RecallTokenButton } from '@/components/RecallTokenButton';
+import { TokenQRCode } from '@/components/TokenQRCode';
+import { truncateAddress, formatDate, formatNumber, parseId, percentOf } from '@/lib/utils';
+import type { CustodyEvent } from '@/contracts/models';
+import { downloadFile, toCSV, toJSON } from '@/lib/export';
+import {
+  useCustodyTimeline,
+  useDescendants,
+  useProvenance,
+  useRecall,
+  useToken,
+  useTokenBalance,
+} from '@/hooks/use-data';
 
 /**
  * Token Details Page
  * Displays complete information about a token
+ * Public: anonymous visitors can browse, a wallet is only needed for actions
  */
 export default function TokenDetailsPage() {
   const router = useRouter();
   const params = useParams();
   const tokenId = params?.id as string;
-  const { isConnected, isLoading, account, isApproved } = useWeb3();
-  const [token, setToken] = useState<Token | null>(null);
-  const [balance, setBalance] = useState<number>(0);
-  const [parentToken, setParentToken] = useState<ParentToken | null>(null);
-  const [isLoadingToken, setIsLoadingToken] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Check access
-  useEffect(() => {
-    if (!isLoading && !isConnected) {
-      router.push('/');
-    }
-    if (!isLoading && isConnected && !isApproved) {
-      router.push('/');
-    }
-  }, [isLoading, isConnected, isApproved, router]);
-
-  // Fetch token details
-  useEffect(() => {
-    async function fetchTokenDetails() {
-      if (!tokenId || !account) return;
-
-      try {
-        setIsLoadingToken(true);
-        setError(null);
-        const { web3Service } = await import('@/lib/web3');
-        
-        const tokenDetails = await web3Service.getToken(parseInt(tokenId));
-        setToken(tokenDetails);
+  const { isConnected, isLoading, account, isApproved, isAdmin, connectWallet, deployment } = useWeb3();
+  const id = tokenId ? parseId(tokenId) : null;
 
-        // Get balance
-        const tokenBalance = await web3Service.getTokenBalance(parseInt(tokenId), account);
-        setBalance(tokenBalance);
+  // Token details, the connected account's balance and the parent token (shared cache)
+  const { data: token, error: tokenError, isLoading: isLoadingToken } = useToken(id);
+  const { data: balance = 0n } = useTokenBalance(id, account);
+  const { data: parentToken } = useToken(token && token.parentId > 0n ? token.parentId : null);
+  const { data: lineage, error: lineageError } = useProvenance(token && token.parentId > 0n ? token.id : null);
+  const { data: derivedProducts, error: derivedError } = useDescendants(token ? token.id : null);
+  const { data: custody, error: custodyError } = useCustodyTimeline(token ? token.id : null);
+  const { data: recall } = useRecall(token ? token.id : null);
 
-        // Get parent token if exists
-        if (tokenDetails.parentId > 0) {
-          try {
-            const parent = await web3Service.getToken(tokenDetails.parentId);
-            setParentToken({
-              id: parent.id,
-              name: parent.name,
-            });
-          } catch (err) {
-            console.error('Error fetching parent token:', err);
-          }
-        }
-      } catch (err: unknown) {
-        console.error('Error fetching token:', err);
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load token';
-        setError(errorMessage);
-      } finally {
-        setIsLoadingToken(false);
-      }
-    }
-
-    fetchTokenDetails();
-  }, [tokenId, account]);
-
-  // Show loading while checking permissions
-  if (isLoading || !isConnected || !isApproved) {
-    return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <Loader2 className="h-8 w-8 animate-spin text-gray-600" />
-      </div>
-    );
+  let error: string | null = null;
+  if (id === null) {
+    error = 'Invalid token ID';
+  } else if (tokenError) {
+    error = tokenError instanceof Error ? tokenError.message : 'Failed to load token';
   }
 
   // Show loading while fetching token
@@ -122,9 +96,9 @@ export default function TokenDetailsPage() {
             <p className="text-gray-600 text-center mb-6">
               {error || 'The token you&apos;re looking for doesn&apos;t exist or has been deleted.'}
             </p>
-            <Button onClick={() => router.push('/tokens')}>
+            <Button onClick={() => router.push(isConnected ? '/tokens' : '/')}>
               <ArrowLeft className="mr-2 h-4 w-4" />
-              Back to Tokens
+              {isConnected ? 'Back to Tokens' : 'Back to Home'}
             </Button>
           </CardContent>
         </Card>
@@ -134,18 +108,20 @@ export default function TokenDetailsPage() {
 
   const features = parseFeatures(token.features);
   const isCreator = token.creator.toLowerCase() === account?.toLowerCase();
+  // Tokens already covered by a recall (their own or an ancestor's) cannot be recalled again from here
+  const canRecall = isConnected && !!account && (isCreator || isAdmin) && recall === null;
 
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Back Button */}
       <Button
-        onClick={() => router.push('/tokens')}
+        onClick={() => router.push(isConnected ? '/tokens' : '/')}
         variant="outline"
         size="sm"
         className="mb-6"
       >
         <ArrowLeft className="mr-2 h-4 w-4" />
-        Back to Tokens
+        {isConnected ? 'Back to Tokens' : 'Back to Home'}
       </Button>
 
       {/* Header */}
@@ -164,33 +140,160 @@ export default function TokenDetailsPage() {
           </div>
         </div>
 
-        {balance > 0 && (
+        {isConnected && isApproved && balance > 0n && !recall && (
           <Button size="lg" className="gap-2" onClick={() => router.push(`/transfers/create?tokenId=${token.id}`)}>
             <Send className="h-5 w-5" />
             Transfer
           </Button>
         )}
+        {!isLoading && !isConnected && (
+          <Button size="lg" variant="outline" className="gap-2" onClick={() => connectWallet().catch(() => {})}>
+            <Wallet className="h-5 w-5" />
+            Connect Wallet to Transfer
+          </Button>
+        )}
       </div>
 
+      {/* Recall */}
+      {recall && (
+        <div className="mb-6">
+          <RecallBanner tokenId={token.id} recall={recall} />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Information */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Recall Report */}
+          {recall && (
+            <Card className="border-red-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertOctagon className="h-5 w-5 text-red-600" />
+                  Recall Report
+                </CardTitle>
+                <CardDescription>Every affected product and who holds it</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RecallReport tokenId={token.id} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Balance Card */}
-          <Card className="bg-gradient-to-br from-green-50 to-emerald-50 border-green-200">
+          {isConnected && (
+            <Card className="bg-gradient-to-br from-green-50 to-emerald-50 border-green-200">
+              <CardHeader>
+                <CardTitle>Your Balance</CardTitle>
+                <CardDescription>Amount of this token you currently own</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="text-4xl font-bold text-green-700">
+                  {formatNumber(balance)}
+                  <span className="text-xl text-green-600 ml-2">/ {formatNumber(token.totalSupply)}</span>
+                </div>
+                <div className="mt-2 text-sm text-green-600">
+                  {balance === 0n && "You don't own any of this token"}
+                  {balance > 0n && balance < token.totalSupply && `You own ${percentOf(balance, token.totalSupply).toFixed(1)}% of total supply`}
+                  {balance === token.totalSupply && 'You own the entire supply'}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Provenance */}
+          {token.parentId > 0n && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitBranch className="h-5 w-5" />
+                  Provenance
+                </CardTitle>
+                <CardDescription>Every step from the raw material to this product</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {lineage ? (
+                  <ProvenanceTree key={token.id.toString()} lineage={lineage} />
+                ) : lineageError ? (
+                  <div className="text-sm text-red-600">Failed to load the provenance of this token</div>
+                ) : (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Tracing the lineage...
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Custody Timeline */}
+          <Card>
             <CardHeader>
-              <CardTitle>Your Balance</CardTitle>
-              <CardDescription>Amount of this token you currently own</CardDescription>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Custody Timeline
+                  </CardTitle>
+                  <CardDescription>Where this batch has travelled, across all participants</CardDescription>
+                </div>
+                {custody && custody.length > 0 && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" className="gap-1" onClick={() => exportCustody(token.id, custody, 'csv')}>
+                      <Download className="h-4 w-4" />
+                      CSV
+                    </Button>
+                    <Button variant="outline" size="sm" className="gap-1" onClick={() => exportCustody(token.id, custody, 'json')}>
+                      <Download className="h-4 w-4" />
+                      JSON
+                    </Button>
+                    <EPCISExportButton tokenId={token.id} deployment={deployment} />
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="text-4xl font-bold text-green-700">
-                {balance}
-                <span className="text-xl text-green-600 ml-2">/ {token.totalSupply}</span>
-              </div>
-              <div className="mt-2 text-sm text-green-600">
-                {balance === 0 && "You don't own any of this token"}
-                {balance > 0 && balance < token.totalSupply && `You own ${((balance / token.totalSupply) * 100).toFixed(1)}% of total supply`}
-                {balance === token.totalSupply && 'You own the entire supply'}
-              </div>
+              {custody ? (
+                custody.length > 0 ? (
+                  <CustodyTimeline events={custody} deployment={deployment} />
+                ) : (
+                  <div className="text-sm text-gray-500">No custody events indexed yet</div>
+                )
+              ) : custodyError ? (
+                <div className="text-sm text-red-600">Failed to load the custody timeline of this token</div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading custody history...
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Derived Products */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitFork className="h-5 w-5" />
+                Derived Products
+              </CardTitle>
+              <CardDescription>Products made from this token and who holds them now</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {derivedProducts ? (
+                derivedProducts.length > 0 ? (
+                  <DerivedProductsTree products={derivedProducts} />
+                ) : (
+                  <div className="text-sm text-gray-500">No products have been made from this token yet</div>
+                )
+              ) : derivedError ? (
+                <div className="text-sm text-red-600">Failed to load the derived products of this token</div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Looking up derived products...
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -241,15 +344,62 @@ export default function TokenDetailsPage() {
             <CardContent className="space-y-4">
               <div>
                 <div className="text-xs text-gray-500 mb-1">Total Supply</div>
-                <div className="text-2xl font-bold text-gray-900">{token.totalSupply}</div>
-              </div>
-              <div>
-                <div className="text-xs text-gray-500 mb-1">Your Balance</div>
-                <div className="text-2xl font-bold text-green-600">{balance}</div>
+                <div className="text-2xl font-bold text-gray-900">{formatNumber(token.totalSupply)}</div>
               </div>
+              {isConnected && (
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">Your Balance</div>
+                  <div className="text-2xl font-bold text-green-600">{formatNumber(balance)}</div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Verification QR Code */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <QrCode className="h-4 w-4" />
+                Verification QR Code
+              </CardTitle>
+              <CardDescription>Print it on packaging so buyers can check the product</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <TokenQRCode tokenId={token.id} deployment={deployment} />
+              <LabelDesigner token={token} deployment={deployment} />
             </CardContent>
           </Card>
 
+          {/* Chain of Custody Report */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Chain of Custody Report
+              </CardTitle>
+              <CardDescription>Signed PDF and JSON for auditors</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProvenanceReportExport tokenId={token.id} deployment={deployment} isConnected={isConnected} />
+            </CardContent>
+          </Card>
+
+          {/* Recall */}
+          {canRecall && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <AlertOctagon className="h-4 w-4" />
+                  Product Recall
+                </CardTitle>
+                <CardDescription>Stop this product and everything made from it from changing hands</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RecallTokenButton token={token} account={account} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Creator Info */}
           <Card>
             <CardHeader>
@@ -288,7 +438,7 @@ export default function TokenDetailsPage() {
           </Card>
 
           {/* Parent Token */}
-          {token.parentId > 0 && (
+          {token.parentId > 0n && (
             <Card className="border-orange-200 bg-orange-50">
               <CardHeader>
                 <CardTitle className="text-base flex items-center gap-2">
@@ -324,6 +474,32 @@ export default function TokenDetailsPage() {
   );
 }
 
+/**
+ * Download a token's custody timeline as CSV or JSON
+ */
+function exportCustody(tokenId: bigint, events: CustodyEvent[], format: 'csv' | 'json') {
+  const filename = `token-${tokenId}-custody.${format}`;
+  if (format === 'json') {
+    downloadFile(filename, toJSON({ tokenId, events }), 'application/json');
+    return;
+  }
+
+  const rows = events.map((e) => [
+    e.type,
+    e.transferId,
+    e.from,
+    e.fromRole,
+    e.to,
+    e.toRole,
+    e.amount,
+    new Date(e.timestamp * 1000).toISOString(),
+    e.blockNumber,
+    e.txHash,
+  ]);
+  const headers = ['event', 'transferId', 'from', 'fromRole', 'to', 'toRole', 'amount', 'timestamp', 'blockNumber', 'txHash'];
+  downloadFile(filename, toCSV(headers, rows), 'text/csv');
+}
+
 /**
  * Parse features JSON safely
  */
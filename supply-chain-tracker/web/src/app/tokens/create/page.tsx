@@ -7,14 +7,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { SimulationStatus } from '@/components/SimulationStatus';
 import { Loader2, ArrowLeft, Package, Info } from 'lucide-react';
-
-interface Token {
-  id: number;
-  name: string;
-  totalSupply: number;
-  balance: number;
-}
+import { formatNumber, isValidJSON, parseId, parseQuantity } from '@/lib/utils';
+import { ContractError, decodeContractError } from '@/lib/errors';
+import { useSimulation } from '@/hooks/use-simulation';
+import { usePortfolio } from '@/hooks/use-data';
+import { invalidateTokenCreated } from '@/lib/queries';
 
 /**
  * Create Token Page
@@ -27,14 +27,25 @@ export default function CreateTokenPage() {
   const [totalSupply, setTotalSupply] = useState('');
   const [features, setFeatures] = useState('');
   const [parentId, setParentId] = useState('0');
-  const [availableTokens, setAvailableTokens] = useState<Token[]>([]);
-  const [isLoadingTokens, setIsLoadingTokens] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ContractError | string | null>(null);
 
   const userRole = userInfo?.role || '';
   const isProducer = userRole === 'Producer';
   const needsParentToken = userRole === 'Factory' || userRole === 'Retailer';
+  const parsedSupply = totalSupply.trim() ? parseQuantity(totalSupply) : null;
+  const parsedParent = needsParentToken ? parseId(parentId) : 0n;
+  const featuresJson = features.trim() || '{}';
+
+  // Simulate the createToken call once the form holds a complete, valid request
+  const simulationKey =
+    !isSubmitting && account && name.trim() && parsedSupply?.value != null && parsedParent !== null && isValidJSON(featuresJson)
+      ? [account, name.trim(), parsedSupply.value, featuresJson, parsedParent].join('|')
+      : null;
+  const { simulation, isSimulating, willRevert } = useSimulation(simulationKey, async () => {
+    const { web3Service } = await import('@/lib/web3');
+    return web3Service.simulateCreateToken(name.trim(), parsedSupply!.value!, featuresJson, parsedParent!);
+  });
 
   // Check access
   useEffect(() => {
@@ -49,40 +60,9 @@ export default function CreateTokenPage() {
     }
   }, [isLoading, isConnected, isApproved, userRole, router]);
 
-  // Fetch available tokens for parent selection
-  useEffect(() => {
-    async function fetchTokens() {
-      if (!needsParentToken || !account) return;
-
-      try {
-        setIsLoadingTokens(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        const tokenIds = await web3Service.getUserTokens(account);
-        const tokenDetails = await Promise.all(
-          tokenIds.map(async (tokenId) => {
-            const token = await web3Service.getToken(tokenId);
-            const balance = await web3Service.getTokenBalance(tokenId, account);
-            return {
-              id: token.id,
-              name: token.name,
-              totalSupply: token.totalSupply,
-              balance,
-            };
-          })
-        );
-
-        // Filter tokens with balance > 0
-        setAvailableTokens(tokenDetails.filter(t => t.balance > 0));
-      } catch (err) {
-        console.error('Error fetching tokens:', err);
-      } finally {
-        setIsLoadingTokens(false);
-      }
-    }
-
-    fetchTokens();
-  }, [needsParentToken, account]);
+  // Tokens with a balance can be used as parent
+  const { data: portfolio, isLoading: isLoadingTokens } = usePortfolio(needsParentToken ? account : null);
+  const availableTokens = (portfolio ?? []).filter(t => t.balance > 0n);
 
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
@@ -94,11 +74,13 @@ export default function CreateTokenPage() {
       setError('Please enter a token name');
       return;
     }
-    if (!totalSupply || parseInt(totalSupply) <= 0) {
-      setError('Please enter a valid total supply');
+    const supply = parseQuantity(totalSupply);
+    if (supply.error !== null) {
+      setError(`Invalid total supply: ${supply.error}`);
       return;
     }
-    if (needsParentToken && parentId === '0') {
+    const parent = needsParentToken ? parseId(parentId) : 0n;
+    if (parent === null) {
       setError('Please select a parent token');
       return;
     }
@@ -120,20 +102,19 @@ export default function CreateTokenPage() {
       
       await web3Service.createToken(
         name.trim(),
-        parseInt(totalSupply),
+        supply.value,
         parsedFeatures,
-        parseInt(parentId)
+        parent
       );
 
-      // Wait for transaction to be mined
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // The new token shows up in the creator's portfolio
+      invalidateTokenCreated(account!);
 
       // Redirect to tokens page
       router.push('/tokens');
     } catch (err: unknown) {
       console.error('Error creating token:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create token';
-      setError(errorMessage);
+      setError(decodeContractError(err));
       setIsSubmitting(false);
     }
   };
@@ -209,16 +190,21 @@ export default function CreateTokenPage() {
                 <Label htmlFor="totalSupply">Total Supply *</Label>
                 <Input
                   id="totalSupply"
-                  type="number"
-                  placeholder="e.g., 1000"
+                  inputMode="numeric"
+                  placeholder="e.g., 1,000"
                   value={totalSupply}
                   onChange={(e) => setTotalSupply(e.target.value)}
                   disabled={isSubmitting}
-                  min="1"
                 />
-                <p className="text-xs text-gray-500">
-                  The total number of units for this token
-                </p>
+                {parsedSupply?.error ? (
+                  <p className="text-xs text-red-600">{parsedSupply.error}</p>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    {parsedSupply?.value != null
+                      ? `${formatNumber(parsedSupply.value)} units`
+                      : 'The total number of units for this token'}
+                  </p>
+                )}
               </div>
 
               {/* Parent Token Selection (Factory/Retailer only) */}
@@ -247,8 +233,8 @@ export default function CreateTokenPage() {
                       >
                         <option value="0">Select a parent token</option>
                         {availableTokens.map((token) => (
-                          <option key={token.id} value={token.id}>
-                            #{token.id} - {token.name} (Balance: {token.balance})
+                          <option key={token.id} value={token.id.toString()}>
+                            #{token.id} - {token.name} (Balance: {formatNumber(token.balance)})
                           </option>
                         ))}
                       </select>
@@ -289,18 +275,17 @@ export default function CreateTokenPage() {
                 </div>
               </div>
 
+              {/* Pre-flight simulation */}
+              <SimulationStatus simulation={simulation} isSimulating={isSimulating} />
+
               {/* Error message */}
-              {error && (
-                <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
-                  {error}
-                </div>
-              )}
+              <ErrorMessage error={error} />
 
               {/* Submit Button */}
               <div className="flex gap-3 pt-4">
                 <Button
                   type="submit"
-                  disabled={isSubmitting || (needsParentToken && availableTokens.length === 0)}
+                  disabled={isSubmitting || willRevert || (needsParentToken && availableTokens.length === 0)}
                   size="lg"
                   className="flex-1"
                 >
@@ -7,20 +7,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader } from '@/components/ui/card';
 import { TokenCard } from '@/components/TokenCard';
 import { Loader2, Plus, Package } from 'lucide-react';
-
-interface Token {
-  id: number;
-  name: string;
-  totalSupply: number;
-  features: string;
-  creator: string;
-  dateCreated: number;
-  parentId: number;
-}
-
-interface TokenWithBalance extends Token {
-  balance: number;
-}
+import { formatNumber, sumBigInt } from '@/lib/utils';
+import { ConnectionNotice } from '@/components/ConnectionNotice';
+import { Pagination } from '@/components/Pagination';
+import { SortOrderSelect } from '@/components/SortOrderSelect';
+import { usePortfolio, useRecalledTokens, useTokensPage } from '@/hooks/use-data';
+import { PAGINATION_CONFIG } from '@/contracts/config';
+import { SortOrder } from '@/contracts/models';
 
 /**
  * Tokens Page
@@ -29,8 +22,8 @@ interface TokenWithBalance extends Token {
 export default function TokensPage() {
   const router = useRouter();
   const { isConnected, isLoading, account, userInfo, isApproved } = useWeb3();
-  const [tokens, setTokens] = useState<TokenWithBalance[]>([]);
-  const [isLoadingTokens, setIsLoadingTokens] = useState(true);
+  const [offset, setOffset] = useState(0);
+  const [order, setOrder] = useState<SortOrder>('newest');
 
   // Check access
   useEffect(() => {
@@ -42,40 +35,21 @@ export default function TokensPage() {
     }
   }, [isLoading, isConnected, isApproved, router]);
 
-  // Fetch user's tokens
-  useEffect(() => {
-    async function fetchTokens() {
-      if (!isConnected || !isApproved || !account) return;
-
-      try {
-        setIsLoadingTokens(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        // Get user's token IDs
-        const tokenIds = await web3Service.getUserTokens(account);
-        
-        // Fetch details for each token
-        const tokenDetails = await Promise.all(
-          tokenIds.map(async (tokenId) => {
-            const token = await web3Service.getToken(tokenId);
-            const balance = await web3Service.getTokenBalance(tokenId, account);
-            return {
-              ...token,
-              balance,
-            };
-          })
-        );
-
-        setTokens(tokenDetails);
-      } catch (error) {
-        console.error('Error fetching tokens:', error);
-      } finally {
-        setIsLoadingTokens(false);
-      }
-    }
-
-    fetchTokens();
-  }, [isConnected, isApproved, account]);
+  // Totals come from the local index, the grid shows one contract page at a time
+  // (shared cache, refetched when transfers change balances)
+  const owner = isConnected && isApproved ? account : null;
+  const portfolio = usePortfolio(owner);
+  const page = useTokensPage(owner, offset, PAGINATION_CONFIG.pageSize, order);
+  const { data: recalls } = useRecalledTokens(owner !== null);
+  const tokens = portfolio.data ?? [];
+  const pageTokens = page.data?.items ?? [];
+  const total = page.data?.total ?? tokens.length;
+  const loadFailed = !!page.error || !!portfolio.error;
+
+  const handleOrderChange = (next: SortOrder) => {
+    setOrder(next);
+    setOffset(0);
+  };
 
   // Show loading while checking permissions
   if (isLoading || !isConnected || !isApproved) {
@@ -114,12 +88,14 @@ export default function TokensPage() {
         )}
       </div>
 
+      <ConnectionNotice loadFailed={loadFailed} />
+
       {/* Tokens Grid */}
-      {isLoadingTokens ? (
+      {portfolio.isLoading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-gray-600" />
         </div>
-      ) : tokens.length === 0 ? (
+      ) : loadFailed && tokens.length === 0 ? null : tokens.length === 0 ? (
         <EmptyState 
           canCreate={!!canCreateTokens}
           onCreateClick={() => router.push('/tokens/create')}
@@ -130,12 +106,12 @@ export default function TokensPage() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
             <StatCard
               label="Total Tokens"
-              value={tokens.length}
+              value={total}
               icon={<Package className="h-5 w-5 text-blue-600" />}
             />
             <StatCard
               label="Total Balance"
-              value={tokens.reduce((sum, t) => sum + t.balance, 0)}
+              value={sumBigInt(tokens.map(t => t.balance))}
               icon={<Package className="h-5 w-5 text-green-600" />}
             />
             <StatCard
@@ -145,12 +121,31 @@ export default function TokensPage() {
             />
           </div>
 
-          {/* Tokens Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {tokens.map((token) => (
-              <TokenCard key={token.id} token={token} balance={token.balance} />
-            ))}
+          <div className="flex justify-end mb-4">
+            <SortOrderSelect value={order} onChange={handleOrderChange} />
           </div>
+
+          {/* Tokens Grid */}
+          {page.isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-600" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {pageTokens.map((token) => (
+                <TokenCard key={token.id} token={token} balance={token.balance} recall={recalls?.get(token.id)} />
+              ))}
+            </div>
+          )}
+
+          <Pagination
+            offset={offset}
+            limit={PAGINATION_CONFIG.pageSize}
+            total={total}
+            label="tokens"
+            isFetching={page.isFetching}
+            onOffsetChange={setOffset}
+          />
         </>
       )}
     </div>
@@ -200,7 +195,7 @@ function EmptyState({ canCreate, onCreateClick }: EmptyStateProps) {
  */
 interface StatCardProps {
   label: string;
-  value: number;
+  value: number | bigint;
   icon: React.ReactNode;
 }
 
@@ -214,7 +209,7 @@ function StatCard({ label, value, icon }: StatCardProps) {
         {icon}
       </CardHeader>
       <CardContent>
-        <div className="text-2xl font-bold">{value}</div>
+        <div className="text-2xl font-bold">{formatNumber(value)}</div>
       </CardContent>
     </Card>
   );
@@ -7,16 +7,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { SimulationStatus } from '@/components/SimulationStatus';
 import { Loader2, ArrowLeft, Send, Package, Info } from 'lucide-react';
-import { isValidAddress } from '@/lib/utils';
+import { formatNumber, isValidAddress, parseId, parseQuantity } from '@/lib/utils';
+import { ContractError, decodeContractError } from '@/lib/errors';
+import { useSimulation } from '@/hooks/use-simulation';
+import { usePortfolio } from '@/hooks/use-data';
+import { invalidateTransfer } from '@/lib/queries';
 import { VALID_TRANSFERS } from '@/contracts/config';
 
-interface Token {
-  id: number;
-  name: string;
-  balance: number;
-}
-
 /**
  * Create Transfer Page
  * Allows users to initiate transfers to other participants
@@ -42,13 +42,11 @@ function CreateTransferForm() {
   const searchParams = useSearchParams();
   const { isConnected, isLoading, account, userInfo, isApproved } = useWeb3();
   
-  const [tokens, setTokens] = useState<Token[]>([]);
   const [selectedTokenId, setSelectedTokenId] = useState<string>('');
   const [recipientAddress, setRecipientAddress] = useState('');
   const [amount, setAmount] = useState('');
-  const [isLoadingTokens, setIsLoadingTokens] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ContractError | string | null>(null);
 
   const userRole = userInfo?.role || '';
   const canTransfer = userRole !== 'Consumer';
@@ -74,42 +72,23 @@ function CreateTransferForm() {
     }
   }, [isLoading, isConnected, isApproved, userRole, router]);
 
-  // Fetch user's tokens
-  useEffect(() => {
-    async function fetchTokens() {
-      if (!account) return;
-
-      try {
-        setIsLoadingTokens(true);
-        const { web3Service } = await import('@/lib/web3');
-        
-        const tokenIds = await web3Service.getUserTokens(account);
-        const tokenDetails = await Promise.all(
-          tokenIds.map(async (tokenId) => {
-            const token = await web3Service.getToken(tokenId);
-            const balance = await web3Service.getTokenBalance(tokenId, account);
-            return {
-              id: token.id,
-              name: token.name,
-              balance,
-            };
-          })
-        );
-
-        // Filter tokens with balance > 0
-        setTokens(tokenDetails.filter(t => t.balance > 0));
-      } catch (err) {
-        console.error('Error fetching tokens:', err);
-      } finally {
-        setIsLoadingTokens(false);
-      }
-    }
-
-    fetchTokens();
-  }, [account]);
+  // Tokens with a balance can be transferred
+  const { data: portfolio, isLoading: isLoadingTokens } = usePortfolio(account);
+  const tokens = (portfolio ?? []).filter(t => t.balance > 0n);
 
   // Get selected token details
-  const selectedToken = tokens.find(t => t.id === parseInt(selectedTokenId));
+  const selectedToken = tokens.find(t => t.id === parseId(selectedTokenId));
+  const parsedAmount = amount.trim() ? parseQuantity(amount, { max: selectedToken?.balance }) : null;
+
+  // Simulate the transfer once token, recipient and amount are filled in
+  const simulationKey =
+    !isSubmitting && account && selectedToken && isValidAddress(recipientAddress) && parsedAmount?.value != null
+      ? [account, recipientAddress.toLowerCase(), selectedToken.id, parsedAmount.value].join('|')
+      : null;
+  const { simulation, isSimulating, willRevert } = useSimulation(simulationKey, async () => {
+    const { web3Service } = await import('@/lib/web3');
+    return web3Service.simulateTransfer(recipientAddress, selectedToken!.id, parsedAmount!.value!);
+  });
 
   // Get valid recipient roles based on user role
   const validRecipientRoles = userRole ? VALID_TRANSFERS[userRole as keyof typeof VALID_TRANSFERS] : [];
@@ -120,7 +99,7 @@ function CreateTransferForm() {
     setError(null);
 
     // Validation
-    if (!selectedTokenId) {
+    if (!selectedToken) {
       setError('Please select a token');
       return;
     }
@@ -136,12 +115,13 @@ function CreateTransferForm() {
       setError('Cannot transfer to yourself');
       return;
     }
-    if (!amount || parseInt(amount) <= 0) {
-      setError('Please enter a valid amount');
+    const parsed = parseQuantity(amount);
+    if (parsed.error !== null) {
+      setError(parsed.error);
       return;
     }
-    if (selectedToken && parseInt(amount) > selectedToken.balance) {
-      setError(`Insufficient balance. You have ${selectedToken.balance} units`);
+    if (parsed.value > selectedToken.balance) {
+      setError(`Insufficient balance. You have ${formatNumber(selectedToken.balance)} units`);
       return;
     }
 
@@ -151,19 +131,18 @@ function CreateTransferForm() {
       
       await web3Service.transfer(
         recipientAddress,
-        parseInt(selectedTokenId),
-        parseInt(amount)
+        selectedToken.id,
+        parsed.value
       );
 
-      // Wait for transaction to be mined
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // The pending transfer shows up for both parties
+      invalidateTransfer({ from: account!, to: recipientAddress, tokenId: selectedToken.id }, false);
 
       // Redirect to transfers page
       router.push('/transfers');
     } catch (err: unknown) {
       console.error('Error creating transfer:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create transfer';
-      setError(errorMessage);
+      setError(decodeContractError(err));
       setIsSubmitting(false);
     }
   };
@@ -241,14 +220,14 @@ function CreateTransferForm() {
                   >
                     <option value="">Choose a token</option>
                     {tokens.map((token) => (
-                      <option key={token.id} value={token.id}>
-                        #{token.id} - {token.name} (Balance: {token.balance})
+                      <option key={token.id} value={token.id.toString()}>
+                        #{token.id} - {token.name} (Balance: {formatNumber(token.balance)})
                       </option>
                     ))}
                   </select>
                   {selectedToken && (
                     <p className="text-xs text-gray-500">
-                      Available balance: {selectedToken.balance} units
+                      Available balance: {formatNumber(selectedToken.balance)} units
                     </p>
                   )}
                 </div>
@@ -273,31 +252,34 @@ function CreateTransferForm() {
                   <Label htmlFor="amount">Amount *</Label>
                   <Input
                     id="amount"
-                    type="number"
+                    inputMode="numeric"
                     placeholder="e.g., 100"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     disabled={isSubmitting}
-                    min="1"
-                    max={selectedToken?.balance}
                   />
-                  <p className="text-xs text-gray-500">
-                    Number of units to transfer
-                  </p>
+                  {parsedAmount?.error ? (
+                    <p className="text-xs text-red-600">{parsedAmount.error}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {parsedAmount?.value != null
+                        ? `${formatNumber(parsedAmount.value)} units`
+                        : 'Number of units to transfer'}
+                    </p>
+                  )}
                 </div>
 
+                {/* Pre-flight simulation */}
+                <SimulationStatus simulation={simulation} isSimulating={isSimulating} />
+
                 {/* Error message */}
-                {error && (
-                  <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
-                    {error}
-                  </div>
-                )}
+                <ErrorMessage error={error} />
 
                 {/* Submit Button */}
                 <div className="flex gap-3 pt-4">
                   <Button
                     type="submit"
-                    disabled={isSubmitting || tokens.length === 0}
+                    disabled={isSubmitting || willRevert || tokens.length === 0}
                     size="lg"
                     className="flex-1"
                   >
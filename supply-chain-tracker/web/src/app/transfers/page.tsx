@@ -7,26 +7,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Plus, ArrowRightLeft, Check, X, RefreshCcw, Clock, CheckCircle, XCircle } from 'lucide-react';
-import { truncateAddress, formatDate, getStatusBadgeVariant } from '@/lib/utils';
-
-interface Transfer {
-  id: number;
-  tokenId: number;
-  from: string;
-  to: string;
-  amount: number;
-  status: number; // 0: Pending, 1: Accepted, 2: Rejected
-  dateCreated: number;
-}
-
-interface TokenInfo {
-  id: number;
-  name: string;
-}
-
-interface TransferWithToken extends Transfer {
-  tokenName: string;
-}
+import { truncateAddress, formatDate, formatNumber, getStatusBadgeVariant } from '@/lib/utils';
+import { SortOrder, TransferWithToken } from '@/contracts/models';
+import { PAGINATION_CONFIG } from '@/contracts/config';
+import { useToast } from '@/hooks/use-toast';
+import { decodeContractError } from '@/lib/errors';
+import { ConnectionNotice } from '@/components/ConnectionNotice';
+import { Pagination } from '@/components/Pagination';
+import { SortOrderSelect } from '@/components/SortOrderSelect';
+import { useTransfers, useTransfersPage } from '@/hooks/use-data';
+import { invalidateTransfer } from '@/lib/queries';
 
 /**
  * Transfers Page
@@ -35,10 +25,11 @@ interface TransferWithToken extends Transfer {
 export default function TransfersPage() {
   const router = useRouter();
   const { isConnected, isLoading, account, userInfo, isApproved } = useWeb3();
-  const [transfers, setTransfers] = useState<TransferWithToken[]>([]);
-  const [isLoadingTransfers, setIsLoadingTransfers] = useState(true);
-  const [processingTransferId, setProcessingTransferId] = useState<number | null>(null);
+  const [processingTransferId, setProcessingTransferId] = useState<bigint | null>(null);
+  const { toast } = useToast();
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('all');
+  const [offset, setOffset] = useState(0);
+  const [order, setOrder] = useState<SortOrder>('newest');
 
   const userRole = userInfo?.role || '';
   const canTransfer = userRole !== 'Consumer';
@@ -53,81 +44,70 @@ export default function TransfersPage() {
     }
   }, [isLoading, isConnected, isApproved, router]);
 
-  // Fetch transfers
-  const fetchTransfers = async () => {
-    if (!isConnected || !account) return;
+  // Totals and status filters use the local index; the unfiltered list is paginated
+  // and ordered by the contract (shared cache, refetched on transfer events)
+  const owner = isConnected ? account : null;
+  const history = useTransfers(owner);
+  const page = useTransfersPage(owner, offset, PAGINATION_CONFIG.pageSize, order);
+  const transfers = history.data ?? [];
+  const isLoadingTransfers = history.isLoading;
+  const isFetching = history.isFetching || page.isFetching;
+  const loadFailed = !!history.error || !!page.error;
 
-    try {
-      setIsLoadingTransfers(true);
-      const { web3Service } = await import('@/lib/web3');
-      
-      // Get user's transfer IDs
-      const transferIds = await web3Service.getUserTransfers(account);
-      
-      // Fetch details for each transfer
-      const transferDetails = await Promise.all(
-        transferIds.map(async (transferId) => {
-          const transfer = await web3Service.getTransfer(transferId);
-          const token = await web3Service.getToken(transfer.tokenId);
-          return {
-            ...transfer,
-            tokenName: token.name,
-          };
-        })
-      );
-
-      // Sort by dateCreated (most recent first)
-      transferDetails.sort((a, b) => b.dateCreated - a.dateCreated);
+  const refetch = () => {
+    history.refetch();
+    page.refetch();
+  };
 
-      setTransfers(transferDetails);
-    } catch (error) {
-      console.error('Error fetching transfers:', error);
-    } finally {
-      setIsLoadingTransfers(false);
-    }
+  const handleFilterChange = (next: typeof filter) => {
+    setFilter(next);
+    setOffset(0);
   };
 
-  useEffect(() => {
-    fetchTransfers();
-  }, [isConnected, account]);
+  const handleOrderChange = (next: SortOrder) => {
+    setOrder(next);
+    setOffset(0);
+  };
 
   // Accept transfer
-  const handleAccept = async (transferId: number) => {
+  const handleAccept = async (transfer: TransferWithToken) => {
     try {
-      setProcessingTransferId(transferId);
+      setProcessingTransferId(transfer.id);
       const { web3Service } = await import('@/lib/web3');
-      await web3Service.acceptTransfer(transferId);
-      
-      // Wait for transaction
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Refresh transfers
-      await fetchTransfers();
+      await web3Service.acceptTransfer(transfer.id);
+
+      // Refresh both parties' transfers and balances
+      invalidateTransfer(transfer, true);
     } catch (error: unknown) {
       console.error('Error accepting transfer:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to accept transfer';
-      alert(errorMessage);
+      const decoded = decodeContractError(error);
+      toast({
+        title: `Accept Failed: ${decoded.title}`,
+        description: decoded.message,
+        variant: 'danger',
+      });
     } finally {
       setProcessingTransferId(null);
     }
   };
 
   // Reject transfer
-  const handleReject = async (transferId: number) => {
+  const handleReject = async (transfer: TransferWithToken) => {
     try {
-      setProcessingTransferId(transferId);
+      setProcessingTransferId(transfer.id);
       const { web3Service } = await import('@/lib/web3');
-      await web3Service.rejectTransfer(transferId);
-      
-      // Wait for transaction
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Refresh transfers
-      await fetchTransfers();
+      await web3Service.rejectTransfer(transfer.id);
+
+      // Refresh both parties' transfers
+      invalidateTransfer(transfer, false);
     } catch (error: unknown) {
       console.error('Error rejecting transfer:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to reject transfer';
-      alert(errorMessage);
+      const decoded = decodeContractError(error);
+      toast({
+        title: `Reject Failed: ${decoded.title}`,
+        description: decoded.message,
+        variant: 'danger',
+      });
     } finally {
       setProcessingTransferId(null);
     }
@@ -144,11 +124,15 @@ export default function TransfersPage() {
 
   // Filter transfers
   const pendingTransfers = transfers.filter(t => t.status === 0 && t.to.toLowerCase() === account?.toLowerCase());
-  const filteredTransfers = filter === 'all' 
-    ? transfers 
-    : filter === 'pending'
+  const statusFiltered = filter === 'pending'
     ? transfers.filter(t => t.status === 0)
     : transfers.filter(t => t.status !== 0);
+  const ordered = order === 'newest' ? statusFiltered : [...statusFiltered].reverse();
+  const filteredTransfers = filter === 'all'
+    ? page.data?.items ?? []
+    : ordered.slice(offset, offset + PAGINATION_CONFIG.pageSize);
+  const filteredTotal = filter === 'all' ? page.data?.total ?? transfers.length : statusFiltered.length;
+  const isLoadingList = filter === 'all' ? page.isLoading : isLoadingTransfers;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -201,6 +185,8 @@ export default function TransfersPage() {
         </div>
       )}
 
+      <ConnectionNotice loadFailed={loadFailed} />
+
       {/* Pending Transfers Alert */}
       {pendingTransfers.length > 0 && (
         <div className="mb-6 p-4 bg-yellow-50 border-2 border-yellow-200 rounded-lg">
@@ -218,42 +204,44 @@ export default function TransfersPage() {
       <div className="flex gap-2 mb-6">
         <Button
           variant={filter === 'all' ? 'default' : 'outline'}
-          onClick={() => setFilter('all')}
+          onClick={() => handleFilterChange('all')}
           size="sm"
         >
           All ({transfers.length})
         </Button>
         <Button
           variant={filter === 'pending' ? 'default' : 'outline'}
-          onClick={() => setFilter('pending')}
+          onClick={() => handleFilterChange('pending')}
           size="sm"
         >
           Pending ({transfers.filter(t => t.status === 0).length})
         </Button>
         <Button
           variant={filter === 'completed' ? 'default' : 'outline'}
-          onClick={() => setFilter('completed')}
+          onClick={() => handleFilterChange('completed')}
           size="sm"
         >
           Completed ({transfers.filter(t => t.status !== 0).length})
         </Button>
+        <div className="ml-auto">
+          <SortOrderSelect value={order} onChange={handleOrderChange} />
+        </div>
         <Button
           variant="outline"
           size="sm"
-          onClick={fetchTransfers}
-          disabled={isLoadingTransfers}
-          className="ml-auto"
+          onClick={refetch}
+          disabled={isFetching}
         >
-          <RefreshCcw className={`h-4 w-4 ${isLoadingTransfers ? 'animate-spin' : ''}`} />
+          <RefreshCcw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
         </Button>
       </div>
 
       {/* Transfers List */}
-      {isLoadingTransfers ? (
+      {isLoadingList ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-gray-600" />
         </div>
-      ) : filteredTransfers.length === 0 ? (
+      ) : loadFailed && filteredTransfers.length === 0 ? null : filteredTransfers.length === 0 ? (
         <EmptyState 
           canCreate={canTransfer}
           onCreateClick={() => router.push('/transfers/create')}
@@ -270,6 +258,14 @@ export default function TransfersPage() {
               isProcessing={processingTransferId === transfer.id}
             />
           ))}
+          <Pagination
+            offset={offset}
+            limit={PAGINATION_CONFIG.pageSize}
+            total={filteredTotal}
+            label="transfers"
+            isFetching={filter === 'all' && page.isFetching}
+            onOffsetChange={setOffset}
+          />
         </div>
       )}
     </div>
@@ -341,8 +337,8 @@ function StatCard({ label, value, icon }: StatCardProps) {
 interface TransferCardProps {
   transfer: TransferWithToken;
   currentAccount: string;
-  onAccept: (transferId: number) => void;
-  onReject: (transferId: number) => void;
+  onAccept: (transfer: TransferWithToken) => void;
+  onReject: (transfer: TransferWithToken) => void;
   isProcessing: boolean;
 }
 
@@ -367,7 +363,7 @@ function TransferCard({ transfer, currentAccount, onAccept, onReject, isProcessi
                   {transfer.tokenName}
                 </h3>
                 <p className="text-sm text-gray-600">
-                  Transfer #{transfer.id} • {transfer.amount} units
+                  Transfer #{transfer.id} • {formatNumber(transfer.amount)} units
                 </p>
               </div>
               <Badge variant={getStatusBadgeVariant(transfer.status)}>
@@ -408,7 +404,7 @@ function TransferCard({ transfer, currentAccount, onAccept, onReject, isProcessi
             <div className="flex gap-2">
               <Button
                 size="sm"
-                onClick={() => onAccept(transfer.id)}
+                onClick={() => onAccept(transfer)}
                 disabled={isProcessing}
                 className="bg-green-600 hover:bg-green-700"
               >
@@ -424,7 +420,7 @@ function TransferCard({ transfer, currentAccount, onAccept, onReject, isProcessi
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => onReject(transfer.id)}
+                onClick={() => onReject(transfer)}
                 disabled={isProcessing}
                 className="border-red-300 text-red-600 hover:bg-red-50"
               >
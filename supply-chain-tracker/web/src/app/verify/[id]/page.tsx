@@ -0,0 +1,300 @@
+'use client';
+
+import React, { Suspense, useMemo } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ConnectionNotice } from '@/components/ConnectionNotice';
+import { AlertTriangle, Loader2, ShieldCheck, ShieldX, Truck } from 'lucide-react';
+import { ROLE_ICONS } from '@/contracts/config';
+import { getExplorerUrl } from '@/contracts/deployments';
+import type { CustodyEvent, ProvenanceNode } from '@/contracts/models';
+import { formatDate, formatNumber, parseId, parseJSON, truncateAddress } from '@/lib/utils';
+import { parseVerificationParams, type AuthenticityResult } from '@/lib/verification';
+import { RecallBanner } from '@/components/RecallBanner';
+import { useAuthenticity, useCustodyTimeline, useProvenance, useRecall } from '@/hooks/use-data';
+
+/**
+ * Product Verification Page
+ * Public landing page of the QR codes printed on packaging: checks the token against
+ * the deployed contract and summarizes where the product comes from
+ * Works without a wallet
+ */
+export default function VerifyPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <VerifyProduct />
+    </Suspense>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <Loader2 className="h-8 w-8 animate-spin text-gray-600" />
+    </div>
+  );
+}
+
+/**
+ * One step of the product's journey, in consumer terms
+ */
+interface JourneyStep {
+  key: string;
+  role: string | null;
+  address: string;
+  description: string;
+  timestamp: number;
+}
+
+function VerifyProduct() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const tokenId = parseId(params?.id as string);
+
+  const link = useMemo(
+    () => (tokenId !== null ? parseVerificationParams(tokenId, searchParams) : null),
+    [tokenId, searchParams]
+  );
+  const { data: result, error, isLoading } = useAuthenticity(link);
+
+  const authenticToken = result?.status === 'authentic' ? result.token : null;
+  const { data: lineage } = useProvenance(authenticToken ? authenticToken.id : null);
+  const { data: custody } = useCustodyTimeline(authenticToken ? authenticToken.id : null);
+  const { data: recall } = useRecall(authenticToken ? authenticToken.id : null);
+
+  if (tokenId === null) {
+    return (
+      <VerificationLayout>
+        <StatusCard
+          variant="danger"
+          title="Invalid code"
+          description="This link does not contain a valid product ID."
+        />
+      </VerificationLayout>
+    );
+  }
+
+  if (isLoading) {
+    return <LoadingFallback />;
+  }
+
+  if (error || !result) {
+    return (
+      <VerificationLayout>
+        <ConnectionNotice loadFailed />
+        <StatusCard
+          variant="warning"
+          title="Verification unavailable"
+          description="The product could not be checked right now. Please try again later."
+        />
+      </VerificationLayout>
+    );
+  }
+
+  if (!authenticToken) {
+    return (
+      <VerificationLayout>
+        <VerificationFailure result={result} tokenId={tokenId} />
+      </VerificationLayout>
+    );
+  }
+
+  const features = parseJSON<Record<string, unknown> | null>(authenticToken.features, null);
+  const journey = lineage ? buildJourney(lineage, custody ?? []) : null;
+
+  return (
+    <VerificationLayout>
+      <AuthenticBanner result={result} />
+      {recall && <RecallBanner tokenId={authenticToken.id} recall={recall} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">{authenticToken.name}</CardTitle>
+          <CardDescription>
+            Product #{authenticToken.id.toString()} • Registered {formatDate(authenticToken.dateCreated)}
+          </CardDescription>
+        </CardHeader>
+        {features && typeof features === 'object' && Object.keys(features).length > 0 && (
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {Object.entries(features).map(([key, value]) => (
+                <div key={key} className="py-2 px-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500 capitalize">{key}</div>
+                  <div className="text-sm text-gray-900 break-words">{String(value)}</div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Journey
+          </CardTitle>
+          <CardDescription>From raw material to this product</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {journey ? (
+            <ol className="relative border-l-2 border-green-200 ml-4 space-y-6">
+              {journey.map((step) => (
+                <li key={step.key} className="ml-6">
+                  <span
+                    className="absolute -left-[17px] flex h-8 w-8 items-center justify-center rounded-full border-2 border-green-300 bg-white text-sm"
+                    aria-hidden
+                  >
+                    {(step.role && ROLE_ICONS[step.role as keyof typeof ROLE_ICONS]) ?? '•'}
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {step.role && (
+                      <Badge variant="outline" className="text-xs">
+                        {step.role}
+                      </Badge>
+                    )}
+                    <span className="text-xs text-gray-500">{formatDate(step.timestamp)}</span>
+                  </div>
+                  <p className="text-sm text-gray-900 mt-1">{step.description}</p>
+                  <code className="text-xs text-gray-500">{truncateAddress(step.address)}</code>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Tracing the product...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-center text-xs text-gray-500">
+        <Link href={`/tokens/${authenticToken.id}`} className="text-blue-600 hover:underline">
+          Full technical details
+        </Link>
+      </p>
+    </VerificationLayout>
+  );
+}
+
+function VerificationLayout({ children }: { children: React.ReactNode }) {
+  return <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">{children}</div>;
+}
+
+function AuthenticBanner({ result }: { result: AuthenticityResult }) {
+  const issuer = result.issuer!;
+  const contractUrl = getExplorerUrl(issuer, 'address', issuer.contractAddress);
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+      <ShieldCheck className="h-8 w-8 shrink-0 text-green-600" />
+      <div>
+        <p className="text-lg font-semibold text-green-900">Authentic product</p>
+        <p className="text-sm text-green-800">
+          This product is registered on the SupplyChain contract{' '}
+          {contractUrl ? (
+            <a href={contractUrl} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+              {truncateAddress(issuer.contractAddress)}
+            </a>
+          ) : (
+            <code>{truncateAddress(issuer.contractAddress)}</code>
+          )}{' '}
+          on {issuer.chainName}.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function VerificationFailure({ result, tokenId }: { result: AuthenticityResult; tokenId: bigint }) {
+  const { switchNetwork } = useWeb3();
+
+  switch (result.status) {
+    case 'wrong-network':
+      return (
+        <StatusCard
+          variant="warning"
+          title={`Issued on ${result.issuer!.chainName}`}
+          description="This code belongs to another network. Switch networks to check it."
+          action={
+            <Button onClick={() => switchNetwork(result.issuer!.chainId).catch(() => {})}>
+              Switch to {result.issuer!.chainName}
+            </Button>
+          }
+        />
+      );
+    case 'not-found':
+      return (
+        <StatusCard
+          variant="danger"
+          title="Unknown product"
+          description={`No product #${tokenId} is registered on the SupplyChain contract. This code may be counterfeit.`}
+        />
+      );
+    default:
+      return (
+        <StatusCard
+          variant="danger"
+          title="Could not verify"
+          description="This code was not issued by a known SupplyChain deployment. The product may be counterfeit."
+        />
+      );
+  }
+}
+
+function StatusCard({
+  variant,
+  title,
+  description,
+  action,
+}: {
+  variant: 'warning' | 'danger';
+  title: string;
+  description: string;
+  action?: React.ReactNode;
+}) {
+  const Icon = variant === 'danger' ? ShieldX : AlertTriangle;
+  return (
+    <Card className={variant === 'danger' ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'}>
+      <CardContent className="flex flex-col items-center text-center py-12 gap-3">
+        <Icon className={variant === 'danger' ? 'h-12 w-12 text-red-500' : 'h-12 w-12 text-yellow-600'} />
+        <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+        <p className="text-gray-700">{description}</p>
+        {action}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Creations along the lineage (raw material first), then the hand-overs of this product
+ */
+function buildJourney(lineage: ProvenanceNode[], custody: CustodyEvent[]): JourneyStep[] {
+  const created = [...lineage].reverse().map((node, index) => ({
+    key: `created-${node.id}`,
+    role: node.creatorRole,
+    address: node.creator,
+    description:
+      index === 0
+        ? `${node.name} produced (${formatNumber(node.totalSupply)} units)`
+        : `${node.name} made from the previous step (${formatNumber(node.totalSupply)} units)`,
+    timestamp: node.dateCreated,
+  }));
+
+  const received = custody
+    .filter((event) => event.type === 'TransferAccepted')
+    .map((event) => ({
+      key: `received-${event.transferId}`,
+      role: event.toRole,
+      address: event.to,
+      description: `Received ${formatNumber(event.amount)} units`,
+      timestamp: event.timestamp,
+    }));
+
+  return [...created, ...received];
+}
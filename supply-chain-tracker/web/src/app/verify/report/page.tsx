@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileCheck, ShieldCheck, ShieldX, Upload } from 'lucide-react';
+import { getDeployment } from '@/contracts/deployments';
+import { verifyProvenanceReport, type ReportVerification } from '@/lib/report';
+
+/**
+ * Report Verification Page
+ * Checks a chain of custody report bundle received from a partner: the report is
+ * unchanged since it was signed, and who signed it. Runs locally, no wallet needed
+ */
+export default function VerifyReportPage() {
+  const [result, setResult] = useState<{ filename: string; verification: ReportVerification } | null>(null);
+
+  const handleFile = async (file: File) => {
+    let verification: ReportVerification;
+    try {
+      verification = verifyProvenanceReport(JSON.parse(await file.text()));
+    } catch {
+      verification = { valid: false, reason: 'This file is not valid JSON' };
+    }
+    setResult({ filename: file.name, verification });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+          <FileCheck className="h-8 w-8 text-blue-600" />
+          Verify a Report
+        </h1>
+        <p className="text-gray-600">
+          Check that a chain of custody report is unchanged and see which account signed it
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Report Bundle</CardTitle>
+          <CardDescription>The token-&lt;id&gt;-report.json file that came with the PDF</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 p-8 text-center hover:border-blue-400 hover:bg-blue-50">
+            <Upload className="h-8 w-8 text-blue-600" />
+            <span className="text-sm font-medium text-gray-900">Choose a report file</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) handleFile(file);
+              }}
+            />
+          </label>
+        </CardContent>
+      </Card>
+
+      {result && <VerificationResult filename={result.filename} verification={result.verification} />}
+    </div>
+  );
+}
+
+function VerificationResult({ filename, verification }: { filename: string; verification: ReportVerification }) {
+  if (!verification.valid) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg" role="alert">
+        <ShieldX className="h-8 w-8 shrink-0 text-red-600" />
+        <div>
+          <p className="text-lg font-semibold text-red-900">Not verified</p>
+          <p className="text-sm text-red-800">{verification.reason}</p>
+          <p className="text-xs text-red-700 mt-1">{filename}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const network = getDeployment(verification.chainId);
+  return (
+    <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+      <ShieldCheck className="h-8 w-8 shrink-0 text-green-600" />
+      <div className="space-y-1 min-w-0">
+        <p className="text-lg font-semibold text-green-900">Report verified</p>
+        <p className="text-sm text-green-800">
+          Unchanged since it was signed by <code className="break-all">{verification.signer}</code>
+        </p>
+        <p className="text-sm text-green-800">
+          Token #{verification.tokenId} on {network?.chainName ?? `chain ${verification.chainId}`}, generated{' '}
+          {new Date(verification.generatedAt).toLocaleString()}
+        </p>
+        {network && (
+          <Link href={`/tokens/${verification.tokenId}`} className="text-sm text-blue-600 hover:underline">
+            Compare with the live token
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
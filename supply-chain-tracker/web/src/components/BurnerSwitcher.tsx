@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ROLE_ICONS, TEST_ACCOUNTS, TestAccount } from '@/contracts/config';
+import { truncateAddress } from '@/lib/utils';
+
+/**
+ * Header label per test account
+ */
+const ACCOUNT_LABELS: Record<TestAccount, keyof typeof ROLE_ICONS> = {
+  admin: 'Admin',
+  producer: 'Producer',
+  factory: 'Factory',
+  retailer: 'Retailer',
+  consumer: 'Consumer',
+};
+
+/**
+ * BurnerSwitcher Component
+ * Development role switcher signing with the Anvil test accounts
+ * Only rendered on local deployments when burner-wallet mode is enabled
+ */
+export function BurnerSwitcher() {
+  const { burnerAccount, isBurnerAvailable, switchBurnerAccount } = useWeb3();
+
+  if (!isBurnerAvailable) return null;
+
+  return (
+    <Select
+      value={burnerAccount ?? ''}
+      onValueChange={(value) => switchBurnerAccount(value as TestAccount).catch(() => {})}
+    >
+      <SelectTrigger aria-label="Dev account" className="h-9 w-auto gap-2 border-dashed">
+        <SelectValue placeholder="Dev account" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(TEST_ACCOUNTS) as TestAccount[]).map((key) => (
+          <SelectItem key={key} value={key}>
+            {ROLE_ICONS[ACCOUNT_LABELS[key]]} {ACCOUNT_LABELS[key]} ({truncateAddress(TEST_ACCOUNTS[key])})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
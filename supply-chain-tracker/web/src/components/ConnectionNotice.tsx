@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { AlertTriangle, WifiOff } from 'lucide-react';
+
+interface ConnectionNoticeProps {
+  /** The page's own data load failed */
+  loadFailed?: boolean;
+}
+
+/**
+ * ConnectionNotice Component
+ * Explains that data may be missing because the RPC connection is degraded or down,
+ * so empty lists are not mistaken for "you have nothing"
+ */
+export function ConnectionNotice({ loadFailed = false }: ConnectionNoticeProps) {
+  const { connectionHealth, deployment } = useWeb3();
+
+  if (connectionHealth === 'offline' || loadFailed) {
+    return (
+      <div className="mb-6 flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+        <WifiOff className="h-5 w-5 shrink-0 text-red-600" />
+        <div>
+          <p className="font-semibold">Connection problem</p>
+          <p>
+            Could not reach the {deployment.chainName} RPC endpoints, so the data below may be incomplete or
+            missing. It will refresh once the connection recovers.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (connectionHealth === 'degraded') {
+    return (
+      <div className="mb-6 flex items-start gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+        <AlertTriangle className="h-5 w-5 shrink-0 text-yellow-600" />
+        <div>
+          <p className="font-semibold">Degraded connection</p>
+          <p>Requests to {deployment.chainName} are being retried or served by a fallback endpoint; data may be slow to update.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
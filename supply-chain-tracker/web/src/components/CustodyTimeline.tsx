@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import { ArrowRight, CheckCircle, Clock, Package, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getExplorerUrl, type NetworkDeployment } from '@/contracts/deployments';
+import type { CustodyEvent, CustodyEventType } from '@/contracts/models';
+import { cn, formatDate, formatNumber, truncateAddress } from '@/lib/utils';
+
+const EVENT_STYLES: Record<
+  CustodyEventType,
+  { label: string; icon: React.ElementType; className: string }
+> = {
+  Created: { label: 'Created', icon: Package, className: 'text-blue-600 bg-blue-100' },
+  TransferRequested: { label: 'Transfer requested', icon: Clock, className: 'text-yellow-700 bg-yellow-100' },
+  TransferAccepted: { label: 'Transfer accepted', icon: CheckCircle, className: 'text-green-700 bg-green-100' },
+  TransferRejected: { label: 'Transfer rejected', icon: XCircle, className: 'text-red-700 bg-red-100' },
+};
+
+interface CustodyTimelineProps {
+  events: CustodyEvent[];
+  /** Used to link transaction hashes to the block explorer */
+  deployment: NetworkDeployment;
+}
+
+/**
+ * CustodyTimeline Component
+ * Chronological list of who held a token: its creation and every transfer request and resolution
+ */
+export function CustodyTimeline({ events, deployment }: CustodyTimelineProps) {
+  return (
+    <ol className="space-y-3">
+      {events.map((event) => {
+        const style = EVENT_STYLES[event.type];
+        const Icon = style.icon;
+        const explorerUrl = event.txHash ? getExplorerUrl(deployment, 'tx', event.txHash) : null;
+
+        return (
+          <li key={`${event.type}-${event.transferId ?? 'created'}`} className="flex gap-3">
+            <span className={cn('flex h-8 w-8 shrink-0 items-center justify-center rounded-full', style.className)}>
+              <Icon className="h-4 w-4" />
+            </span>
+            <div className="flex-1 rounded-lg border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900">
+                  {style.label}
+                  {event.transferId !== null && (
+                    <span className="ml-1 text-xs text-gray-500">#{event.transferId.toString()}</span>
+                  )}
+                </span>
+                <span className="text-sm font-semibold text-gray-900">{formatNumber(event.amount)} units</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+                {event.from && (
+                  <>
+                    <Party address={event.from} role={event.fromRole} />
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                  </>
+                )}
+                <Party address={event.to} role={event.toRole} />
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+                <span>
+                  {formatDate(event.timestamp)} • Block #{event.blockNumber}
+                </span>
+                {explorerUrl ? (
+                  <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:underline">
+                    {truncateAddress(event.txHash)}
+                  </a>
+                ) : (
+                  <span className="font-mono">{truncateAddress(event.txHash)}</span>
+                )}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function Party({ address, role }: { address: string; role: string | null }) {
+  return (
+    <span className="flex items-center gap-1">
+      {role && (
+        <Badge variant="outline" className="text-xs">
+          {role}
+        </Badge>
+      )}
+      <code className="bg-gray-100 px-2 py-0.5 rounded">{truncateAddress(address)}</code>
+    </span>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight, Package } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { DerivedProduct } from '@/contracts/models';
+import { formatDate, formatNumber, truncateAddress } from '@/lib/utils';
+
+/**
+ * Holders listed per product before collapsing the rest into a count
+ */
+const MAX_HOLDERS_SHOWN = 3;
+
+interface DerivedProductsTreeProps {
+  products: DerivedProduct[];
+}
+
+/**
+ * DerivedProductsTree Component
+ * Downstream tree of the products made from a token, with supplies and current holders
+ */
+export function DerivedProductsTree({ products }: DerivedProductsTreeProps) {
+  return (
+    <ul className="space-y-2">
+      {products.map((product) => (
+        <DerivedProductNode key={product.id.toString()} product={product} />
+      ))}
+    </ul>
+  );
+}
+
+function DerivedProductNode({ product }: { product: DerivedProduct }) {
+  const [isOpen, setIsOpen] = useState(true);
+  const hasChildren = product.children.length > 0;
+  const hiddenHolders = product.holders.length - MAX_HOLDERS_SHOWN;
+
+  return (
+    <li>
+      <div className="rounded-lg border bg-white p-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-start gap-2">
+            {hasChildren ? (
+              <button
+                type="button"
+                className="mt-0.5 text-gray-400 hover:text-gray-600"
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                aria-label={isOpen ? 'Hide derived products' : 'Show derived products'}
+              >
+                {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
+            ) : (
+              <Package className="mt-0.5 h-4 w-4 text-gray-400" />
+            )}
+            <div>
+              <Link href={`/tokens/${product.id}`} className="font-semibold text-gray-900 hover:underline">
+                {product.name}
+              </Link>
+              <span className="ml-2 text-xs text-gray-500">#{product.id.toString()}</span>
+              <div className="text-xs text-gray-500 mt-1">
+                {formatDate(product.dateCreated)} • by {truncateAddress(product.creator)}
+              </div>
+            </div>
+          </div>
+          <Badge variant="secondary" className="text-xs shrink-0">
+            Supply {formatNumber(product.totalSupply)}
+          </Badge>
+        </div>
+
+        <div className="mt-2 pl-6 text-xs text-gray-600">
+          {product.holders.length === 0 ? (
+            <span className="text-gray-500">No current holders</span>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <span>Held by</span>
+              {product.holders.slice(0, MAX_HOLDERS_SHOWN).map((holder) => (
+                <code key={holder.address} className="bg-gray-100 px-2 py-0.5 rounded">
+                  {truncateAddress(holder.address)}: {formatNumber(holder.balance)}
+                </code>
+              ))}
+              {hiddenHolders > 0 && <span className="text-gray-500">+{hiddenHolders} more</span>}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {hasChildren && isOpen && (
+        <div className="ml-4 mt-2 border-l-2 border-gray-200 pl-4">
+          <DerivedProductsTree products={product.children} />
+        </div>
+      )}
+    </li>
+  );
+}
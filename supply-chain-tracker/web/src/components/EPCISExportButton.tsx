@@ -0,0 +1,50 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import { toast } from '@/hooks/use-toast';
+import { getAccountEPCISDocument, getTokenEPCISDocument } from '@/lib/epcis';
+import { downloadFile, toJSON } from '@/lib/export';
+
+type EPCISExportButtonProps = { deployment: NetworkDeployment } & (
+  | { tokenId: bigint; account?: never }
+  | { account: string; tokenId?: never }
+);
+
+/**
+ * EPCISExportButton Component
+ * Downloads the GS1 EPCIS 2.0 history of a token's lineage or of an account
+ */
+export function EPCISExportButton({ deployment, tokenId, account }: EPCISExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const document =
+        tokenId !== undefined
+          ? await getTokenEPCISDocument(tokenId, deployment)
+          : await getAccountEPCISDocument(account, deployment);
+      const filename = tokenId !== undefined ? `token-${tokenId}-epcis.jsonld` : `account-${account}-epcis.jsonld`;
+      downloadFile(filename, toJSON(document), 'application/ld+json');
+    } catch (error) {
+      console.error('Failed to export EPCIS events:', error);
+      toast({
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'The EPCIS document could not be generated',
+        variant: 'danger',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" className="gap-1" onClick={handleExport} disabled={isExporting}>
+      {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      EPCIS
+    </Button>
+  );
+}
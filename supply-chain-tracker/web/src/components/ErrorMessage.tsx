@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { ContractError } from '@/lib/errors';
+
+interface ErrorMessageProps {
+  error: ContractError | string | null;
+}
+
+/**
+ * ErrorMessage Component
+ * Shows a form error, decoded contract errors get their explanation and suggested fix
+ */
+export function ErrorMessage({ error }: ErrorMessageProps) {
+  if (!error) return null;
+
+  return (
+    <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm" role="alert">
+      {typeof error === 'string' ? (
+        error
+      ) : (
+        <div className="flex gap-3">
+          <AlertCircle className="h-5 w-5 shrink-0 text-red-600" />
+          <div className="space-y-1">
+            <p className="font-semibold">{error.title}</p>
+            <p>{error.explanation}</p>
+            <p className="text-red-700">
+              <span className="font-medium">Suggested fix:</span> {error.suggestion}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
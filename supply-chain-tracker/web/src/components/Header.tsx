@@ -5,12 +5,16 @@ import Link from 'next/link';
 import { useWeb3 } from '@/contexts/Web3Context';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { TransactionDrawer } from '@/components/TransactionDrawer';
+import { NetworkSwitcher } from '@/components/NetworkSwitcher';
+import { WalletPicker } from '@/components/WalletPicker';
+import { BurnerSwitcher } from '@/components/BurnerSwitcher';
 import { truncateAddress } from '@/lib/utils';
 import { ROLE_ICONS } from '@/contracts/config';
 import { Loader2, Wallet, LogOut, Menu, X } from 'lucide-react';
 
 export default function Header() {
-  const { account, isConnected, isLoading, userInfo, isAdmin, connectWallet, disconnectWallet, error } = useWeb3();
+  const { account, wallet, isConnected, isLoading, userInfo, isAdmin, connectWallet, disconnectWallet, error } = useWeb3();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   return (
@@ -77,6 +81,16 @@ export default function Header() {
               </div>
             )}
 
+            {/* Network */}
+            <div className="hidden sm:block">
+              <NetworkSwitcher />
+            </div>
+
+            {/* Dev role switcher (local chains only) */}
+            <div className="hidden sm:block">
+              <BurnerSwitcher />
+            </div>
+
             {/* Loading state */}
             {isLoading && (
               <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -106,13 +120,19 @@ export default function Header() {
                   )}
 
                   {/* Address */}
-                  <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 rounded-lg">
+                  <div
+                    className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 rounded-lg"
+                    title={wallet ? `Connected with ${wallet.name}` : undefined}
+                  >
                     <Wallet className="h-4 w-4 text-gray-600" />
                     <span className="text-sm font-mono text-gray-900">
                       {truncateAddress(account)}
                     </span>
                   </div>
 
+                  {/* Transactions */}
+                  <TransactionDrawer />
+
                   {/* Disconnect button */}
                   <Button
                     variant="ghost"
@@ -125,6 +145,11 @@ export default function Header() {
                   </Button>
                 </div>
 
+                {/* Transactions (mobile) */}
+                <div className="md:hidden">
+                  <TransactionDrawer />
+                </div>
+
                 {/* Mobile menu button */}
                 {userInfo && userInfo.status === 1 && (
                   <Button
@@ -145,7 +170,7 @@ export default function Header() {
 
             {/* Not connected state */}
             {!isLoading && !isConnected && (
-              <Button onClick={connectWallet} className="gap-2 text-sm md:text-base px-3 md:px-4">
+              <Button onClick={() => connectWallet()} className="gap-2 text-sm md:text-base px-3 md:px-4">
                 <Wallet className="h-4 w-4" />
                 <span className="hidden sm:inline">Connect Wallet</span>
                 <span className="sm:hidden">Connect</span>
@@ -238,6 +263,9 @@ export default function Header() {
           </div>
         )}
       </div>
+
+      {/* Wallet picker (opened by connectWallet) */}
+      <WalletPicker />
     </header>
   );
 }
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Download, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import type { Token } from '@/contracts/models';
+import { toast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/export';
+import {
+  LABEL_TEMPLATES,
+  MAX_LABELS,
+  buildLabelPreview,
+  buildPrintJob,
+  getLabelTemplate,
+  toLabelPDF,
+  toLabelSVGs,
+  type LabelData,
+  type LabelOptions,
+} from '@/lib/labels';
+import { svgToDataURL } from '@/lib/qrcode';
+import { formatNumber, parseJSON } from '@/lib/utils';
+import { getVerificationUrl } from '@/lib/verification';
+
+interface LabelDesignerProps {
+  token: Token;
+  deployment: NetworkDeployment;
+}
+
+/**
+ * LabelDesigner Component
+ * Button opening a panel to lay out printable labels for a token and download them as PDF or SVG
+ */
+export function LabelDesigner({ token, deployment }: LabelDesignerProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full gap-2">
+          <Printer className="h-4 w-4" />
+          Print Labels
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Print Labels</SheetTitle>
+          <SheetDescription>Labels for {token.name} with a QR code to its provenance</SheetDescription>
+        </SheetHeader>
+        <LabelForm token={token} deployment={deployment} />
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+/**
+ * Designer form, mounted only while the panel is open
+ */
+function LabelForm({ token, deployment }: LabelDesignerProps) {
+  const features = useMemo(() => {
+    const parsed = parseJSON<unknown>(token.features, null);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  }, [token.features]);
+  const featureKeys = useMemo(() => Object.keys(features), [features]);
+
+  const [templateId, setTemplateId] = useState(LABEL_TEMPLATES[0].id);
+  const [showSupply, setShowSupply] = useState(true);
+  const [showCreator, setShowCreator] = useState(true);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => featureKeys.slice(0, 3));
+  const [copiesInput, setCopiesInput] = useState('1');
+  const [numbered, setNumbered] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const copies = Number(copiesInput);
+  const copiesError = Number.isInteger(copies) && copies >= 1 ? null : 'Enter a whole number of labels';
+  const lotSize = token.totalSupply > BigInt(MAX_LABELS) ? MAX_LABELS : Number(token.totalSupply);
+
+  const data = useMemo<LabelData>(
+    () => ({
+      tokenId: token.id,
+      name: token.name,
+      totalSupply: token.totalSupply,
+      creator: token.creator,
+      features,
+      url: getVerificationUrl(token.id, deployment),
+    }),
+    [token, features, deployment]
+  );
+
+  const options = useMemo<LabelOptions>(
+    () => ({
+      template: getLabelTemplate(templateId),
+      showSupply,
+      showCreator,
+      // Keep the order of the token's features
+      featureKeys: featureKeys.filter((key) => selectedKeys.includes(key)),
+      copies: copiesError ? 1 : Math.min(copies, MAX_LABELS),
+      numbered,
+    }),
+    [templateId, showSupply, showCreator, featureKeys, selectedKeys, copies, copiesError, numbered]
+  );
+
+  const preview = useMemo(() => svgToDataURL(toLabelSVGs(buildLabelPreview(data, options))[0]), [data, options]);
+  const perSheet = options.template.columns * options.template.rows;
+  const sheets = Math.ceil(options.copies / perSheet);
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys((keys) => (keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key]));
+  };
+
+  const downloadPDF = async () => {
+    setIsGenerating(true);
+    try {
+      const pdf = await toLabelPDF(buildPrintJob(data, options));
+      downloadFile(`token-${token.id}-labels.pdf`, pdf, 'application/pdf');
+    } catch (error) {
+      console.error('Failed to generate labels:', error);
+      toast({
+        title: 'Label Generation Failed',
+        description: error instanceof Error ? error.message : 'The PDF could not be generated',
+        variant: 'danger',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const downloadSVG = () => {
+    const pages = toLabelSVGs(buildPrintJob(data, options));
+    pages.forEach((svg, index) => {
+      const suffix = pages.length > 1 ? `-${index + 1}` : '';
+      downloadFile(`token-${token.id}-labels${suffix}.svg`, svg, 'image/svg+xml');
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Preview */}
+      <div className="rounded-lg bg-gray-100 p-4">
+        <img
+          src={preview}
+          alt="Label preview"
+          className="mx-auto max-h-64 max-w-full border border-dashed border-gray-300 bg-white shadow-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="label-template">Template</Label>
+        <Select value={templateId} onValueChange={setTemplateId}>
+          <SelectTrigger id="label-template">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LABEL_TEMPLATES.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium mb-2">Fields</legend>
+        <p className="text-xs text-gray-500">Name, token ID and the QR code are always printed</p>
+        <Checkbox label="Supply" checked={showSupply} onChange={setShowSupply} />
+        <Checkbox label="Creator" checked={showCreator} onChange={setShowCreator} />
+        {featureKeys.map((key) => (
+          <Checkbox key={key} label={key} checked={selectedKeys.includes(key)} onChange={() => toggleKey(key)} />
+        ))}
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label htmlFor="label-copies">Labels</Label>
+        <div className="flex gap-2">
+          <Input
+            id="label-copies"
+            inputMode="numeric"
+            value={copiesInput}
+            onChange={(e) => setCopiesInput(e.target.value)}
+          />
+          <Button variant="outline" className="shrink-0" onClick={() => setCopiesInput(lotSize.toString())}>
+            One per unit
+          </Button>
+        </div>
+        {copiesError ? (
+          <p className="text-xs text-red-600">{copiesError}</p>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {formatNumber(options.copies)} label{options.copies === 1 ? '' : 's'} on {sheets}{' '}
+            {perSheet > 1 ? 'sheet' : 'page'}
+            {sheets === 1 ? '' : 's'}
+            {copies > MAX_LABELS && ` (at most ${formatNumber(MAX_LABELS)} per print)`}
+          </p>
+        )}
+        <Checkbox label="Number each label (Unit n of N)" checked={numbered} onChange={setNumbered} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button className="gap-2" onClick={downloadPDF} disabled={!!copiesError || isGenerating}>
+          {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          PDF
+        </Button>
+        <Button variant="outline" className="gap-2" onClick={downloadSVG} disabled={!!copiesError}>
+          <Download className="h-4 w-4" />
+          SVG
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function Checkbox({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        className="h-4 w-4 rounded border-gray-300"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+      <span>{label}</span>
+    </label>
+  );
+}
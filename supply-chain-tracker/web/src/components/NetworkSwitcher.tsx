@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEPLOYMENTS } from '@/contracts/deployments';
+import { toast } from '@/hooks/use-toast';
+import { decodeContractError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import { Globe } from 'lucide-react';
+
+/**
+ * NetworkSwitcher Component
+ * Shows the active network and switches among the supported deployments
+ */
+export function NetworkSwitcher() {
+  const { deployment, isWrongNetwork, switchNetwork } = useWeb3();
+
+  const handleChange = async (value: string) => {
+    try {
+      await switchNetwork(Number(value));
+    } catch (error) {
+      console.error('Failed to switch network:', error);
+      const decoded = decodeContractError(error);
+      toast({
+        title: `Network Switch Failed: ${decoded.title}`,
+        description: decoded.message,
+        variant: 'danger',
+      });
+    }
+  };
+
+  return (
+    <Select value={isWrongNetwork ? '' : deployment.chainId.toString()} onValueChange={handleChange}>
+      <SelectTrigger
+        aria-label="Network"
+        className={cn('h-9 w-auto gap-2', isWrongNetwork && 'border-red-300 bg-red-50 text-red-700')}
+      >
+        <Globe className="h-4 w-4 shrink-0" />
+        <SelectValue placeholder="Wrong network" />
+      </SelectTrigger>
+      <SelectContent>
+        {DEPLOYMENTS.map((d) => (
+          <SelectItem key={d.chainId} value={d.chainId.toString()}>
+            {d.chainName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
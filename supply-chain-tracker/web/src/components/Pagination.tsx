@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { formatNumber } from '@/lib/utils';
+
+interface PaginationProps {
+  offset: number;
+  limit: number;
+  total: number;
+  /** Item name in the summary, plural (e.g. "transfers") */
+  label: string;
+  /** A page is being loaded */
+  isFetching?: boolean;
+  onOffsetChange: (offset: number) => void;
+}
+
+/**
+ * Pagination Component
+ * Previous/next controls for a contract-paginated list, with the visible range
+ */
+export function Pagination({ offset, limit, total, label, isFetching = false, onOffsetChange }: PaginationProps) {
+  if (total <= limit && offset === 0) return null;
+
+  const first = total === 0 ? 0 : offset + 1;
+  const last = Math.min(offset + limit, total);
+  const page = Math.floor(offset / limit) + 1;
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+
+  return (
+    <div className="flex items-center justify-between gap-4 py-4">
+      <p className="text-sm text-gray-600 flex items-center gap-2">
+        Showing {formatNumber(first)}–{formatNumber(last)} of {formatNumber(total)} {label}
+        {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(Math.max(0, offset - limit))}
+          disabled={offset === 0}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-gray-600">
+          Page {page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(offset + limit)}
+          disabled={offset + limit >= total}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
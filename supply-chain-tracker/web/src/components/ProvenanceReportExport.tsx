@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { FileSignature, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import { toast } from '@/hooks/use-toast';
+import { decodeContractError } from '@/lib/errors';
+import { downloadFile, toJSON } from '@/lib/export';
+import { buildProvenanceReport, signProvenanceReport, toReportPDF } from '@/lib/report';
+
+interface ProvenanceReportExportProps {
+  tokenId: bigint;
+  deployment: NetworkDeployment;
+  /** A wallet is needed to sign the report */
+  isConnected: boolean;
+}
+
+/**
+ * ProvenanceReportExport Component
+ * Builds the chain of custody report of a token, has the connected wallet sign it
+ * and downloads the JSON bundle and its PDF
+ */
+export function ProvenanceReportExport({ tokenId, deployment, isConnected }: ProvenanceReportExportProps) {
+  const [step, setStep] = useState<'idle' | 'building' | 'signing'>('idle');
+
+  const handleExport = async () => {
+    setStep('building');
+    try {
+      const report = await buildProvenanceReport(tokenId, deployment);
+      setStep('signing');
+      const signed = await signProvenanceReport(report);
+      const pdf = await toReportPDF(signed);
+
+      downloadFile(`token-${tokenId}-report.json`, toJSON(signed), 'application/json');
+      downloadFile(`token-${tokenId}-report.pdf`, pdf, 'application/pdf');
+      toast({
+        title: 'Report Exported',
+        description: `Signed by ${signed.signature.signer}`,
+        variant: 'success',
+      });
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      const decoded = decodeContractError(error);
+      toast({
+        title: `Export Failed: ${decoded.title}`,
+        description: decoded.message,
+        variant: 'danger',
+      });
+    } finally {
+      setStep('idle');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button className="w-full gap-2" onClick={handleExport} disabled={!isConnected || step !== 'idle'}>
+        {step === 'idle' ? <FileSignature className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+        {step === 'building' ? 'Collecting history...' : step === 'signing' ? 'Sign in your wallet...' : 'Export Signed Report'}
+      </Button>
+      {!isConnected && <p className="text-xs text-gray-500">Connect a wallet to sign the report</p>}
+      <Link href="/verify/report" className="block text-center text-xs text-blue-600 hover:underline">
+        Verify a received report
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight, Package } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ROLE_ICONS } from '@/contracts/config';
+import type { ProvenanceNode } from '@/contracts/models';
+import { cn, formatDate, formatNumber, getRoleBadgeVariant, parseJSON, truncateAddress } from '@/lib/utils';
+
+interface ProvenanceTreeProps {
+  /** Lineage as returned by useProvenance: the current token first, its raw material last */
+  lineage: ProvenanceNode[];
+}
+
+/**
+ * ProvenanceTree Component
+ * Timeline from the raw material down to the current token
+ * Each step can be expanded to show its features
+ */
+export function ProvenanceTree({ lineage }: ProvenanceTreeProps) {
+  const steps = [...lineage].reverse();
+  const currentId = lineage[0]?.id;
+  const [expanded, setExpanded] = useState<Set<bigint>>(() => new Set(currentId !== undefined ? [currentId] : []));
+
+  const toggle = (id: bigint) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allExpanded = steps.every((step) => expanded.has(step.id));
+
+  return (
+    <div>
+      {steps.length > 1 && (
+        <div className="flex justify-end mb-2">
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => setExpanded(allExpanded ? new Set() : new Set(steps.map((step) => step.id)))}
+          >
+            {allExpanded ? 'Collapse all' : 'Expand all'}
+          </button>
+        </div>
+      )}
+
+      <ol className="relative border-l-2 border-gray-200 ml-4">
+        {steps.map((step, index) => {
+          const isCurrent = step.id === currentId;
+          const isOpen = expanded.has(step.id);
+          const features = parseJSON<Record<string, unknown> | null>(step.features, null);
+          const featureEntries = features && typeof features === 'object' ? Object.entries(features) : [];
+          const icon = step.creatorRole ? ROLE_ICONS[step.creatorRole as keyof typeof ROLE_ICONS] : null;
+
+          return (
+            <li key={step.id.toString()} className={cn('ml-6', index < steps.length - 1 && 'pb-6')}>
+              <span
+                className={cn(
+                  'absolute -left-[17px] flex h-8 w-8 items-center justify-center rounded-full border-2 bg-white text-sm',
+                  isCurrent ? 'border-blue-500' : 'border-gray-300'
+                )}
+                aria-hidden
+              >
+                {icon ?? <Package className="h-4 w-4 text-gray-500" />}
+              </span>
+
+              <div className={cn('rounded-lg border p-3', isCurrent ? 'border-blue-200 bg-blue-50' : 'bg-white')}>
+                <button
+                  type="button"
+                  className="flex w-full items-start justify-between gap-2 text-left"
+                  onClick={() => toggle(step.id)}
+                  aria-expanded={isOpen}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-gray-900">{step.name}</span>
+                      <span className="text-xs text-gray-500">#{step.id.toString()}</span>
+                      {step.parentId === 0n && (
+                        <Badge variant="outline" className="text-xs">
+                          Raw material
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">{formatDate(step.dateCreated)}</div>
+                  </div>
+                  {isOpen ? (
+                    <ChevronDown className="h-4 w-4 shrink-0 text-gray-400" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 shrink-0 text-gray-400" />
+                  )}
+                </button>
+
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+                  {step.creatorRole && (
+                    <Badge variant={getRoleBadgeVariant(step.creatorRole)} className="text-xs">
+                      {step.creatorRole}
+                    </Badge>
+                  )}
+                  <code className="bg-gray-100 px-2 py-0.5 rounded">{truncateAddress(step.creator)}</code>
+                  <span>Supply: {formatNumber(step.totalSupply)}</span>
+                </div>
+
+                {isOpen && (
+                  <div className="mt-3 space-y-1">
+                    {featureEntries.length > 0 ? (
+                      featureEntries.map(([key, value]) => (
+                        <div key={key} className="flex justify-between gap-4 text-xs py-1 px-2 bg-gray-50 rounded">
+                          <span className="font-medium text-gray-700 capitalize">{key}</span>
+                          <span className="text-gray-900 text-right break-all">{String(value)}</span>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-xs text-gray-500">No features recorded</div>
+                    )}
+                    {!isCurrent && (
+                      <Link href={`/tokens/${step.id}`} className="inline-block text-xs text-blue-600 hover:underline pt-1">
+                        View token →
+                      </Link>
+                    )}
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, ScanLine, ShieldX } from 'lucide-react';
+import { decodeContractError } from '@/lib/errors';
+import { decodeQRCodeImage } from '@/lib/qrcode';
+import { authenticityQuery } from '@/lib/queries';
+import { queryCache } from '@/lib/query-cache';
+import { cn, truncateAddress } from '@/lib/utils';
+import { getVerificationUrl, parseVerificationUrl } from '@/lib/verification';
+
+type ScanState =
+  | { status: 'idle' }
+  | { status: 'scanning' }
+  | { status: 'failed'; title: string; message: string };
+
+/**
+ * QRCodeScanner Component
+ * Opens the verification page of a product from a photo of its label
+ * Accepts an uploaded, dropped or pasted image; the code is decoded in the browser and
+ * checked against the SupplyChain deployment before navigating
+ */
+export function QRCodeScanner() {
+  const router = useRouter();
+  const [state, setState] = useState<ScanState>({ status: 'idle' });
+  const [isDragging, setIsDragging] = useState(false);
+
+  const scan = useCallback(
+    async (image: Blob) => {
+      if (!image.type.startsWith('image/')) {
+        setState({ status: 'failed', title: 'Not an image', message: 'Choose a photo or screenshot of the label.' });
+        return;
+      }
+
+      setState({ status: 'scanning' });
+      try {
+        const text = await decodeQRCodeImage(image);
+        if (text === null) {
+          setState({
+            status: 'failed',
+            title: 'No QR code found',
+            message: 'Make sure the whole code is visible, in focus and not too small.',
+          });
+          return;
+        }
+
+        const link = parseVerificationUrl(text);
+        if (!link) {
+          setState({
+            status: 'failed',
+            title: 'Not a product code',
+            message: `This QR code does not point at a product on this site (${text.length > 60 ? `${text.slice(0, 60)}...` : text}).`,
+          });
+          return;
+        }
+
+        const result = await queryCache.fetch(authenticityQuery(link));
+        switch (result.status) {
+          case 'authentic':
+          case 'wrong-network':
+            // The verification page offers to switch networks
+            router.push(getVerificationUrl(link.tokenId, result.issuer!, ''));
+            return;
+          case 'not-found':
+            setState({
+              status: 'failed',
+              title: 'Unknown product',
+              message: `No product #${link.tokenId} is registered on the SupplyChain contract. This code may be forged.`,
+            });
+            return;
+          case 'unknown-contract':
+            setState({
+              status: 'failed',
+              title: 'Foreign code',
+              message: `This code was issued by ${
+                link.contractAddress ? `contract ${truncateAddress(link.contractAddress)}` : 'a contract'
+              }${link.chainId !== null ? ` on chain ${link.chainId}` : ''}, which is not a known SupplyChain deployment. It may be forged.`,
+            });
+            return;
+        }
+      } catch (error) {
+        console.error('Failed to scan QR code:', error);
+        const decoded = decodeContractError(error);
+        setState({ status: 'failed', title: decoded.title, message: decoded.message });
+      }
+    },
+    [router]
+  );
+
+  // Images pasted anywhere on the page
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const image = Array.from(event.clipboardData?.files ?? []).find((file) => file.type.startsWith('image/'));
+      if (image) {
+        event.preventDefault();
+        scan(image);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [scan]);
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const image = event.dataTransfer.files[0];
+    if (image) scan(image);
+  };
+
+  const isScanning = state.status === 'scanning';
+
+  return (
+    <div className="space-y-3">
+      <label
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors',
+          isScanning ? 'cursor-wait' : 'cursor-pointer hover:border-blue-400 hover:bg-blue-50',
+          isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+        )}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        {isScanning ? (
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        ) : (
+          <ScanLine className="h-8 w-8 text-blue-600" />
+        )}
+        <span className="text-sm font-medium text-gray-900">
+          {isScanning ? 'Checking the code...' : 'Take a photo or upload an image of the label'}
+        </span>
+        <span className="text-xs text-gray-500">You can also drop or paste an image here</span>
+        <input
+          type="file"
+          accept="image/*"
+          className="sr-only"
+          disabled={isScanning}
+          onChange={(event) => {
+            const image = event.target.files?.[0];
+            // Allow picking the same file again
+            event.target.value = '';
+            if (image) scan(image);
+          }}
+        />
+      </label>
+
+      {state.status === 'failed' && (
+        <div className="flex items-start gap-3 rounded-lg border border-red-200 bg-red-50 p-3" role="alert">
+          <ShieldX className="h-5 w-5 shrink-0 text-red-600" />
+          <div>
+            <p className="text-sm font-semibold text-red-900">{state.title}</p>
+            <p className="text-sm text-red-800 break-words">{state.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import Link from 'next/link';
+import { AlertOctagon } from 'lucide-react';
+import type { Recall, TokenWithBalance } from '@/contracts/models';
+import { formatDate, formatNumber, truncateAddress } from '@/lib/utils';
+
+interface RecallBannerProps {
+  tokenId: bigint;
+  recall: Recall;
+}
+
+/**
+ * RecallBanner Component
+ * Prominent notice on a recalled token, naming the recalled ancestor when the recall was inherited
+ */
+export function RecallBanner({ tokenId, recall }: RecallBannerProps) {
+  const inherited = recall.tokenId !== tokenId;
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-red-50 border-2 border-red-300 rounded-lg" role="alert">
+      <AlertOctagon className="h-8 w-8 shrink-0 text-red-600" />
+      <div className="space-y-1 min-w-0">
+        <p className="text-lg font-semibold text-red-900">This product has been recalled</p>
+        <p className="text-sm text-red-800 break-words">{recall.reason}</p>
+        <p className="text-xs text-red-700">
+          {inherited ? (
+            <>
+              Made from{' '}
+              <Link href={`/tokens/${recall.tokenId}`} className="font-medium underline">
+                token #{recall.tokenId.toString()}
+              </Link>
+              , recalled
+            </>
+          ) : (
+            'Recalled'
+          )}{' '}
+          on {formatDate(recall.dateRecalled)} by {truncateAddress(recall.recalledBy)}. It can no longer be
+          transferred; pending transfers can only be rejected.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface RecalledHoldingsBannerProps {
+  tokens: TokenWithBalance[];
+  recalls: Map<bigint, Recall>;
+}
+
+/**
+ * RecalledHoldingsBanner Component
+ * Lists the recalled tokens an account still holds; renders nothing when there are none
+ */
+export function RecalledHoldingsBanner({ tokens, recalls }: RecalledHoldingsBannerProps) {
+  const recalled = tokens.filter((token) => token.balance > 0n && recalls.has(token.id));
+  if (recalled.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-3 p-4 mb-6 bg-red-50 border-2 border-red-300 rounded-lg" role="alert">
+      <AlertOctagon className="h-8 w-8 shrink-0 text-red-600" />
+      <div className="space-y-2 min-w-0">
+        <p className="text-lg font-semibold text-red-900">
+          {recalled.length === 1 ? 'A product you hold has' : `${recalled.length} products you hold have`} been recalled
+        </p>
+        <ul className="space-y-1">
+          {recalled.map((token) => (
+            <li key={token.id} className="text-sm text-red-800">
+              <Link href={`/tokens/${token.id}`} className="font-medium underline">
+                {token.name} (#{token.id.toString()})
+              </Link>
+              {' - '}
+              {formatNumber(token.balance)} units: {recalls.get(token.id)!.reason}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Download, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useRecallReport } from '@/hooks/use-data';
+import { downloadFile, toCSV, toJSON } from '@/lib/export';
+import type { RecallReport as RecallReportData } from '@/lib/recall';
+import { formatNumber, truncateAddress } from '@/lib/utils';
+
+interface RecallReportProps {
+  tokenId: bigint;
+}
+
+/**
+ * RecallReport Component
+ * Every token covered by a recall and every account holding one of them
+ * or party to a pending transfer of one, with CSV and JSON downloads
+ */
+export function RecallReport({ tokenId }: RecallReportProps) {
+  const { data: report, error } = useRecallReport(tokenId);
+
+  if (error) {
+    return <div className="text-sm text-red-600">Failed to build the recall report</div>;
+  }
+  if (!report) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Collecting affected tokens and accounts...
+      </div>
+    );
+  }
+
+  const names = new Map(report.tokens.map((token) => [token.id, token.name]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-700">
+          {report.tokens.length} {report.tokens.length === 1 ? 'token' : 'tokens'} and {report.accounts.length}{' '}
+          {report.accounts.length === 1 ? 'account' : 'accounts'} affected by the recall of token #
+          {report.recall.tokenId.toString()}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => exportRecallReport(report, 'csv')}>
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => exportRecallReport(report, 'json')}>
+            <Download className="h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Affected Tokens</h4>
+        <div className="space-y-2">
+          {report.tokens.map((token) => (
+            <div key={token.id} className="flex items-center justify-between gap-4 py-2 px-3 bg-gray-50 rounded-lg">
+              <Link href={`/tokens/${token.id}`} className="text-sm font-medium text-blue-600 hover:underline">
+                {token.name} (#{token.id.toString()})
+              </Link>
+              <span className="text-xs text-gray-600">
+                {token.holders.length} {token.holders.length === 1 ? 'holder' : 'holders'}
+                {token.id !== report.recall.tokenId && ` - made from #${token.parentId}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Affected Accounts</h4>
+        {report.accounts.length === 0 ? (
+          <div className="text-sm text-gray-500">No account holds any of these tokens</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Account</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Holdings</th>
+                  <th className="py-2 font-medium">Pending Transfers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.accounts.map((account) => (
+                  <tr key={account.address} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4">
+                      <code className="text-xs" title={account.address}>
+                        {truncateAddress(account.address)}
+                      </code>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="secondary" className="text-xs">
+                        {account.role ?? 'Unregistered'}
+                      </Badge>
+                    </td>
+                    <td className="py-2 pr-4 text-xs text-gray-700">
+                      {account.holdings.length === 0
+                        ? '-'
+                        : account.holdings.map((holding) => (
+                            <div key={holding.tokenId}>
+                              {formatNumber(holding.balance)} x {names.get(holding.tokenId)} (#{holding.tokenId.toString()})
+                            </div>
+                          ))}
+                    </td>
+                    <td className="py-2 text-xs text-gray-700">
+                      {account.pendingTransfers.length === 0
+                        ? '-'
+                        : account.pendingTransfers.map((transfer) => (
+                            <div key={transfer.id}>
+                              #{transfer.id.toString()}: {formatNumber(transfer.amount)} x #{transfer.tokenId.toString()}{' '}
+                              {transfer.to === account.address ? 'incoming' : 'outgoing'}
+                            </div>
+                          ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Download a recall report as CSV (one row per holding or pending transfer) or JSON
+ */
+function exportRecallReport(report: RecallReportData, format: 'csv' | 'json') {
+  const filename = `recall-${report.recall.tokenId}-report.${format}`;
+  if (format === 'json') {
+    downloadFile(filename, toJSON(report), 'application/json');
+    return;
+  }
+
+  const names = new Map(report.tokens.map((token) => [token.id, token.name]));
+  const rows = report.accounts.flatMap((account) => [
+    ...account.holdings.map((h) => [account.address, account.role, 'holding', h.tokenId, names.get(h.tokenId), h.balance, null]),
+    ...account.pendingTransfers.map((t) => [
+      account.address,
+      account.role,
+      t.to === account.address ? 'pending incoming' : 'pending outgoing',
+      t.tokenId,
+      names.get(t.tokenId),
+      t.amount,
+      t.id,
+    ]),
+  ]);
+  const headers = ['account', 'role', 'kind', 'tokenId', 'tokenName', 'amount', 'transferId'];
+  downloadFile(filename, toCSV(headers, rows), 'text/csv');
+}
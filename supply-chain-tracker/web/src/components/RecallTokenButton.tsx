@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertOctagon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { SimulationStatus } from '@/components/SimulationStatus';
+import type { Token } from '@/contracts/models';
+import { useSimulation } from '@/hooks/use-simulation';
+import { toast } from '@/hooks/use-toast';
+import { decodeContractError, type ContractError } from '@/lib/errors';
+import { invalidateTokenRecalled } from '@/lib/queries';
+
+interface RecallTokenButtonProps {
+  token: Token;
+  account: string;
+}
+
+/**
+ * RecallTokenButton Component
+ * Button opening a panel where the creator or the admin recalls a token with a reason
+ */
+export function RecallTokenButton({ token, account }: RecallTokenButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="w-full gap-2 border-red-300 text-red-700 hover:bg-red-50">
+          <AlertOctagon className="h-4 w-4" />
+          Recall Product
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Recall {token.name}</SheetTitle>
+          <SheetDescription>
+            Token #{token.id.toString()} and every product made from it will be flagged as recalled and can no
+            longer be transferred. This cannot be undone.
+          </SheetDescription>
+        </SheetHeader>
+        <RecallForm token={token} account={account} onRecalled={() => setOpen(false)} />
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+/**
+ * Recall form, mounted only while the panel is open
+ */
+function RecallForm({ token, account, onRecalled }: RecallTokenButtonProps & { onRecalled: () => void }) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<ContractError | string | null>(null);
+
+  // Simulate the recall once a reason is given
+  const simulationKey = !isSubmitting && reason.trim() ? [account, token.id, reason.trim()].join('|') : null;
+  const { simulation, isSimulating, willRevert } = useSimulation(simulationKey, async () => {
+    const { web3Service } = await import('@/lib/web3');
+    return web3Service.simulateRecallToken(token.id, reason.trim());
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!reason.trim()) {
+      setError('Please describe why the product is recalled');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const { web3Service } = await import('@/lib/web3');
+      await web3Service.recallToken(token.id, reason.trim());
+      invalidateTokenRecalled();
+      toast({
+        title: 'Product Recalled',
+        description: `${token.name} and the products made from it are now recalled`,
+        variant: 'success',
+      });
+      onRecalled();
+    } catch (err) {
+      console.error('Error recalling token:', err);
+      setError(decodeContractError(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-6">
+      <div className="space-y-2">
+        <Label htmlFor="recall-reason">Reason *</Label>
+        <textarea
+          id="recall-reason"
+          rows={4}
+          placeholder="e.g. Salmonella found in batch F-001. Stop sale and return to the retailer."
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={isSubmitting}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500">Shown to every holder of the product and of the products made from it</p>
+      </div>
+
+      <SimulationStatus simulation={simulation} isSimulating={isSimulating} />
+      <ErrorMessage error={error} />
+
+      <Button
+        type="submit"
+        variant="danger"
+        className="w-full"
+        disabled={isSubmitting || willRevert || !reason.trim()}
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Recalling...
+          </>
+        ) : (
+          'Recall Product'
+        )}
+      </Button>
+    </form>
+  );
+}
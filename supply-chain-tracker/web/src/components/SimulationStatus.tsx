@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { formatEther } from 'ethers';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import type { Simulation } from '@/lib/web3-service';
+import { formatNumber } from '@/lib/utils';
+
+interface SimulationStatusProps {
+  simulation: Simulation | null;
+  isSimulating: boolean;
+}
+
+/**
+ * SimulationStatus Component
+ * Inline result of a pre-flight simulation: predicted revert or estimated gas cost
+ */
+export function SimulationStatus({ simulation, isSimulating }: SimulationStatusProps) {
+  if (isSimulating) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+
+  if (!simulation.ok) {
+    return <ErrorMessage error={simulation.error} />;
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+      <CheckCircle className="h-4 w-4 shrink-0" />
+      <span>
+        Simulation succeeded • Estimated gas: {formatNumber(simulation.gasLimit)}
+        {simulation.cost !== null && <> (≈ {formatEther(simulation.cost)} ETH)</>}
+      </span>
+    </div>
+  );
+}
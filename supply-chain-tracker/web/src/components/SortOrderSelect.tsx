@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SortOrder } from '@/contracts/models';
+import { ArrowDownUp } from 'lucide-react';
+
+interface SortOrderSelectProps {
+  value: SortOrder;
+  onChange: (order: SortOrder) => void;
+}
+
+/**
+ * SortOrderSelect Component
+ * Picks the order the contract returns a paginated list in
+ */
+export function SortOrderSelect({ value, onChange }: SortOrderSelectProps) {
+  return (
+    <Select value={value} onValueChange={(order) => onChange(order as SortOrder)}>
+      <SelectTrigger aria-label="Sort order" className="h-9 w-auto gap-2">
+        <ArrowDownUp className="h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="newest">Newest first</SelectItem>
+        <SelectItem value="oldest">Oldest first</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -2,33 +2,28 @@ import React from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Package, ArrowRight } from 'lucide-react';
-import { formatDate } from '@/lib/utils';
+import { Package, ArrowRight, AlertOctagon } from 'lucide-react';
+import { cn, formatDate, formatNumber } from '@/lib/utils';
+import { Recall, Token } from '@/contracts/models';
 
 interface TokenCardProps {
-  token: {
-    id: number;
-    name: string;
-    totalSupply: number;
-    features: string;
-    creator: string;
-    dateCreated: number;
-    parentId: number;
-  };
-  balance: number;
+  token: Token;
+  balance: bigint;
+  /** Recall in effect for the token, if any */
+  recall?: Recall;
 }
 
 /**
  * TokenCard Component
  * Displays a token in a card format
  */
-export function TokenCard({ token, balance }: TokenCardProps) {
+export function TokenCard({ token, balance, recall }: TokenCardProps) {
   const features = parseFeatures(token.features);
-  const hasParent = token.parentId > 0;
+  const hasParent = token.parentId > 0n;
 
   return (
     <Link href={`/tokens/${token.id}`}>
-      <Card className="hover:shadow-lg transition-shadow cursor-pointer h-full">
+      <Card className={cn('hover:shadow-lg transition-shadow cursor-pointer h-full', recall && 'border-2 border-red-300')}>
         <CardHeader>
           <div className="flex items-start justify-between">
             <div className="flex items-center gap-2">
@@ -46,16 +41,27 @@ export function TokenCard({ token, balance }: TokenCardProps) {
           </div>
         </CardHeader>
         <CardContent className="space-y-3">
+          {/* Recall */}
+          {recall && (
+            <div className="flex items-start gap-2 py-2 px-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+              <AlertOctagon className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-red-900">Recalled</p>
+                <p className="text-xs text-red-800 line-clamp-2">{recall.reason}</p>
+              </div>
+            </div>
+          )}
+
           {/* Balance */}
           <div className="flex items-center justify-between py-2 px-3 bg-green-50 rounded-lg">
             <span className="text-sm font-medium text-green-800">Your Balance</span>
-            <span className="text-lg font-bold text-green-900">{balance}</span>
+            <span className="text-lg font-bold text-green-900">{formatNumber(balance)}</span>
           </div>
 
           {/* Total Supply */}
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">Total Supply</span>
-            <span className="font-semibold">{token.totalSupply}</span>
+            <span className="font-semibold">{formatNumber(token.totalSupply)}</span>
           </div>
 
           {/* Parent Badge */}
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Download, ExternalLink, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import { downloadDataURL, downloadFile } from '@/lib/export';
+import { svgToDataURL, toQRCodePNG, toQRCodeSVG } from '@/lib/qrcode';
+import { getVerificationUrl } from '@/lib/verification';
+
+/**
+ * Width of downloaded PNGs, large enough for print
+ */
+const PNG_WIDTH = 1024;
+
+interface TokenQRCodeProps {
+  tokenId: bigint;
+  deployment: NetworkDeployment;
+}
+
+/**
+ * TokenQRCode Component
+ * QR code pointing at the public verification page of a token, downloadable as SVG or PNG
+ */
+export function TokenQRCode({ tokenId, deployment }: TokenQRCodeProps) {
+  const [code, setCode] = useState<{ url: string; svg: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = getVerificationUrl(tokenId, deployment);
+    toQRCodeSVG(url)
+      .then((svg) => {
+        if (!cancelled) setCode({ url, svg });
+      })
+      .catch((error) => console.error('Failed to render QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, deployment]);
+
+  if (!code) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const downloadPNG = async () => {
+    try {
+      downloadDataURL(`token-${tokenId}-qr.png`, await toQRCodePNG(code.url, PNG_WIDTH));
+    } catch (error) {
+      console.error('Failed to render QR code:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <img
+        src={svgToDataURL(code.svg)}
+        alt={`QR code for token #${tokenId}`}
+        className="mx-auto h-48 w-48 rounded-lg border bg-white"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => downloadFile(`token-${tokenId}-qr.svg`, code.svg, 'image/svg+xml')}
+        >
+          <Download className="h-4 w-4" />
+          SVG
+        </Button>
+        <Button variant="outline" size="sm" className="gap-1" onClick={downloadPNG}>
+          <Download className="h-4 w-4" />
+          PNG
+        </Button>
+      </div>
+      <Link
+        href={code.url}
+        className="flex items-center justify-center gap-1 text-xs text-blue-600 hover:underline"
+      >
+        Open verification page
+        <ExternalLink className="h-3 w-3" />
+      </Link>
+    </div>
+  );
+}
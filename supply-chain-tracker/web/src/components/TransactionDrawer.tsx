@@ -0,0 +1,129 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useTransactions } from '@/hooks/use-transactions';
+import type { TrackedTransaction, TransactionStatus } from '@/lib/transactions';
+import { getDeployment, getExplorerUrl } from '@/contracts/deployments';
+import { formatDate, formatNumber, getStatusLabel, truncateAddress } from '@/lib/utils';
+import { Activity, Loader2 } from 'lucide-react';
+
+const STATUS_BADGES: Record<TransactionStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' }> = {
+  pending: { label: 'Pending', variant: 'warning' },
+  confirmed: { label: 'Confirmed', variant: 'success' },
+  failed: { label: 'Failed', variant: 'danger' },
+  dropped: { label: 'Dropped', variant: 'danger' },
+  replaced: { label: 'Replaced', variant: 'default' },
+};
+
+/**
+ * Human-readable summary of a tracked transaction
+ */
+function describeTransaction({ action, params }: TrackedTransaction): string {
+  switch (action) {
+    case 'requestUserRole':
+      return `Request ${params.role} role`;
+    case 'createToken':
+      return `Create "${params.name}" (${formatNumber(BigInt(params.totalSupply))} units)`;
+    case 'transfer':
+      return `Send ${formatNumber(BigInt(params.amount))} of token #${params.tokenId} to ${truncateAddress(params.to)}`;
+    case 'acceptTransfer':
+      return `Accept transfer #${params.transferId}`;
+    case 'rejectTransfer':
+      return `Reject transfer #${params.transferId}`;
+    case 'recallToken':
+      return `Recall token #${params.tokenId}`;
+    case 'changeUserStatus':
+      return `Set ${truncateAddress(params.userAddress)} to ${getStatusLabel(Number(params.status))}`;
+  }
+}
+
+/**
+ * TransactionDrawer Component
+ * Header button with the pending count, opening the list of tracked transactions
+ */
+export function TransactionDrawer() {
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+  const hasFinished = transactions.some((tx) => tx.status !== 'pending');
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative gap-2" aria-label="Transactions">
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Activity className="h-4 w-4" />
+          )}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-blue-600 px-1 text-[10px] font-semibold text-white">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Transactions</SheetTitle>
+          <SheetDescription>
+            {pendingCount > 0
+              ? `${pendingCount} pending, kept up to date even after a reload`
+              : 'Recent transactions sent from this browser'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {transactions.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">No transactions yet</p>
+          ) : (
+            transactions.map((tx) => {
+              const badge = STATUS_BADGES[tx.status];
+              const deployment = getDeployment(tx.chainId);
+              const explorerUrl = deployment && getExplorerUrl(deployment, 'tx', tx.hash);
+              return (
+                <div key={tx.hash} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900">{describeTransaction(tx)}</span>
+                    <Badge variant={badge.variant} className="shrink-0">
+                      {tx.status === 'pending' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      {badge.label}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    {explorerUrl ? (
+                      <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:underline">
+                        {truncateAddress(tx.hash)}
+                      </a>
+                    ) : (
+                      <span className="font-mono">{truncateAddress(tx.hash)}</span>
+                    )}
+                    <span>{formatDate(Math.floor(tx.submittedAt / 1000))}</span>
+                  </div>
+                  {tx.status === 'confirmed' && (
+                    <div className="text-xs text-gray-500">
+                      Block #{tx.blockNumber} • {tx.confirmations} confirmation{tx.confirmations === 1 ? '' : 's'}
+                    </div>
+                  )}
+                  {tx.replacedBy && (
+                    <div className="text-xs text-gray-500">
+                      {tx.status === 'replaced' ? 'Replaced by' : 'Sped up as'}{' '}
+                      <span className="font-mono">{truncateAddress(tx.replacedBy)}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {hasFinished && (
+          <Button variant="outline" size="sm" onClick={clearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useWallets } from '@/hooks/use-wallets';
+import { Wallet } from 'lucide-react';
+
+/**
+ * WalletPicker Component
+ * Lists the wallets discovered through EIP-6963, opened by connectWallet when there is a choice
+ */
+export function WalletPicker() {
+  const { isWalletPickerOpen, setWalletPickerOpen, connectWallet } = useWeb3();
+  const wallets = useWallets();
+
+  const handleSelect = (rdns: string) => {
+    // Errors are surfaced through the context error state
+    connectWallet(rdns).catch(() => {});
+  };
+
+  return (
+    <Sheet open={isWalletPickerOpen} onOpenChange={setWalletPickerOpen}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Connect a Wallet</SheetTitle>
+          <SheetDescription>Choose which of your browser wallets to use</SheetDescription>
+        </SheetHeader>
+
+        {wallets.length === 0 ? (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            No browser wallet detected. Install MetaMask, Rabby, Frame or Brave Wallet and reload the page.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {wallets.map(({ info }) => (
+              <button
+                key={info.rdns}
+                type="button"
+                onClick={() => handleSelect(info.rdns)}
+                className="flex w-full items-center gap-3 rounded-lg border border-gray-200 p-3 text-left transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {info.icon ? (
+                  <img src={info.icon} alt="" className="h-8 w-8 rounded" />
+                ) : (
+                  <Wallet className="h-8 w-8 p-1 text-gray-600" />
+                )}
+                <span className="text-sm font-medium text-gray-900">{info.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -2,17 +2,22 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { web3Service } from '@/lib/web3';
-import { UserStatus } from '@/contracts/config';
-
-/**
- * User information from contract
- */
-interface UserInfo {
-  id: number;
-  userAddress: string;
-  role: string;
-  status: number;
-}
+import type { SupplyChainEvent } from '@/lib/web3-service';
+import { User, UserStatus } from '@/contracts/models';
+import {
+  DEFAULT_DEPLOYMENT,
+  DEPLOYMENTS,
+  NetworkDeployment,
+  getDeployment,
+  isLocalDeployment,
+} from '@/contracts/deployments';
+import { BURNER_WALLETS_ENABLED, TEST_ACCOUNTS, TestAccount } from '@/contracts/config';
+import { toast } from '@/hooks/use-toast';
+import { decodeContractError } from '@/lib/errors';
+import { INJECTED_WALLET_RDNS, walletRegistry, type WalletDetail, type WalletInfo } from '@/lib/wallets';
+import type { ConnectionHealth } from '@/lib/rpc';
+import { invalidateTokenRecalled, invalidateTransfer, invalidateUsers, resetQueries } from '@/lib/queries';
+import { truncateAddress, getStatusLabel, formatNumber } from '@/lib/utils';
 
 /**
  * Web3 Context Type
@@ -22,16 +27,30 @@ interface Web3ContextType {
   account: string | null;
   isConnected: boolean;
   isLoading: boolean;
+  wallet: WalletInfo | null;
+  isWalletPickerOpen: boolean;
+  setWalletPickerOpen: (open: boolean) => void;
+
+  // Burner-wallet mode (local chains only)
+  burnerAccount: TestAccount | null;
+  isBurnerAvailable: boolean;
   
+  // Network state
+  deployment: NetworkDeployment;
+  isWrongNetwork: boolean;
+  connectionHealth: ConnectionHealth;
+
   // User state
-  userInfo: UserInfo | null;
+  userInfo: User | null;
   isAdmin: boolean;
   isApproved: boolean;
   
   // Actions
-  connectWallet: () => Promise<void>;
+  connectWallet: (rdns?: string) => Promise<void>;
   disconnectWallet: () => void;
   refreshUserInfo: () => Promise<void>;
+  switchNetwork: (chainId: number) => Promise<void>;
+  switchBurnerAccount: (testAccount: TestAccount) => Promise<void>;
   
   // Error state
   error: string | null;
@@ -40,16 +59,30 @@ interface Web3ContextType {
 
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
 
+/**
+ * Error shown while the wallet is on a chain without a deployment
+ */
+function unsupportedNetworkMessage(chainId: string): string {
+  const supported = DEPLOYMENTS.map((d) => `${d.chainName} (${d.chainId})`).join(', ');
+  return `Unsupported network (chain ID ${parseInt(chainId, 16)}). Switch to ${supported}`;
+}
+
 /**
  * Web3 Provider Component
  * Manages global Web3 state with localStorage persistence
  */
 export function Web3Provider({ children }: { children: ReactNode }) {
   const [account, setAccount] = useState<string | null>(null);
-  const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
+  const [wallet, setWallet] = useState<WalletDetail | null>(null);
+  const [isWalletPickerOpen, setWalletPickerOpen] = useState(false);
+  const [burnerAccount, setBurnerAccount] = useState<TestAccount | null>(null);
+  const [userInfo, setUserInfo] = useState<User | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [deployment, setDeployment] = useState<NetworkDeployment>(DEFAULT_DEPLOYMENT);
+  const [isWrongNetwork, setIsWrongNetwork] = useState(false);
+  const [connectionHealth, setConnectionHealth] = useState<ConnectionHealth>('healthy');
 
   /**
    * Load user information from contract
@@ -83,40 +116,71 @@ export function Web3Provider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Adopt the deployment of the wallet's (supported) chain
+   * Data loaded for the previous network is refetched
+   */
+  const followWalletChain = useCallback((chainId: string) => {
+    const changed = web3Service.setDeployment(parseInt(chainId, 16));
+    setDeployment(web3Service.getDeployment());
+    setIsWrongNetwork(false);
+    if (changed) {
+      resetQueries();
+    }
+  }, []);
+
   /**
    * Connect wallet
+   * Without an rdns the only discovered wallet is used, otherwise the wallet picker opens
    */
-  const connectWallet = async () => {
+  const connectWallet = async (rdns?: string) => {
+    const wallets = walletRegistry.getWallets();
+    if (!rdns && wallets.length !== 1) {
+      setWalletPickerOpen(true);
+      return;
+    }
+
     try {
       setIsLoading(true);
       setError(null);
 
-      // Check if MetaMask is installed
-      if (typeof window === 'undefined' || !window.ethereum) {
-        throw new Error('MetaMask not installed. Please install MetaMask to continue.');
+      const selected = rdns ? wallets.find((w) => w.info.rdns === rdns) : wallets[0];
+      if (!selected) {
+        throw new Error('No wallet selected');
       }
+      web3Service.setWallet(selected);
+      setWallet(selected);
+      setBurnerAccount(null);
+      localStorage.removeItem('burnerAccount');
 
-      // Check network
+      // Check network, use the deployment of the wallet's chain when there is one
       const chainId = await web3Service.getChainId();
-      if (chainId !== '0x7a69') {
-        // Not on Anvil, try to switch
+      if (!getDeployment(chainId)) {
+        // Unsupported chain, try to switch to the selected network
         try {
-          await web3Service.switchToAnvilNetwork();
+          await web3Service.switchNetwork(deployment.chainId);
         } catch {
-          throw new Error('Please switch to Anvil Local network (Chain ID: 31337)');
+          throw new Error(unsupportedNetworkMessage(chainId));
         }
+      } else {
+        followWalletChain(chainId);
       }
 
       // Connect wallet
       const address = await web3Service.connectWallet();
       setAccount(address);
+      setWalletPickerOpen(false);
       localStorage.setItem('connectedAccount', address);
+      localStorage.setItem('connectedWallet', selected.info.rdns);
 
       // Load user info
       await loadUserInfo(address);
     } catch (err: unknown) {
       console.error('Failed to connect wallet:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to connect wallet';
+      // Wallet errors (rejected request, missing extension) get the catalog message
+      const decoded = decodeContractError(err);
+      const errorMessage =
+        decoded.code !== 'UNKNOWN' ? decoded.message : err instanceof Error ? err.message : 'Failed to connect wallet';
       setError(errorMessage);
       throw err;
     } finally {
@@ -128,10 +192,37 @@ export function Web3Provider({ children }: { children: ReactNode }) {
    * Disconnect wallet
    */
   const disconnectWallet = () => {
+    web3Service.disconnect();
     setAccount(null);
+    setWallet(null);
+    setBurnerAccount(null);
     setUserInfo(null);
     setIsAdmin(false);
     localStorage.removeItem('connectedAccount');
+    localStorage.removeItem('connectedWallet');
+    localStorage.removeItem('burnerAccount');
+  };
+
+  /**
+   * Sign as one of the Anvil test accounts, swapping the account in place (no reload)
+   */
+  const switchBurnerAccount = async (testAccount: TestAccount) => {
+    try {
+      setError(null);
+      const address = await web3Service.connectBurner(testAccount);
+      setWallet(null);
+      setBurnerAccount(testAccount);
+      setAccount(address);
+      localStorage.setItem('connectedAccount', address);
+      localStorage.setItem('burnerAccount', testAccount);
+      localStorage.removeItem('connectedWallet');
+
+      await loadUserInfo(address);
+    } catch (err: unknown) {
+      console.error('Failed to switch burner account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to switch burner account');
+      throw err;
+    }
   };
 
   /**
@@ -143,6 +234,17 @@ export function Web3Provider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Switch to another supported network
+   * With a wallet the switch completes in handleChainChanged
+   */
+  const switchNetwork = async (chainId: number) => {
+    await web3Service.switchNetwork(chainId);
+    if (!web3Service.getWallet()) {
+      window.location.reload();
+    }
+  };
+
   /**
    * Clear error state
    */
@@ -151,7 +253,7 @@ export function Web3Provider({ children }: { children: ReactNode }) {
   };
 
   /**
-   * Handle account change from MetaMask
+   * Handle account change from the wallet
    */
   const handleAccountsChanged = useCallback(async (accounts: string[]) => {
     if (accounts.length === 0) {
@@ -167,14 +269,17 @@ export function Web3Provider({ children }: { children: ReactNode }) {
   }, [account]);
 
   /**
-   * Handle chain change from MetaMask
+   * Handle chain change from the wallet
    */
   const handleChainChanged = useCallback((chainId: string) => {
     // Reload page on chain change (recommended by MetaMask)
-    if (chainId !== '0x7a69') {
-      setError('Wrong network. Please switch to Anvil Local (Chain ID: 31337)');
+    const next = getDeployment(chainId);
+    if (!next) {
+      setIsWrongNetwork(true);
+      setError(unsupportedNetworkMessage(chainId));
     } else {
       setError(null);
+      web3Service.setDeployment(next.chainId);
       window.location.reload();
     }
   }, []);
@@ -187,6 +292,9 @@ export function Web3Provider({ children }: { children: ReactNode }) {
       try {
         setIsLoading(true);
 
+        // Last selected network (read after mount to keep hydration stable)
+        setDeployment(web3Service.getDeployment());
+
         // Check if we have a saved account
         const savedAccount = localStorage.getItem('connectedAccount');
         if (!savedAccount) {
@@ -194,17 +302,46 @@ export function Web3Provider({ children }: { children: ReactNode }) {
           return;
         }
 
-        // Check if MetaMask is available
-        if (typeof window === 'undefined' || !window.ethereum) {
+        // Burner-wallet session, only restored while the deployment is local
+        const savedBurner = localStorage.getItem('burnerAccount');
+        if (savedBurner && savedBurner in TEST_ACCOUNTS) {
+          if (web3Service.isBurnerAvailable()) {
+            const address = await web3Service.connectBurner(savedBurner as TestAccount);
+            setBurnerAccount(savedBurner as TestAccount);
+            setAccount(address);
+            await loadUserInfo(address);
+          } else {
+            localStorage.removeItem('connectedAccount');
+            localStorage.removeItem('burnerAccount');
+          }
+          return;
+        }
+
+        // Find the wallet used last time (sessions saved before wallet discovery used window.ethereum)
+        const savedWallet = localStorage.getItem('connectedWallet') ?? INJECTED_WALLET_RDNS;
+        const restored = await walletRegistry.findWallet(savedWallet);
+        if (!restored) {
           localStorage.removeItem('connectedAccount');
+          localStorage.removeItem('connectedWallet');
           setIsLoading(false);
           return;
         }
+        web3Service.setWallet(restored);
+        setWallet(restored);
+
+        // Follow the wallet's network before building the signer
+        const chainId = await web3Service.getChainId();
+        if (getDeployment(chainId)) {
+          followWalletChain(chainId);
+        } else {
+          setIsWrongNetwork(true);
+          setError(unsupportedNetworkMessage(chainId));
+        }
 
         // Initialize web3 service
         await web3Service.init();
 
-        // Get current account from MetaMask
+        // Get current account from the wallet
         const currentAccount = await web3Service.getAccount();
 
         // Verify saved account matches current account
@@ -218,42 +355,137 @@ export function Web3Provider({ children }: { children: ReactNode }) {
       } catch (err) {
         console.error('Failed to restore connection:', err);
         localStorage.removeItem('connectedAccount');
+        localStorage.removeItem('connectedWallet');
+        localStorage.removeItem('burnerAccount');
       } finally {
         setIsLoading(false);
       }
     };
 
     initializeConnection();
+  }, [followWalletChain]);
+
+  /**
+   * Track the health of the read-only RPC connection
+   */
+  useEffect(() => {
+    return web3Service.subscribeToConnectionHealth(setConnectionHealth);
   }, []);
 
   /**
-   * Setup MetaMask event listeners
+   * Subscribe to contract events for the connected account
+   * Surfaces them as toasts and invalidates the affected data
+   */
+  useEffect(() => {
+    if (!account) return;
+
+    const isAccount = (address: string) => address.toLowerCase() === account.toLowerCase();
+
+    const handleEvent = (event: SupplyChainEvent) => {
+      switch (event.type) {
+        case 'TransferRequested':
+          if (isAccount(event.to)) {
+            toast({
+              title: 'Incoming Transfer',
+              description: `${truncateAddress(event.from)} sent you ${formatNumber(event.amount)} units of token #${event.tokenId}`,
+            });
+          }
+          invalidateTransfer(event, false);
+          break;
+        case 'TransferAccepted':
+          if (isAccount(event.from)) {
+            toast({
+              title: 'Transfer Accepted',
+              description: `Transfer #${event.transferId} was accepted by ${truncateAddress(event.to)}`,
+              variant: 'success',
+            });
+          }
+          invalidateTransfer(event, true);
+          break;
+        case 'TransferRejected':
+          if (isAccount(event.from)) {
+            toast({
+              title: 'Transfer Rejected',
+              description: `Transfer #${event.transferId} was rejected by ${truncateAddress(event.to)}`,
+              variant: 'warning',
+            });
+          }
+          invalidateTransfer(event, false);
+          break;
+        case 'TokenRecalled':
+          toast({
+            title: 'Product Recall',
+            description: `Token #${event.tokenId} was recalled: ${event.reason}`,
+            variant: 'danger',
+          });
+          invalidateTokenRecalled();
+          break;
+        case 'UserRoleRequested':
+          if (isAdmin && !isAccount(event.user)) {
+            toast({
+              title: 'New Registration',
+              description: `${truncateAddress(event.user)} requested the ${event.role} role`,
+            });
+          }
+          invalidateUsers();
+          break;
+        case 'UserStatusChanged':
+          if (isAccount(event.user)) {
+            toast({
+              title: 'Account Status Changed',
+              description: `Your account is now ${getStatusLabel(event.status)}`,
+              variant: event.status === UserStatus.Approved ? 'success' : 'warning',
+            });
+            loadUserInfo(account);
+          }
+          invalidateUsers();
+          break;
+      }
+    };
+
+    const unsubscribe = web3Service.subscribeToEvents(account, isAdmin, handleEvent);
+    return unsubscribe;
+  }, [account, isAdmin, deployment]);
+
+  /**
+   * Setup event listeners on the selected wallet's provider
    */
   useEffect(() => {
-    if (typeof window === 'undefined' || !window.ethereum) {
+    if (!wallet) {
       return;
     }
+    const { provider } = wallet;
 
     // Listen for account changes
-    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    provider.on('accountsChanged', handleAccountsChanged);
 
     // Listen for chain changes
-    window.ethereum.on('chainChanged', handleChainChanged);
+    provider.on('chainChanged', handleChainChanged);
 
     // Cleanup
     return () => {
-      if (window.ethereum) {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
-      }
+      provider.removeListener('accountsChanged', handleAccountsChanged);
+      provider.removeListener('chainChanged', handleChainChanged);
     };
-  }, [account, handleAccountsChanged, handleChainChanged]); // Re-run when account or handlers change
+  }, [wallet, handleAccountsChanged, handleChainChanged]); // Re-run when the wallet or handlers change
 
   const value: Web3ContextType = {
     // Connection state
     account,
     isConnected: !!account,
     isLoading,
+    wallet: wallet?.info ?? null,
+    isWalletPickerOpen,
+    setWalletPickerOpen,
+
+    // Burner-wallet mode
+    burnerAccount,
+    isBurnerAvailable: BURNER_WALLETS_ENABLED && isLocalDeployment(deployment),
+
+    // Network state
+    deployment,
+    isWrongNetwork,
+    connectionHealth,
 
     // User state
     userInfo,
@@ -264,6 +496,8 @@ export function Web3Provider({ children }: { children: ReactNode }) {
     connectWallet,
     disconnectWallet,
     refreshUserInfo,
+    switchNetwork,
+    switchBurnerAccount,
 
     // Error state
     error,
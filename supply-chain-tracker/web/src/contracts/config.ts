@@ -1,36 +1,17 @@
 /**
  * Contract Configuration
- * Update CONTRACT_ADDRESS after deploying to Anvil
+ * Addresses and networks live in the deployment registry (deployments.ts)
  */
 
-export const CONTRACT_CONFIG = {
-  /**
-   * Contract address on Anvil local network
-   * Updated after redeployment
-   */
-  address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  
-  /**
-   * Admin address (first account from Anvil)
-   * This is the default first account that deploys the contract
-   */
-  adminAddress: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
-} as const;
-
 /**
- * Anvil Local Network Configuration
+ * Multicall3 Configuration
+ * Used to batch view calls into a handful of RPC round trips
  */
-export const ANVIL_NETWORK = {
-  chainId: '0x7a69', // 31337 in hex
-  chainIdNumber: 31337,
-  chainName: 'Anvil Local',
-  rpcUrls: ['http://localhost:8545'],
-  nativeCurrency: {
-    name: 'Ethereum',
-    symbol: 'ETH',
-    decimals: 18,
-  },
-  blockExplorerUrls: null, // No block explorer for local network
+export const MULTICALL_CONFIG = {
+  /**
+   * Maximum number of calls per aggregate3 request
+   */
+  batchSize: 250,
 } as const;
 
 /**
@@ -45,21 +26,42 @@ export const TEST_ACCOUNTS = {
   consumer: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
 } as const;
 
+export type TestAccount = keyof typeof TEST_ACCOUNTS;
+
 /**
- * Enum mapping from Solidity
+ * Well-known private keys of the Anvil accounts above
+ * Only used by burner-wallet mode, which refuses to run on non-local chains
  */
-export enum UserStatus {
-  Pending = 0,
-  Approved = 1,
-  Rejected = 2,
-  Canceled = 3,
-}
+export const TEST_PRIVATE_KEYS: Record<TestAccount, string> = {
+  admin: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  producer: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  factory: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  retailer: '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+  consumer: '0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a',
+};
 
-export enum TransferStatus {
-  Pending = 0,
-  Accepted = 1,
-  Rejected = 2,
-}
+/**
+ * Pagination of token and transfer lists
+ */
+export const PAGINATION_CONFIG = {
+  /**
+   * Items per page
+   */
+  pageSize: 20,
+};
+
+/**
+ * Run against the in-memory contract simulator instead of a node (demos, previews)
+ * Enabled with NEXT_PUBLIC_SIMULATOR=true; state is lost on reload
+ */
+export const SIMULATOR_ENABLED = process.env.NEXT_PUBLIC_SIMULATOR === 'true';
+
+/**
+ * Burner-wallet mode (sign with the Anvil test keys, switch roles from the header)
+ * Enabled in development builds, with NEXT_PUBLIC_BURNER_WALLETS=true, or on the simulator
+ */
+export const BURNER_WALLETS_ENABLED =
+  process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_BURNER_WALLETS === 'true' || SIMULATOR_ENABLED;
 
 /**
  * Role constants
@@ -0,0 +1,142 @@
+import { isAddress } from 'ethers';
+import deploymentsFile from './deployments.json';
+
+/**
+ * Deployment Registry
+ * One SupplyChain deployment per chain, read from deployments.json and
+ * NEXT_PUBLIC_DEPLOYMENTS (a JSON array of the same shape; entries with the
+ * same chainId replace the ones from the file).
+ * NEXT_PUBLIC_DEFAULT_CHAIN_ID picks the network used before a wallet is connected.
+ */
+
+export interface NetworkDeployment {
+  chainId: number;
+  chainName: string;
+  /** SupplyChain contract address */
+  contractAddress: string;
+  /** Multicall3 address (0xcA11bde05977b3631167028862bE2a173976CA11 on public networks) */
+  multicallAddress: string;
+  adminAddress: string;
+  /** Block the contract was deployed at (event indexing starts here) */
+  deployBlock: number;
+  /** JSON-RPC endpoints for read-only access, tried in order (later ones are fallbacks) */
+  rpcUrls: string[];
+  explorerUrl: string | null;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  /** Local development chain (Anvil) */
+  local: boolean;
+}
+
+const DEFAULT_CURRENCY = { name: 'Ethereum', symbol: 'ETH', decimals: 18 };
+
+/**
+ * Validate a raw registry entry, returns null (and logs) when it is unusable
+ */
+function parseDeployment(raw: unknown): NetworkDeployment | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Partial<NetworkDeployment>;
+
+  const valid =
+    Number.isInteger(entry.chainId) &&
+    typeof entry.chainName === 'string' &&
+    typeof entry.contractAddress === 'string' &&
+    isAddress(entry.contractAddress) &&
+    typeof entry.multicallAddress === 'string' &&
+    isAddress(entry.multicallAddress) &&
+    Array.isArray(entry.rpcUrls) &&
+    entry.rpcUrls.length > 0;
+  if (!valid) {
+    console.error('Ignoring invalid deployment entry:', raw);
+    return null;
+  }
+
+  return {
+    chainId: entry.chainId!,
+    chainName: entry.chainName!,
+    contractAddress: entry.contractAddress!,
+    multicallAddress: entry.multicallAddress!,
+    adminAddress: entry.adminAddress ?? '',
+    deployBlock: entry.deployBlock ?? 0,
+    rpcUrls: entry.rpcUrls!,
+    explorerUrl: entry.explorerUrl ?? null,
+    nativeCurrency: entry.nativeCurrency ?? DEFAULT_CURRENCY,
+    local: entry.local ?? false,
+  };
+}
+
+/**
+ * Entries from NEXT_PUBLIC_DEPLOYMENTS
+ */
+function loadEnvDeployments(): unknown[] {
+  const json = process.env.NEXT_PUBLIC_DEPLOYMENTS;
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    console.error('NEXT_PUBLIC_DEPLOYMENTS is not valid JSON');
+    return [];
+  }
+}
+
+function loadDeployments(): NetworkDeployment[] {
+  const byChain = new Map<number, NetworkDeployment>();
+  [...deploymentsFile, ...loadEnvDeployments()].forEach((raw) => {
+    const deployment = parseDeployment(raw);
+    if (deployment) byChain.set(deployment.chainId, deployment);
+  });
+  return [...byChain.values()];
+}
+
+/**
+ * All supported networks
+ */
+export const DEPLOYMENTS: NetworkDeployment[] = loadDeployments();
+
+if (DEPLOYMENTS.length === 0) {
+  throw new Error('No valid SupplyChain deployment configured');
+}
+
+/**
+ * Network used until a wallet reports its chain
+ */
+export const DEFAULT_DEPLOYMENT: NetworkDeployment =
+  DEPLOYMENTS.find((d) => d.chainId === Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID)) ?? DEPLOYMENTS[0];
+
+/**
+ * Find the deployment for a chain ID (number or EIP-155 hex string)
+ */
+export function getDeployment(chainId: number | string): NetworkDeployment | null {
+  const id = typeof chainId === 'string' ? parseInt(chainId, 16) : chainId;
+  return DEPLOYMENTS.find((d) => d.chainId === id) ?? null;
+}
+
+/**
+ * Chain IDs of local development nodes (Anvil, Hardhat)
+ */
+const LOCAL_CHAIN_IDS = [31337, 1337];
+
+/**
+ * Local development deployment: flagged local in the registry and on a local chain ID
+ */
+export function isLocalDeployment(deployment: NetworkDeployment): boolean {
+  return deployment.local && LOCAL_CHAIN_IDS.includes(deployment.chainId);
+}
+
+/**
+ * Chain ID as the hex string expected by wallet RPC methods
+ */
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
+
+/**
+ * Explorer link for an address or transaction, null when the network has no explorer
+ */
+export function getExplorerUrl(deployment: NetworkDeployment, type: 'address' | 'tx', value: string): string | null {
+  return deployment.explorerUrl ? `${deployment.explorerUrl.replace(/\/$/, '')}/${type}/${value}` : null;
+}
@@ -0,0 +1,200 @@
+/**
+ * Shared Domain Models
+ * Plain objects used across the app, mapped from the typed contract bindings
+ * uint256 values (IDs, supplies, balances, amounts) stay bigint end-to-end;
+ * only timestamps are converted to number
+ */
+
+import type { FunctionResult } from '@/contracts/types';
+import { TransferStatus, UserStatus } from '@/contracts/types';
+
+export { TransferStatus, UserStatus };
+
+/**
+ * Registered user
+ */
+export interface User {
+  id: bigint;
+  userAddress: string;
+  role: string;
+  status: UserStatus;
+}
+
+/**
+ * Token (product or raw material)
+ */
+export interface Token {
+  id: bigint;
+  creator: string;
+  name: string;
+  totalSupply: bigint;
+  features: string;
+  parentId: bigint;
+  dateCreated: number;
+}
+
+/**
+ * Token with the balance of a given address
+ */
+export interface TokenWithBalance extends Token {
+  balance: bigint;
+}
+
+/**
+ * Transfer between two users
+ */
+export interface Transfer {
+  id: bigint;
+  from: string;
+  to: string;
+  tokenId: bigint;
+  dateCreated: number;
+  amount: bigint;
+  status: TransferStatus;
+}
+
+/**
+ * Transfer with the name of the transferred token
+ */
+export interface TransferWithToken extends Transfer {
+  tokenName: string;
+}
+
+/**
+ * Recall in effect for a token: issued for the token itself or for a token it was made from
+ */
+export interface Recall {
+  /** Token the recall was issued for */
+  tokenId: bigint;
+  recalledBy: string;
+  reason: string;
+  dateRecalled: number;
+}
+
+/**
+ * Token in a provenance lineage, with the role its creator registered with
+ * (null when the creator is no longer found)
+ */
+export interface ProvenanceNode extends Token {
+  creatorRole: string | null;
+}
+
+/**
+ * Address holding part of a token's supply
+ */
+export interface TokenHolder {
+  address: string;
+  balance: bigint;
+}
+
+/**
+ * Product made from a token, with its current holders and the products made from it
+ */
+export interface DerivedProduct extends Token {
+  holders: TokenHolder[];
+  children: DerivedProduct[];
+}
+
+/**
+ * Step in the custody history of a token
+ * Created: the creator receives the whole supply (from is null)
+ */
+export type CustodyEventType = 'Created' | 'TransferRequested' | 'TransferAccepted' | 'TransferRejected';
+
+export interface CustodyEvent {
+  type: CustodyEventType;
+  tokenId: bigint;
+  /** null for Created */
+  transferId: bigint | null;
+  from: string | null;
+  fromRole: string | null;
+  to: string;
+  toRole: string | null;
+  amount: bigint;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Order of paginated lists: by when the ID was added to the user's list
+ */
+export type SortOrder = 'newest' | 'oldest';
+
+/**
+ * One page of a list read from the contract
+ */
+export interface Page<T> {
+  items: T[];
+  /** Length of the whole list */
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Contract-wide counters
+ */
+export interface Statistics {
+  totalUsers: number;
+  totalTokens: number;
+  totalTransfers: number;
+}
+
+// ============================================
+// MAPPERS
+// ============================================
+
+/**
+ * Map a getUserInfo/users result to a User
+ */
+export function toUser(user: FunctionResult<'getUserInfo'> | FunctionResult<'users'>): User {
+  return {
+    id: user.id,
+    userAddress: user.userAddress,
+    role: user.role,
+    status: Number(user.status) as UserStatus,
+  };
+}
+
+/**
+ * Map a getToken/tokens result to a Token
+ */
+export function toToken(token: FunctionResult<'getToken'> | FunctionResult<'tokens'>): Token {
+  return {
+    id: token.id,
+    creator: token.creator,
+    name: token.name,
+    totalSupply: token.totalSupply,
+    features: token.features,
+    parentId: token.parentId,
+    dateCreated: Number(token.dateCreated),
+  };
+}
+
+/**
+ * Map a getTransfer/transfers result to a Transfer
+ */
+export function toTransfer(transfer: FunctionResult<'getTransfer'> | FunctionResult<'transfers'>): Transfer {
+  return {
+    id: transfer.id,
+    from: transfer.from,
+    to: transfer.to,
+    tokenId: transfer.tokenId,
+    dateCreated: Number(transfer.dateCreated),
+    amount: transfer.amount,
+    status: Number(transfer.status) as TransferStatus,
+  };
+}
+
+/**
+ * Map a recalls result of the recalled token to a Recall
+ */
+export function toRecall(tokenId: bigint, recall: FunctionResult<'recalls'>): Recall {
+  return {
+    tokenId,
+    recalledBy: recall.recalledBy,
+    reason: recall.reason,
+    dateRecalled: Number(recall.dateRecalled),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Typed SupplyChain Contract Bindings
+ * Derived at compile time from SUPPLY_CHAIN_ABI, so an ABI change in
+ * SupplyChain.sol surfaces as type errors instead of runtime surprises
+ */
+
+import type {
+  AbiParameter,
+  AbiParameterToPrimitiveType,
+  AbiParametersToPrimitiveTypes,
+  ExtractAbiEvent,
+  ExtractAbiEventNames,
+  ExtractAbiFunction,
+  ExtractAbiFunctionNames,
+} from 'abitype';
+import type {
+  BaseContract,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventLog,
+  Overrides,
+} from 'ethers';
+import type { SUPPLY_CHAIN_ABI } from '@/contracts/abi';
+
+/**
+ * Map ABI types to what ethers v6 actually returns
+ * (checksummed address strings and hex strings for bytes)
+ */
+declare module 'abitype' {
+  export interface Register {
+    addressType: string;
+    bytesType: { inputs: string; outputs: string };
+  }
+}
+
+type SupplyChainAbi = typeof SUPPLY_CHAIN_ABI;
+
+/**
+ * Enum mapping from Solidity
+ */
+export enum UserStatus {
+  Pending = 0,
+  Approved = 1,
+  Rejected = 2,
+  Canceled = 3,
+}
+
+export enum TransferStatus {
+  Pending = 0,
+  Accepted = 1,
+  Rejected = 2,
+}
+
+// ============================================
+// FUNCTIONS
+// ============================================
+
+export type FunctionName = ExtractAbiFunctionNames<SupplyChainAbi>;
+export type ViewFunctionName = ExtractAbiFunctionNames<SupplyChainAbi, 'view' | 'pure'>;
+export type WriteFunctionName = ExtractAbiFunctionNames<SupplyChainAbi, 'nonpayable' | 'payable'>;
+
+type AbiFunction<N extends FunctionName> = ExtractAbiFunction<SupplyChainAbi, N>;
+
+/**
+ * Named parameters as an object (ethers Result supports access by name)
+ */
+type NamedParameters<P extends readonly AbiParameter[], Kind extends 'inputs' | 'outputs'> = {
+  [K in P[number] as K['name'] extends '' | undefined ? never : NonNullable<K['name']>]: AbiParameterToPrimitiveType<K, Kind>;
+};
+
+/**
+ * Arguments of a contract function
+ */
+export type FunctionArgs<N extends FunctionName> = AbiParametersToPrimitiveTypes<AbiFunction<N>['inputs'], 'inputs'>;
+
+type FunctionOutputs<N extends FunctionName> = AbiParametersToPrimitiveTypes<AbiFunction<N>['outputs'], 'outputs'>;
+
+/**
+ * Return value of a contract function
+ * Single outputs are unwrapped, multiple outputs are indexable by position and name
+ */
+export type FunctionResult<N extends FunctionName> =
+  FunctionOutputs<N> extends readonly [infer Only]
+    ? Only
+    : FunctionOutputs<N> & NamedParameters<AbiFunction<N>['outputs'], 'outputs'>;
+
+/**
+ * Typed contract method (mirrors ethers BaseContractMethod)
+ */
+export interface TypedContractMethod<A extends readonly unknown[], R, Write extends boolean> {
+  (...args: [...A, overrides?: Overrides]): Promise<Write extends true ? ContractTransactionResponse : R>;
+  staticCall(...args: [...A, overrides?: Overrides]): Promise<R>;
+  estimateGas(...args: [...A, overrides?: Overrides]): Promise<bigint>;
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+export type EventName = ExtractAbiEventNames<SupplyChainAbi>;
+
+type AbiEvent<N extends EventName> = ExtractAbiEvent<SupplyChainAbi, N>;
+
+/**
+ * Arguments of a contract event, indexable by position and name
+ */
+export type EventArgs<N extends EventName> =
+  AbiParametersToPrimitiveTypes<AbiEvent<N>['inputs'], 'outputs'> &
+  NamedParameters<AbiEvent<N>['inputs'], 'outputs'>;
+
+/**
+ * Topic filter arguments (indexed parameters only, null matches any)
+ */
+type FilterArgs<P extends readonly AbiParameter[]> = Partial<{
+  [K in keyof P]: P[K] extends AbiParameter & { indexed: true }
+    ? AbiParameterToPrimitiveType<P[K], 'inputs'> | null
+    : never;
+}>;
+
+/**
+ * Decoded SupplyChain event log, discriminated by event name
+ */
+export type SupplyChainEventLog = {
+  [N in EventName]: Omit<EventLog, 'eventName' | 'args'> & { eventName: N; args: EventArgs<N> };
+}[EventName];
+
+// ============================================
+// CONTRACT
+// ============================================
+
+/**
+ * Typed SupplyChain contract instance
+ */
+export type SupplyChainContract = Omit<BaseContract, 'filters'> & {
+  [N in ViewFunctionName]: TypedContractMethod<FunctionArgs<N>, FunctionResult<N>, false>;
+} & {
+  [N in WriteFunctionName]: TypedContractMethod<FunctionArgs<N>, void, true>;
+} & {
+  filters: {
+    [N in EventName]: (...args: FilterArgs<AbiEvent<N>['inputs']>) => DeferredTopicFilter;
+  };
+};
@@ -0,0 +1,191 @@
+import * as React from 'react';
+import type { SortOrder } from '@/contracts/models';
+import { queryCache, type Query, type QueryState } from '@/lib/query-cache';
+import type { VerificationLink } from '@/lib/verification';
+import {
+  authenticityQuery,
+  custodyQuery,
+  descendantsQuery,
+  portfolioQuery,
+  provenanceQuery,
+  recallQuery,
+  recallReportQuery,
+  recalledTokensQuery,
+  statisticsQuery,
+  tokenBalanceQuery,
+  tokenQuery,
+  tokensPageQuery,
+  transfersPageQuery,
+  transfersQuery,
+  usersQuery,
+} from '@/lib/queries';
+
+const DISABLED_STATE: QueryState<never> = { data: undefined, error: null, isFetching: false, updatedAt: 0 };
+
+const noop = () => {};
+
+/**
+ * Read a query through the shared cache
+ * Pass null while its arguments are not known yet; the query object must be memoized
+ * isLoading is only true until the first result, later refetches keep the previous data
+ */
+function useQuery<T>(query: Query<T> | null) {
+  const subscribe = React.useCallback(
+    (onChange: () => void) => (query ? queryCache.observe(query, onChange) : noop),
+    [query]
+  );
+  const getSnapshot = React.useCallback(
+    () => (query ? queryCache.getState<T>(query.key) : DISABLED_STATE),
+    [query]
+  );
+  const state = React.useSyncExternalStore(subscribe, getSnapshot, () => DISABLED_STATE);
+
+  const refetch = React.useCallback(async () => {
+    if (query) queryCache.invalidate(query.key);
+  }, [query]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: query !== null && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
+
+function useToken(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? tokenQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+function useTokenBalance(tokenId: bigint | null, address: string | null) {
+  const query = React.useMemo(
+    () => (tokenId !== null && address ? tokenBalanceQuery(tokenId, address) : null),
+    [tokenId, address]
+  );
+  return useQuery(query);
+}
+
+/**
+ * Lineage of a token back to its raw material (the token itself first)
+ */
+function useProvenance(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? provenanceQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+/**
+ * Products made from a token, recursively, with their current holders
+ */
+function useDescendants(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? descendantsQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+/**
+ * Custody history of a token, oldest first
+ */
+function useCustodyTimeline(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? custodyQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+/**
+ * Recall in effect for a token, null when it is not recalled
+ */
+function useRecall(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? recallQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+/**
+ * Recall in effect for every recalled token, keyed by token ID
+ */
+function useRecalledTokens(enabled = true) {
+  const query = React.useMemo(() => (enabled ? recalledTokensQuery() : null), [enabled]);
+  return useQuery(query);
+}
+
+/**
+ * Tokens and accounts affected by the recall of a token
+ */
+function useRecallReport(tokenId: bigint | null) {
+  const query = React.useMemo(() => (tokenId !== null ? recallReportQuery(tokenId) : null), [tokenId]);
+  return useQuery(query);
+}
+
+/**
+ * Check a verification link (e.g. from a scanned QR code) against the contract
+ * The link object must be memoized
+ */
+function useAuthenticity(link: VerificationLink | null) {
+  const query = React.useMemo(() => (link ? authenticityQuery(link) : null), [link]);
+  return useQuery(query);
+}
+
+/**
+ * Tokens an address has held, with current balances
+ */
+function usePortfolio(address: string | null) {
+  const query = React.useMemo(() => (address ? portfolioQuery(address) : null), [address]);
+  return useQuery(query);
+}
+
+/**
+ * Transfers sent or received by an address, most recent first
+ */
+function useTransfers(address: string | null) {
+  const query = React.useMemo(() => (address ? transfersQuery(address) : null), [address]);
+  return useQuery(query);
+}
+
+/**
+ * One page of an address's tokens (offset and limit in items)
+ */
+function useTokensPage(address: string | null, offset: number, limit: number, order: SortOrder) {
+  const query = React.useMemo(
+    () => (address ? tokensPageQuery(address, offset, limit, order) : null),
+    [address, offset, limit, order]
+  );
+  return useQuery(query);
+}
+
+/**
+ * One page of an address's transfers (offset and limit in items)
+ */
+function useTransfersPage(address: string | null, offset: number, limit: number, order: SortOrder) {
+  const query = React.useMemo(
+    () => (address ? transfersPageQuery(address, offset, limit, order) : null),
+    [address, offset, limit, order]
+  );
+  return useQuery(query);
+}
+
+function useUsers(enabled = true) {
+  const query = React.useMemo(() => (enabled ? usersQuery() : null), [enabled]);
+  return useQuery(query);
+}
+
+function useStatistics(enabled = true) {
+  const query = React.useMemo(() => (enabled ? statisticsQuery() : null), [enabled]);
+  return useQuery(query);
+}
+
+export {
+  useQuery,
+  useToken,
+  useTokenBalance,
+  useProvenance,
+  useDescendants,
+  useCustodyTimeline,
+  useRecall,
+  useRecalledTokens,
+  useRecallReport,
+  useAuthenticity,
+  usePortfolio,
+  useTokensPage,
+  useTransfers,
+  useTransfersPage,
+  useUsers,
+  useStatistics,
+};
@@ -0,0 +1,47 @@
+import * as React from 'react';
+import type { Simulation } from '@/lib/web3-service';
+
+/**
+ * Delay after the last input change before simulating
+ */
+const SIMULATION_DEBOUNCE = 400;
+
+/**
+ * Simulate a write while a form is being filled in
+ * key identifies the current inputs (null while they are incomplete or invalid);
+ * the simulation re-runs, debounced, whenever it changes
+ */
+function useSimulation(key: string | null, simulate: () => Promise<Simulation>) {
+  const [result, setResult] = React.useState<{ key: string; simulation: Simulation } | null>(null);
+  const simulateRef = React.useRef(simulate);
+
+  React.useEffect(() => {
+    simulateRef.current = simulate;
+  });
+
+  React.useEffect(() => {
+    if (key === null) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const simulation = await simulateRef.current();
+      if (!cancelled) {
+        setResult({ key, simulation });
+      }
+    }, SIMULATION_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  const simulation = key !== null && result?.key === key ? result.simulation : null;
+  return {
+    simulation,
+    isSimulating: key !== null && simulation === null,
+    willRevert: simulation?.ok === false,
+  };
+}
+
+export { useSimulation };
@@ -0,0 +1,19 @@
+import * as React from 'react';
+import { transactionTracker, type TrackedTransaction } from '@/lib/transactions';
+
+function useTransactions() {
+  const [transactions, setTransactions] = React.useState<TrackedTransaction[]>([]);
+
+  React.useEffect(() => {
+    setTransactions(transactionTracker.getTransactions());
+    return transactionTracker.subscribe(setTransactions);
+  }, []);
+
+  return {
+    transactions,
+    pendingCount: transactions.filter((tx) => tx.status === 'pending').length,
+    clearFinished: () => transactionTracker.clearFinished(),
+  };
+}
+
+export { useTransactions };
@@ -0,0 +1,15 @@
+import * as React from 'react';
+import { walletRegistry, type WalletDetail } from '@/lib/wallets';
+
+function useWallets() {
+  const [wallets, setWallets] = React.useState<WalletDetail[]>([]);
+
+  React.useEffect(() => {
+    setWallets(walletRegistry.getWallets());
+    return walletRegistry.subscribe(() => setWallets(walletRegistry.getWallets()));
+  }, []);
+
+  return wallets;
+}
+
+export { useWallets };
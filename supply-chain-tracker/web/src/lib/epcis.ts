@@ -0,0 +1,176 @@
+import { getAddress } from 'ethers';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import type { CustodyEvent, CustodyEventType } from '@/contracts/models';
+import type { CustodyHistory } from '@/lib/provenance';
+import { getVerificationUrl } from '@/lib/verification';
+
+/**
+ * GS1 EPCIS 2.0 Export
+ * Turns the custody history of tokens into EPCIS 2.0 JSON-LD documents for partners'
+ * traceability systems
+ *
+ * Identifiers:
+ * - Product classes (epcClass) are the tokens' verification URLs, resolvable HTTP URIs
+ *   in the spirit of GS1 Digital Link
+ * - Parties are did:pkh identifiers of their accounts (CAIP-10)
+ *
+ * Events (CBV 2.0 vocabulary):
+ * - Raw material created: ObjectEvent ADD, commissioning
+ * - Product made from a parent token: TransformationEvent with the parent as input
+ * - Transfer requested: ObjectEvent OBSERVE, shipping, in_transit
+ * - Transfer accepted: ObjectEvent OBSERVE, receiving, in_progress
+ * - Transfer rejected: ObjectEvent OBSERVE, void_shipping (units never left the sender)
+ */
+
+const EPCIS_CONTEXT = 'https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld';
+
+/**
+ * Namespace of the extension fields linking events back to the chain
+ */
+const EXTENSION_NAMESPACE = 'urn:supply-chain-tracker:epcis:';
+
+interface QuantityElement {
+  epcClass: string;
+  /** Absent when the amount is not recorded (parents are not consumed by derived products) */
+  quantity?: number;
+}
+
+interface PartyElement {
+  type: 'owning_party';
+}
+
+export interface EPCISEvent {
+  type: 'ObjectEvent' | 'TransformationEvent';
+  eventTime: string;
+  eventTimeZoneOffset: string;
+  action?: 'ADD' | 'OBSERVE';
+  bizStep: string;
+  disposition?: string;
+  quantityList?: QuantityElement[];
+  inputQuantityList?: QuantityElement[];
+  outputQuantityList?: QuantityElement[];
+  sourceList?: (PartyElement & { source: string })[];
+  destinationList?: (PartyElement & { destination: string })[];
+  'sc:transactionHash': string;
+  'sc:blockNumber': number;
+  'sc:transferId'?: string;
+}
+
+export interface EPCISDocument {
+  '@context': (string | Record<string, string>)[];
+  type: 'EPCISDocument';
+  schemaVersion: '2.0';
+  creationDate: string;
+  epcisBody: {
+    eventList: EPCISEvent[];
+  };
+}
+
+const TRANSFER_STEPS: Record<Exclude<CustodyEventType, 'Created'>, { bizStep: string; disposition?: string }> = {
+  TransferRequested: { bizStep: 'shipping', disposition: 'in_transit' },
+  TransferAccepted: { bizStep: 'receiving', disposition: 'in_progress' },
+  TransferRejected: { bizStep: 'void_shipping' },
+};
+
+/**
+ * did:pkh identifier of an account on the deployment's chain
+ */
+function partyId(address: string, deployment: NetworkDeployment): string {
+  return `did:pkh:eip155:${deployment.chainId}:${getAddress(address)}`;
+}
+
+/**
+ * EPCIS quantities are JSON numbers; supplies beyond 2^53 lose precision
+ */
+function quantity(amount: bigint): number {
+  return Number(amount);
+}
+
+/**
+ * EPCIS 2.0 document of a custody history (see getLineageHistory and getAccountHistory)
+ */
+export function toEPCISDocument(
+  history: CustodyHistory,
+  deployment: NetworkDeployment,
+  origin = window.location.origin
+): EPCISDocument {
+  const parents = new Map(history.tokens.map((token) => [token.id, token.parentId]));
+  const epcClass = (tokenId: bigint) => getVerificationUrl(tokenId, deployment, origin);
+
+  const toEvent = (event: CustodyEvent): EPCISEvent => {
+    const common = {
+      eventTime: new Date(event.timestamp * 1000).toISOString(),
+      eventTimeZoneOffset: '+00:00',
+    };
+    const chain = {
+      'sc:transactionHash': event.txHash,
+      'sc:blockNumber': event.blockNumber,
+    };
+    const product = { epcClass: epcClass(event.tokenId), quantity: quantity(event.amount) };
+    const destinationList = [{ type: 'owning_party' as const, destination: partyId(event.to, deployment) }];
+
+    if (event.type === 'Created') {
+      const parentId = parents.get(event.tokenId) ?? 0n;
+      if (parentId === 0n) {
+        return {
+          type: 'ObjectEvent',
+          ...common,
+          action: 'ADD',
+          bizStep: 'commissioning',
+          disposition: 'active',
+          quantityList: [product],
+          destinationList,
+          ...chain,
+        };
+      }
+      return {
+        type: 'TransformationEvent',
+        ...common,
+        bizStep: 'commissioning',
+        disposition: 'active',
+        inputQuantityList: [{ epcClass: epcClass(parentId) }],
+        outputQuantityList: [product],
+        destinationList,
+        ...chain,
+      };
+    }
+
+    return {
+      type: 'ObjectEvent',
+      ...common,
+      action: 'OBSERVE',
+      ...TRANSFER_STEPS[event.type],
+      quantityList: [product],
+      sourceList: [{ type: 'owning_party', source: partyId(event.from!, deployment) }],
+      destinationList,
+      ...chain,
+      'sc:transferId': event.transferId!.toString(),
+    };
+  };
+
+  return {
+    '@context': [EPCIS_CONTEXT, { sc: EXTENSION_NAMESPACE }],
+    type: 'EPCISDocument',
+    schemaVersion: '2.0',
+    creationDate: new Date().toISOString(),
+    epcisBody: {
+      eventList: history.events.map(toEvent),
+    },
+  };
+}
+
+/**
+ * EPCIS document of a token's lineage: its creation, its ancestors' and all their transfers
+ */
+export async function getTokenEPCISDocument(tokenId: bigint, deployment: NetworkDeployment): Promise<EPCISDocument> {
+  const { getLineageHistory } = await import('@/lib/provenance');
+  return toEPCISDocument(await getLineageHistory(tokenId), deployment);
+}
+
+/**
+ * EPCIS document of an account's history: the tokens it created and the transfers it took part in
+ */
+export async function getAccountEPCISDocument(address: string, deployment: NetworkDeployment): Promise<EPCISDocument> {
+  const { getAccountHistory } = await import('@/lib/provenance');
+  return toEPCISDocument(await getAccountHistory(address), deployment);
+}
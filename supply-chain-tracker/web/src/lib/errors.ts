@@ -0,0 +1,432 @@
+import { AbiCoder, isError } from 'ethers';
+
+/**
+ * Selector of the standard Error(string) revert payload
+ */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/**
+ * Known error conditions: every require/revert message in SupplyChain.sol
+ * plus the wallet and transaction failures the app can recover from
+ */
+export type ErrorCode =
+  // Access control
+  | 'ONLY_ADMIN'
+  | 'USER_NOT_REGISTERED'
+  | 'USER_NOT_APPROVED'
+  // Registration
+  | 'USER_ALREADY_REGISTERED'
+  | 'INVALID_ROLE'
+  | 'USER_NOT_FOUND'
+  // Token creation
+  | 'NAME_EMPTY'
+  | 'SUPPLY_ZERO'
+  | 'PRODUCER_WITH_PARENT'
+  | 'INVALID_PARENT_TOKEN'
+  | 'PARENT_NOT_OWNED'
+  | 'CONSUMER_CANNOT_CREATE'
+  | 'INVALID_TOKEN_ID'
+  // Transfers
+  | 'INVALID_RECIPIENT'
+  | 'SELF_TRANSFER'
+  | 'AMOUNT_ZERO'
+  | 'INSUFFICIENT_BALANCE'
+  | 'RECIPIENT_NOT_REGISTERED'
+  | 'RECIPIENT_NOT_APPROVED'
+  | 'CONSUMER_CANNOT_TRANSFER'
+  | 'INVALID_ROLE_TRANSFER'
+  | 'INVALID_TRANSFER_ID'
+  | 'ONLY_RECIPIENT_CAN_ACCEPT'
+  | 'ONLY_RECIPIENT_CAN_REJECT'
+  | 'TRANSFER_NOT_PENDING'
+  // Recalls
+  | 'TOKEN_RECALLED'
+  | 'ONLY_CREATOR_OR_ADMIN_CAN_RECALL'
+  | 'RECALL_REASON_EMPTY'
+  | 'TOKEN_ALREADY_RECALLED'
+  // Wallet and transaction lifecycle
+  | 'WALLET_NOT_INSTALLED'
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'OUT_OF_GAS'
+  | 'NONCE_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TRANSACTION_REVERTED'
+  | 'TRANSACTION_REPLACED'
+  | 'TRANSACTION_DROPPED'
+  | 'UNKNOWN';
+
+interface ErrorEntry {
+  title: string;
+  explanation: string;
+  suggestion: string;
+}
+
+/**
+ * Revert message in SupplyChain.sol -> error code
+ */
+const REVERT_REASONS: Record<string, ErrorCode> = {
+  'Only admin can perform this action': 'ONLY_ADMIN',
+  'User not registered': 'USER_NOT_REGISTERED',
+  'User not approved': 'USER_NOT_APPROVED',
+  'User already registered': 'USER_ALREADY_REGISTERED',
+  'Invalid role': 'INVALID_ROLE',
+  'User not found': 'USER_NOT_FOUND',
+  'Name cannot be empty': 'NAME_EMPTY',
+  'Supply must be greater than 0': 'SUPPLY_ZERO',
+  'Producer cannot have parent token': 'PRODUCER_WITH_PARENT',
+  'Invalid parent token': 'INVALID_PARENT_TOKEN',
+  'Must own parent token': 'PARENT_NOT_OWNED',
+  'Consumer cannot create tokens': 'CONSUMER_CANNOT_CREATE',
+  'Invalid token ID': 'INVALID_TOKEN_ID',
+  'Invalid recipient': 'INVALID_RECIPIENT',
+  'Cannot transfer to yourself': 'SELF_TRANSFER',
+  'Amount must be greater than 0': 'AMOUNT_ZERO',
+  'Insufficient balance': 'INSUFFICIENT_BALANCE',
+  'Recipient not registered': 'RECIPIENT_NOT_REGISTERED',
+  'Recipient not approved': 'RECIPIENT_NOT_APPROVED',
+  'Consumer cannot transfer': 'CONSUMER_CANNOT_TRANSFER',
+  'Invalid role transfer': 'INVALID_ROLE_TRANSFER',
+  'Invalid transfer ID': 'INVALID_TRANSFER_ID',
+  'Only recipient can accept': 'ONLY_RECIPIENT_CAN_ACCEPT',
+  'Only recipient can reject': 'ONLY_RECIPIENT_CAN_REJECT',
+  'Transfer not pending': 'TRANSFER_NOT_PENDING',
+  'Token is recalled': 'TOKEN_RECALLED',
+  'Only creator or admin can recall': 'ONLY_CREATOR_OR_ADMIN_CAN_RECALL',
+  'Reason cannot be empty': 'RECALL_REASON_EMPTY',
+  'Token already recalled': 'TOKEN_ALREADY_RECALLED',
+};
+
+/**
+ * User-facing explanation and suggested fix per error code
+ */
+export const ERROR_CATALOG: Record<ErrorCode, ErrorEntry> = {
+  ONLY_ADMIN: {
+    title: 'Admin only',
+    explanation: 'Only the contract administrator can perform this action.',
+    suggestion: 'Switch to the admin account in your wallet.',
+  },
+  USER_NOT_REGISTERED: {
+    title: 'Account not registered',
+    explanation: 'The connected account has not requested a role yet.',
+    suggestion: 'Register from the home page and wait for admin approval.',
+  },
+  USER_NOT_APPROVED: {
+    title: 'Account not approved',
+    explanation: 'Your registration has not been approved by the administrator.',
+    suggestion: 'Wait for the admin to approve your account, then try again.',
+  },
+  USER_ALREADY_REGISTERED: {
+    title: 'Already registered',
+    explanation: 'This account has already requested a role.',
+    suggestion: 'Reload the page to see your current registration status.',
+  },
+  INVALID_ROLE: {
+    title: 'Invalid role',
+    explanation: 'The requested role is not one of Producer, Factory, Retailer or Consumer.',
+    suggestion: 'Pick one of the listed roles.',
+  },
+  USER_NOT_FOUND: {
+    title: 'User not found',
+    explanation: 'There is no registered user with this address.',
+    suggestion: 'Check the address and make sure the user has registered.',
+  },
+  NAME_EMPTY: {
+    title: 'Missing name',
+    explanation: 'Tokens must have a name.',
+    suggestion: 'Enter a name for the token.',
+  },
+  SUPPLY_ZERO: {
+    title: 'Invalid supply',
+    explanation: 'The total supply must be greater than zero.',
+    suggestion: 'Enter a supply of at least 1 unit.',
+  },
+  PRODUCER_WITH_PARENT: {
+    title: 'Producers create raw materials',
+    explanation: 'Producer tokens are the origin of the chain and cannot have a parent token.',
+    suggestion: 'Create the token without selecting a parent.',
+  },
+  INVALID_PARENT_TOKEN: {
+    title: 'Invalid parent token',
+    explanation: 'The selected parent token does not exist.',
+    suggestion: 'Select one of the tokens in your portfolio as parent.',
+  },
+  PARENT_NOT_OWNED: {
+    title: 'Parent token not owned',
+    explanation: 'You need a positive balance of the parent token to derive a product from it.',
+    suggestion: 'Accept a transfer of the parent token first, or pick another parent.',
+  },
+  CONSUMER_CANNOT_CREATE: {
+    title: 'Consumers cannot create tokens',
+    explanation: 'Only producers, factories and retailers can create tokens.',
+    suggestion: 'Use an account with a producing role.',
+  },
+  INVALID_TOKEN_ID: {
+    title: 'Unknown token',
+    explanation: 'No token exists with this ID.',
+    suggestion: 'Check the token ID and try again.',
+  },
+  INVALID_RECIPIENT: {
+    title: 'Invalid recipient',
+    explanation: 'Tokens cannot be sent to the zero address.',
+    suggestion: 'Enter the address of a registered participant.',
+  },
+  SELF_TRANSFER: {
+    title: 'Cannot transfer to yourself',
+    explanation: 'The recipient is the connected account.',
+    suggestion: 'Enter the address of another participant.',
+  },
+  AMOUNT_ZERO: {
+    title: 'Invalid amount',
+    explanation: 'Transfers must move at least one unit.',
+    suggestion: 'Enter an amount greater than zero.',
+  },
+  INSUFFICIENT_BALANCE: {
+    title: 'Insufficient balance',
+    explanation: 'The sender does not hold enough units of this token.',
+    suggestion: 'Lower the amount, or wait for pending incoming transfers to be accepted.',
+  },
+  RECIPIENT_NOT_REGISTERED: {
+    title: 'Recipient not registered',
+    explanation: 'The recipient address has not registered in the supply chain.',
+    suggestion: 'Ask the recipient to register and get approved first.',
+  },
+  RECIPIENT_NOT_APPROVED: {
+    title: 'Recipient not approved',
+    explanation: 'The recipient is registered but has not been approved by the administrator.',
+    suggestion: 'Wait until the admin approves the recipient.',
+  },
+  CONSUMER_CANNOT_TRANSFER: {
+    title: 'Consumers cannot transfer',
+    explanation: 'Consumers are the end of the supply chain and cannot send tokens.',
+    suggestion: 'Only producers, factories and retailers can create transfers.',
+  },
+  INVALID_ROLE_TRANSFER: {
+    title: 'Transfer not allowed for these roles',
+    explanation: 'Tokens flow Producer → Factory → Retailer → Consumer; this recipient is not the next step.',
+    suggestion: 'Send the token to a participant with the next role in the chain.',
+  },
+  INVALID_TRANSFER_ID: {
+    title: 'Unknown transfer',
+    explanation: 'No transfer exists with this ID.',
+    suggestion: 'Reload the transfers list and try again.',
+  },
+  ONLY_RECIPIENT_CAN_ACCEPT: {
+    title: 'Not the recipient',
+    explanation: 'Only the recipient of a transfer can accept it.',
+    suggestion: 'Switch to the recipient account in your wallet.',
+  },
+  ONLY_RECIPIENT_CAN_REJECT: {
+    title: 'Not the recipient',
+    explanation: 'Only the recipient of a transfer can reject it.',
+    suggestion: 'Switch to the recipient account in your wallet.',
+  },
+  TRANSFER_NOT_PENDING: {
+    title: 'Transfer already resolved',
+    explanation: 'This transfer has already been accepted or rejected.',
+    suggestion: 'Reload the transfers list to see its current status.',
+  },
+  TOKEN_RECALLED: {
+    title: 'Token recalled',
+    explanation: 'This token, or a token it was made from, has been recalled and can no longer change hands.',
+    suggestion: 'Reject pending transfers of it and follow the recall instructions on the token page.',
+  },
+  ONLY_CREATOR_OR_ADMIN_CAN_RECALL: {
+    title: 'Not allowed to recall',
+    explanation: 'Only the creator of a token or the administrator can recall it.',
+    suggestion: 'Ask the creator of the token to issue the recall.',
+  },
+  RECALL_REASON_EMPTY: {
+    title: 'Reason required',
+    explanation: 'A recall must state why the token is recalled.',
+    suggestion: 'Describe the problem so holders know what to do.',
+  },
+  TOKEN_ALREADY_RECALLED: {
+    title: 'Already recalled',
+    explanation: 'This token has already been recalled.',
+    suggestion: 'Reload the page to see the existing recall.',
+  },
+  WALLET_NOT_INSTALLED: {
+    title: 'No wallet found',
+    explanation: 'A browser wallet is required to sign transactions.',
+    suggestion: 'Install a browser wallet (MetaMask, Rabby, Frame, Brave Wallet...) or pick one under Connect Wallet.',
+  },
+  USER_REJECTED: {
+    title: 'Request rejected',
+    explanation: 'The request was rejected in your wallet.',
+    suggestion: 'Try again and confirm the request in your wallet.',
+  },
+  INSUFFICIENT_FUNDS: {
+    title: 'Not enough ETH for gas',
+    explanation: 'The account cannot pay the gas for this transaction.',
+    suggestion: 'Fund the account with ETH and try again.',
+  },
+  OUT_OF_GAS: {
+    title: 'Out of gas',
+    explanation: 'The transaction ran out of gas before completing.',
+    suggestion: 'Try again and let the wallet estimate the gas limit.',
+  },
+  NONCE_ERROR: {
+    title: 'Nonce out of sync',
+    explanation: 'The wallet used a transaction nonce the network did not expect (common after restarting a local chain).',
+    suggestion: 'Reset the account activity in your wallet settings, then try again.',
+  },
+  NETWORK_ERROR: {
+    title: 'Network unavailable',
+    explanation: 'The blockchain node could not be reached.',
+    suggestion: 'Check that the node is running and your connection is online.',
+  },
+  TRANSACTION_REVERTED: {
+    title: 'Transaction reverted',
+    explanation: 'The transaction was mined but the contract rejected it.',
+    suggestion: 'Reload the page to refresh the data and try again.',
+  },
+  TRANSACTION_REPLACED: {
+    title: 'Transaction replaced',
+    explanation: 'The transaction was cancelled, or a different call with the same nonce was mined instead.',
+    suggestion: 'Check the transactions panel; resend the action if it is still needed.',
+  },
+  TRANSACTION_DROPPED: {
+    title: 'Transaction dropped',
+    explanation: 'The network discarded the transaction before it was mined.',
+    suggestion: 'Send the action again.',
+  },
+  UNKNOWN: {
+    title: 'Something went wrong',
+    explanation: 'The request failed for an unexpected reason.',
+    suggestion: 'Try again; if it keeps failing, check the browser console for details.',
+  },
+};
+
+/**
+ * Decoded, user-facing error
+ * message combines the explanation and the suggested fix
+ */
+export class ContractError extends Error {
+  readonly code: ErrorCode;
+  readonly title: string;
+  readonly explanation: string;
+  readonly suggestion: string;
+  /** Raw revert reason or original error message */
+  readonly reason?: string;
+
+  constructor(code: ErrorCode, reason?: string) {
+    const entry = ERROR_CATALOG[code];
+    super(`${entry.explanation} ${entry.suggestion}`);
+    this.name = 'ContractError';
+    this.code = code;
+    this.title = entry.title;
+    this.explanation = entry.explanation;
+    this.suggestion = entry.suggestion;
+    this.reason = reason;
+  }
+}
+
+// ============================================
+// DECODING
+// ============================================
+
+/**
+ * Decode an Error(string) revert payload
+ */
+function decodeRevertData(data: unknown): string | null {
+  if (typeof data !== 'string' || !data.startsWith(ERROR_STRING_SELECTOR)) return null;
+  try {
+    const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], `0x${data.slice(10)}`);
+    return reason as string;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Walk an error and the errors wrapped inside it (wallets nest the RPC error)
+ */
+function collectErrors(error: unknown): Record<string, unknown>[] {
+  const found: Record<string, unknown>[] = [];
+  const queue: unknown[] = [error];
+  while (queue.length > 0 && found.length < 10) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object' || found.includes(current as Record<string, unknown>)) continue;
+    const record = current as Record<string, unknown>;
+    found.push(record);
+    queue.push(record.error, record.cause, record.data, (record.info as Record<string, unknown> | undefined)?.error);
+  }
+  return found;
+}
+
+/**
+ * Extract the revert reason string from an ethers/wallet error
+ */
+function extractRevertReason(error: unknown): string | null {
+  for (const record of collectErrors(error)) {
+    if (typeof record.reason === 'string' && record.reason) return record.reason;
+
+    const decoded = decodeRevertData(record.data);
+    if (decoded) return decoded;
+
+    if (typeof record.message === 'string') {
+      const match = record.message.match(/reverted(?: with reason string)?:?\s*['"]?([^'"\n(]+)/);
+      if (match) return match[1].trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a revert reason to an error code, tolerating extra wording around it
+ */
+function matchRevertReason(reason: string): ErrorCode | null {
+  if (REVERT_REASONS[reason]) return REVERT_REASONS[reason];
+  // Longest first so "Invalid role transfer" wins over "Invalid role"
+  const known = Object.keys(REVERT_REASONS)
+    .sort((a, b) => b.length - a.length)
+    .find((message) => reason.includes(message));
+  return known ? REVERT_REASONS[known] : null;
+}
+
+/**
+ * Turn anything thrown by ethers, the wallet or the contract into a ContractError
+ */
+export function decodeContractError(error: unknown): ContractError {
+  if (error instanceof ContractError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isError(error, 'ACTION_REJECTED') || /user (rejected|denied)/i.test(message)) {
+    return new ContractError('USER_REJECTED', message);
+  }
+  if (message.includes('No wallet selected')) {
+    return new ContractError('WALLET_NOT_INSTALLED', message);
+  }
+
+  const reason = extractRevertReason(error);
+  if (reason) {
+    const code = matchRevertReason(reason);
+    if (code) return new ContractError(code, reason);
+  }
+
+  if (isError(error, 'INSUFFICIENT_FUNDS') || /insufficient funds/i.test(message)) {
+    return new ContractError('INSUFFICIENT_FUNDS', message);
+  }
+  if (/out of gas|intrinsic gas too low|gas required exceeds/i.test(message)) {
+    return new ContractError('OUT_OF_GAS', message);
+  }
+  if (
+    isError(error, 'NONCE_EXPIRED') ||
+    isError(error, 'REPLACEMENT_UNDERPRICED') ||
+    /nonce (too (low|high)|has already been used)|invalid nonce/i.test(message)
+  ) {
+    return new ContractError('NONCE_ERROR', message);
+  }
+  if (isError(error, 'TRANSACTION_REPLACED')) {
+    return new ContractError('TRANSACTION_REPLACED', message);
+  }
+  if (isError(error, 'NETWORK_ERROR') || isError(error, 'TIMEOUT') || /failed to fetch|ECONNREFUSED/i.test(message)) {
+    return new ContractError('NETWORK_ERROR', message);
+  }
+  if (isError(error, 'CALL_EXCEPTION')) {
+    return new ContractError('TRANSACTION_REVERTED', reason ?? message);
+  }
+  return new ContractError('UNKNOWN', message);
+}
@@ -0,0 +1,52 @@
+/**
+ * File Export Helpers
+ * Build CSV/JSON documents and hand them to the browser as downloads
+ */
+
+type CellValue = string | number | bigint | boolean | null | undefined;
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break
+ */
+function escapeCell(value: CellValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV document with a header row
+ */
+export function toCSV(headers: string[], rows: CellValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(',')).join('\n');
+}
+
+/**
+ * JSON document; bigints (uint256 values) are written as decimal strings
+ */
+export function toJSON(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+/**
+ * Save a document through a temporary object URL
+ */
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  saveURL(filename, url);
+  // Revoke once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Save a data: URL (e.g. a rendered PNG)
+ */
+export function downloadDataURL(filename: string, dataUrl: string) {
+  saveURL(filename, dataUrl);
+}
+
+function saveURL(filename: string, url: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+}
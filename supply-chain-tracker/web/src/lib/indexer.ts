@@ -0,0 +1,591 @@
+import { getAddress } from 'ethers';
+import { web3Service } from '@/lib/web3';
+import {
+  Recall,
+  Token,
+  TokenHolder,
+  TokenWithBalance,
+  Transfer,
+  TransferStatus,
+  TransferWithToken,
+  UserStatus,
+} from '@/contracts/models';
+import type { SupplyChainEventLog } from '@/contracts/types';
+import { compareBigInt } from '@/lib/utils';
+
+/**
+ * IndexedDB database name and version
+ */
+const DB_NAME = 'supply-chain-indexer';
+const DB_VERSION = 1;
+
+/**
+ * Maximum block range per eth_getLogs request
+ */
+const BLOCK_CHUNK_SIZE = 2000;
+
+/**
+ * Indexed token (TokenCreated + getToken details)
+ */
+export interface IndexedToken extends Token {
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Indexed transfer (TransferRequested, updated by TransferAccepted/TransferRejected)
+ */
+export interface IndexedTransfer extends Transfer {
+  blockNumber: number;
+  txHash: string;
+  resolvedAt?: number;
+  resolvedBlockNumber?: number;
+  resolvedTxHash?: string;
+}
+
+/**
+ * Indexed recall (TokenRecalled), only on the recalled token itself
+ */
+export interface IndexedRecall extends Recall {
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Indexed user (UserRoleRequested, updated by UserStatusChanged)
+ */
+export interface IndexedUser {
+  address: string;
+  role: string;
+  status: UserStatus;
+  requestedAt: number;
+  updatedAt: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Stored token record
+ * IndexedDB cannot key or index bigints, so uint256 keys are kept as decimal strings
+ */
+interface StoredToken extends IndexedToken {
+  key: string;
+  parentKey: string;
+}
+
+/**
+ * Stored transfer record (see StoredToken)
+ */
+interface StoredTransfer extends IndexedTransfer {
+  key: string;
+  tokenKey: string;
+}
+
+/**
+ * Stored recall record (see StoredToken)
+ */
+interface StoredRecall extends IndexedRecall {
+  key: string;
+}
+
+/**
+ * Balance of a token for an address, derived from creations and accepted transfers
+ */
+interface IndexedBalance {
+  key: string;
+  tokenKey: string;
+  tokenId: bigint;
+  address: string;
+  balance: bigint;
+}
+
+/**
+ * Indexing cursor, used to resume and to detect resets/reorgs
+ */
+interface IndexerCursor {
+  key: 'cursor';
+  chainId: number;
+  contractAddress: string;
+  lastBlock: number;
+  lastBlockHash: string;
+}
+
+type StoreName = 'tokens' | 'transfers' | 'users' | 'balances' | 'recalls' | 'meta';
+
+const STORE_NAMES: StoreName[] = ['tokens', 'transfers', 'users', 'balances', 'recalls', 'meta'];
+
+// ============================================
+// INDEXEDDB HELPERS
+// ============================================
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Open (and create/upgrade) the indexer database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      // The store is a cache of chain events: drop older schemas and reindex
+      Array.from(db.objectStoreNames).forEach((name) => db.deleteObjectStore(name));
+
+      const tokens = db.createObjectStore('tokens', { keyPath: 'key' });
+      tokens.createIndex('creator', 'creator');
+      tokens.createIndex('parentKey', 'parentKey');
+
+      const transfers = db.createObjectStore('transfers', { keyPath: 'key' });
+      transfers.createIndex('from', 'from');
+      transfers.createIndex('to', 'to');
+      transfers.createIndex('tokenKey', 'tokenKey');
+
+      db.createObjectStore('users', { keyPath: 'address' });
+
+      const balances = db.createObjectStore('balances', { keyPath: 'key' });
+      balances.createIndex('address', 'address');
+      balances.createIndex('tokenKey', 'tokenKey');
+
+      db.createObjectStore('recalls', { keyPath: 'key' });
+
+      db.createObjectStore('meta', { keyPath: 'key' });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store key for a uint256 ID
+ */
+function idKey(id: bigint): string {
+  return id.toString();
+}
+
+/**
+ * Key for the balances store
+ */
+function balanceKey(tokenId: bigint, address: string): string {
+  return `${tokenId}:${address}`;
+}
+
+/**
+ * SupplyChain Event Indexer
+ * Replays contract events into IndexedDB and answers queries from the local store
+ * Singleton pattern, resumes from the last indexed block
+ */
+class SupplyChainIndexer {
+  private db: Promise<IDBDatabase> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  /**
+   * Get (lazily open) the database
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase().catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  // ============================================
+  // SYNCHRONIZATION
+  // ============================================
+
+  /**
+   * Index all new events up to the latest block
+   * Concurrent calls share the same run
+   */
+  async sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Clear the local store (next sync reindexes from the deploy block)
+   */
+  async reset(): Promise<void> {
+    const db = await this.getDatabase();
+    const tx = db.transaction(STORE_NAMES, 'readwrite');
+    STORE_NAMES.forEach((name) => tx.objectStore(name).clear());
+    await transactionDone(tx);
+  }
+
+  private async runSync() {
+    const db = await this.getDatabase();
+    let cursor = await this.getCursor(db);
+    const head = await web3Service.getBlockNumber();
+
+    // Discard the store if it belongs to another deployment or the chain was reset/reorged
+    if (cursor && !(await this.isCursorValid(cursor, head))) {
+      console.warn('Indexer: chain reset or reorg detected, reindexing');
+      await this.reset();
+      cursor = null;
+    }
+
+    const deployment = web3Service.getDeployment();
+    let fromBlock = cursor ? cursor.lastBlock + 1 : deployment.deployBlock;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + BLOCK_CHUNK_SIZE - 1, head);
+      const events = await web3Service.getContractEvents(fromBlock, toBlock);
+      const lastBlock = await web3Service.getBlockInfo(toBlock);
+      if (!lastBlock) {
+        throw new Error(`Block ${toBlock} not found`);
+      }
+
+      await this.applyEvents(db, events, {
+        key: 'cursor',
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress,
+        lastBlock: toBlock,
+        lastBlockHash: lastBlock.hash,
+      });
+
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  /**
+   * Check the stored cursor against the current chain
+   */
+  private async isCursorValid(cursor: IndexerCursor, head: number): Promise<boolean> {
+    const deployment = web3Service.getDeployment();
+    if (cursor.chainId !== deployment.chainId) return false;
+    if (cursor.contractAddress.toLowerCase() !== deployment.contractAddress.toLowerCase()) return false;
+
+    // Chain is shorter than what we indexed (e.g. Anvil restarted)
+    if (cursor.lastBlock > head) return false;
+
+    // Last indexed block was replaced
+    const block = await web3Service.getBlockInfo(cursor.lastBlock);
+    return block?.hash === cursor.lastBlockHash;
+  }
+
+  /**
+   * Apply a chunk of events and advance the cursor in a single transaction
+   */
+  private async applyEvents(db: IDBDatabase, events: SupplyChainEventLog[], cursor: IndexerCursor) {
+    // Fetch block timestamps and token details before opening the transaction
+    // (IndexedDB transactions auto-commit across awaits on other promises)
+    const blockNumbers = [...new Set(events.map((e) => e.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map((n) => web3Service.getBlockInfo(n)));
+    const timestamps = new Map(blockNumbers.map((n, i) => [n, blocks[i]?.timestamp ?? 0]));
+
+    const createdTokenIds = events
+      .filter((e) => e.eventName === 'TokenCreated')
+      .map((e) => e.args.tokenId);
+    const tokenDetails = await web3Service.getTokensBatch(createdTokenIds);
+    const tokensById = new Map(tokenDetails.map((t) => [t.id, t]));
+
+    // Parent and features only come from getToken: fail the chunk so it is retried
+    // rather than storing a derived product as raw material
+    const missing = createdTokenIds.filter((id) => !tokensById.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Details of token #${missing.join(', #')} not found`);
+    }
+
+    const tx = db.transaction(STORE_NAMES, 'readwrite');
+    const tokens = tx.objectStore('tokens');
+    const transfers = tx.objectStore('transfers');
+    const users = tx.objectStore('users');
+    const balances = tx.objectStore('balances');
+    const recalls = tx.objectStore('recalls');
+
+    const adjustBalance = async (tokenId: bigint, address: string, delta: bigint) => {
+      const key = balanceKey(tokenId, address);
+      const existing = await requestToPromise<IndexedBalance | undefined>(balances.get(key));
+      balances.put({
+        key,
+        tokenKey: idKey(tokenId),
+        tokenId,
+        address,
+        balance: (existing?.balance ?? 0n) + delta,
+      } satisfies IndexedBalance);
+    };
+
+    for (const event of events) {
+      const timestamp = timestamps.get(event.blockNumber) ?? 0;
+      const origin = { blockNumber: event.blockNumber, txHash: event.transactionHash };
+
+      switch (event.eventName) {
+        case 'TokenCreated': {
+          const id = event.args.tokenId;
+          const { parentId, features, dateCreated } = tokensById.get(id)!;
+          const creator = getAddress(event.args.creator);
+          const totalSupply = event.args.totalSupply;
+          tokens.put({
+            key: idKey(id),
+            parentKey: idKey(parentId),
+            id,
+            creator,
+            name: event.args.name,
+            totalSupply,
+            features,
+            parentId,
+            dateCreated,
+            ...origin,
+          } satisfies StoredToken);
+          await adjustBalance(id, creator, totalSupply);
+          break;
+        }
+
+        case 'TransferRequested': {
+          transfers.put({
+            key: idKey(event.args.transferId),
+            tokenKey: idKey(event.args.tokenId),
+            id: event.args.transferId,
+            from: getAddress(event.args.from),
+            to: getAddress(event.args.to),
+            tokenId: event.args.tokenId,
+            amount: event.args.amount,
+            status: TransferStatus.Pending,
+            dateCreated: timestamp,
+            ...origin,
+          } satisfies StoredTransfer);
+          break;
+        }
+
+        case 'TransferAccepted':
+        case 'TransferRejected': {
+          const transfer = await requestToPromise<StoredTransfer | undefined>(
+            transfers.get(idKey(event.args.transferId))
+          );
+          if (!transfer) break;
+
+          const accepted = event.eventName === 'TransferAccepted';
+          transfers.put({
+            ...transfer,
+            status: accepted ? TransferStatus.Accepted : TransferStatus.Rejected,
+            resolvedAt: timestamp,
+            resolvedBlockNumber: event.blockNumber,
+            resolvedTxHash: event.transactionHash,
+          } satisfies StoredTransfer);
+
+          if (accepted) {
+            await adjustBalance(transfer.tokenId, transfer.from, -transfer.amount);
+            await adjustBalance(transfer.tokenId, transfer.to, transfer.amount);
+          }
+          break;
+        }
+
+        case 'TokenRecalled': {
+          recalls.put({
+            key: idKey(event.args.tokenId),
+            tokenId: event.args.tokenId,
+            recalledBy: getAddress(event.args.recalledBy),
+            reason: event.args.reason,
+            dateRecalled: timestamp,
+            ...origin,
+          } satisfies StoredRecall);
+          break;
+        }
+
+        case 'UserRoleRequested': {
+          users.put({
+            address: getAddress(event.args.user),
+            role: event.args.role,
+            status: UserStatus.Pending,
+            requestedAt: timestamp,
+            updatedAt: timestamp,
+            ...origin,
+          } satisfies IndexedUser);
+          break;
+        }
+
+        case 'UserStatusChanged': {
+          const address = getAddress(event.args.user);
+          const user = await requestToPromise<IndexedUser | undefined>(users.get(address));
+          if (!user) break;
+          users.put({
+            ...user,
+            status: Number(event.args.status) as UserStatus,
+            updatedAt: timestamp,
+          } satisfies IndexedUser);
+          break;
+        }
+      }
+    }
+
+    tx.objectStore('meta').put(cursor);
+    await transactionDone(tx);
+  }
+
+  private async getCursor(db: IDBDatabase): Promise<IndexerCursor | null> {
+    const tx = db.transaction('meta', 'readonly');
+    const cursor = await requestToPromise<IndexerCursor | undefined>(tx.objectStore('meta').get('cursor'));
+    return cursor ?? null;
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  /**
+   * Read all records of a store, optionally through an index
+   */
+  private async getAll<T>(store: StoreName, index?: string, query?: IDBValidKey): Promise<T[]> {
+    const db = await this.getDatabase();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const source = index ? objectStore.index(index) : objectStore;
+    return await requestToPromise<T[]>(source.getAll(query));
+  }
+
+  /**
+   * Get the last indexed block number (null if nothing indexed yet)
+   */
+  async getLastIndexedBlock(): Promise<number | null> {
+    const db = await this.getDatabase();
+    const cursor = await this.getCursor(db);
+    return cursor?.lastBlock ?? null;
+  }
+
+  /**
+   * Get a token by ID
+   */
+  async getToken(tokenId: bigint): Promise<IndexedToken | null> {
+    const db = await this.getDatabase();
+    const tx = db.transaction('tokens', 'readonly');
+    const token = await requestToPromise<IndexedToken | undefined>(tx.objectStore('tokens').get(idKey(tokenId)));
+    return token ?? null;
+  }
+
+  /**
+   * Get all indexed tokens
+   */
+  async getTokens(): Promise<IndexedToken[]> {
+    const tokens = await this.getAll<IndexedToken>('tokens');
+    return tokens.sort((a, b) => compareBigInt(a.id, b.id));
+  }
+
+  /**
+   * Get tokens created by an address
+   */
+  async getTokensByCreator(address: string): Promise<IndexedToken[]> {
+    return await this.getAll<IndexedToken>('tokens', 'creator', getAddress(address));
+  }
+
+  /**
+   * Get tokens directly derived from a parent token
+   */
+  async getChildTokens(parentId: bigint): Promise<IndexedToken[]> {
+    return await this.getAll<IndexedToken>('tokens', 'parentKey', idKey(parentId));
+  }
+
+  /**
+   * Get tokens an address has held with current balances
+   * Equivalent to getUserTokens + getToken + getTokenBalance
+   */
+  async getPortfolio(address: string): Promise<(IndexedToken & TokenWithBalance)[]> {
+    const balances = await this.getAll<IndexedBalance>('balances', 'address', getAddress(address));
+    const tokens = await Promise.all(balances.map((b) => this.getToken(b.tokenId)));
+
+    return balances
+      .map((b, i) => (tokens[i] ? { ...tokens[i]!, balance: b.balance } : null))
+      .filter((t): t is IndexedToken & TokenWithBalance => t !== null)
+      .sort((a, b) => compareBigInt(a.id, b.id));
+  }
+
+  /**
+   * Get current holders of a token (addresses with a positive balance)
+   */
+  async getTokenHolders(tokenId: bigint): Promise<TokenHolder[]> {
+    const balances = await this.getAll<IndexedBalance>('balances', 'tokenKey', idKey(tokenId));
+    return balances
+      .filter((b) => b.balance > 0n)
+      .map((b) => ({ address: b.address, balance: b.balance }));
+  }
+
+  /**
+   * Get all transfers sent or received by an address
+   * Sorted by dateCreated (most recent first)
+   */
+  async getTransfersForAccount(address: string): Promise<IndexedTransfer[]> {
+    const checksummed = getAddress(address);
+    const [sent, received] = await Promise.all([
+      this.getAll<IndexedTransfer>('transfers', 'from', checksummed),
+      this.getAll<IndexedTransfer>('transfers', 'to', checksummed),
+    ]);
+
+    const byId = new Map([...sent, ...received].map((t) => [t.id, t]));
+    return [...byId.values()].sort((a, b) => b.dateCreated - a.dateCreated || compareBigInt(b.id, a.id));
+  }
+
+  /**
+   * Get all transfers of a token, oldest first
+   */
+  async getTransfersForToken(tokenId: bigint): Promise<IndexedTransfer[]> {
+    const transfers = await this.getAll<IndexedTransfer>('transfers', 'tokenKey', idKey(tokenId));
+    return transfers.sort((a, b) => compareBigInt(a.id, b.id));
+  }
+
+  /**
+   * Get transfers involving an address with their token names
+   * Equivalent to web3Service.getUserTransferHistory
+   */
+  async getTransferHistory(address: string): Promise<(IndexedTransfer & TransferWithToken)[]> {
+    const transfers = await this.getTransfersForAccount(address);
+    const tokenIds = [...new Set(transfers.map((t) => t.tokenId))];
+    const tokens = await Promise.all(tokenIds.map((id) => this.getToken(id)));
+    const tokenNames = new Map(tokenIds.map((id, i) => [id, tokens[i]?.name ?? `Token #${id}`]));
+
+    return transfers.map((transfer) => ({
+      ...transfer,
+      tokenName: tokenNames.get(transfer.tokenId)!,
+    }));
+  }
+
+  /**
+   * Get all recalls, in the order they were issued
+   * Each applies to its token and every token derived from it
+   */
+  async getRecalls(): Promise<IndexedRecall[]> {
+    const recalls = await this.getAll<IndexedRecall>('recalls');
+    return recalls.sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  /**
+   * Get all registered users
+   */
+  async getUsers(): Promise<IndexedUser[]> {
+    const users = await this.getAll<IndexedUser>('users');
+    return users.sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+}
+
+// Export singleton instance
+export const indexer = new SupplyChainIndexer();
@@ -0,0 +1,369 @@
+import { formatNumber, truncateAddress } from '@/lib/utils';
+import { QR_MARGIN, toQRCodeMatrix } from '@/lib/qrcode';
+
+/**
+ * Product Labels
+ * Lays out printable labels for a token (name, ID, supply, features, creator and a
+ * verification QR code) on label sheets, and renders them as SVG or PDF in the browser
+ * All dimensions are in millimetres, font sizes in points
+ */
+
+// ============================================
+// Templates
+// ============================================
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  /** Size of one label */
+  width: number;
+  height: number;
+  /** Size of the printed page; equal to the label for roll (thermal) printers */
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  /** Position of the first label on the page */
+  marginTop: number;
+  marginLeft: number;
+  /** Space between neighbouring labels */
+  gapX: number;
+  gapY: number;
+}
+
+const LETTER = { pageWidth: 215.9, pageHeight: 279.4 };
+const A4 = { pageWidth: 210, pageHeight: 297 };
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 – 2⅝″ × 1″, 30 per Letter sheet',
+    width: 66.675,
+    height: 25.4,
+    ...LETTER,
+    columns: 3,
+    rows: 10,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0,
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 – 4″ × 2″, 10 per Letter sheet',
+    width: 101.6,
+    height: 50.8,
+    ...LETTER,
+    columns: 2,
+    rows: 5,
+    marginTop: 12.7,
+    marginLeft: 3.96875,
+    gapX: 4.7625,
+    gapY: 0,
+  },
+  {
+    id: 'avery-l7163',
+    name: 'Avery L7163 – 99.1 × 38.1 mm, 14 per A4 sheet',
+    width: 99.1,
+    height: 38.1,
+    ...A4,
+    columns: 2,
+    rows: 7,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'avery-l7165',
+    name: 'Avery L7165 – 99.1 × 67.7 mm, 8 per A4 sheet',
+    width: 99.1,
+    height: 67.7,
+    ...A4,
+    columns: 2,
+    rows: 4,
+    marginTop: 13.1,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'roll-2x1',
+    name: 'Thermal roll – 2″ × 1″',
+    width: 50.8,
+    height: 25.4,
+    pageWidth: 50.8,
+    pageHeight: 25.4,
+    columns: 1,
+    rows: 1,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: 'roll-4x6',
+    name: 'Thermal roll – 4″ × 6″ shipping',
+    width: 101.6,
+    height: 152.4,
+    pageWidth: 101.6,
+    pageHeight: 152.4,
+    columns: 1,
+    rows: 1,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+];
+
+/**
+ * Upper bound of labels per print job, keeps PDF generation responsive
+ */
+export const MAX_LABELS = 500;
+
+export function getLabelTemplate(id: string): LabelTemplate {
+  return LABEL_TEMPLATES.find((template) => template.id === id) ?? LABEL_TEMPLATES[0];
+}
+
+// ============================================
+// Layout
+// ============================================
+
+/**
+ * What goes on a label
+ */
+export interface LabelData {
+  tokenId: bigint;
+  name: string;
+  totalSupply: bigint;
+  creator: string;
+  features: Record<string, unknown>;
+  /** Target of the QR code */
+  url: string;
+}
+
+export interface LabelOptions {
+  template: LabelTemplate;
+  showSupply: boolean;
+  showCreator: boolean;
+  /** Keys of `features` printed on the label, in order */
+  featureKeys: string[];
+  copies: number;
+  /** Print "Unit n of copies" on each label */
+  numbered: boolean;
+}
+
+export type LabelElement =
+  | { kind: 'qr'; x: number; y: number; size: number; modules: boolean[][] }
+  /** y is the text baseline */
+  | { kind: 'text'; x: number; y: number; text: string; fontSize: number; bold: boolean };
+
+/**
+ * Labels positioned on pages, ready to render
+ */
+export interface PrintJob {
+  template: LabelTemplate;
+  pages: LabelElement[][];
+}
+
+const PT_TO_MM = 25.4 / 72;
+const LINE_HEIGHT = 1.25;
+const TITLE_SCALE = 1.3;
+const MIN_FONT_SIZE = 4.5;
+const MAX_FONT_SIZE = 10;
+
+/**
+ * Average Helvetica glyph width relative to the font size, used to shorten long lines
+ */
+const CHAR_WIDTH = { regular: 0.52, bold: 0.58 };
+
+/**
+ * Clip a line to the width available
+ * Printed text stays ASCII where we control it: the PDF standard fonts cover little beyond Latin-1
+ */
+function fitText(text: string, width: number, fontSize: number, bold: boolean): string {
+  const charWidth = fontSize * PT_TO_MM * (bold ? CHAR_WIDTH.bold : CHAR_WIDTH.regular);
+  const maxChars = Math.max(1, Math.floor(width / charWidth));
+  return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 3, 1))}...` : text;
+}
+
+/**
+ * Elements of one label with its top-left corner at (x, y)
+ * Wide labels put the QR code left of the text, tall ones above it
+ */
+function layoutLabel(
+  data: LabelData,
+  options: LabelOptions,
+  modules: boolean[][],
+  unit: number,
+  x: number,
+  y: number
+): LabelElement[] {
+  const { width, height } = options.template;
+  const padding = Math.min(Math.max(height * 0.08, 1.5), 4);
+  const stacked = height > width * 1.2;
+
+  const qrSize = stacked ? Math.min(width - 2 * padding, height * 0.55) : Math.min(height - 2 * padding, width * 0.45);
+  const qrX = stacked ? x + (width - qrSize) / 2 : x + padding;
+  const qrY = y + padding;
+
+  const textX = stacked ? x + padding : qrX + qrSize + padding / 2;
+  const textY = stacked ? qrY + qrSize + padding / 2 : y + padding;
+  const textWidth = x + width - padding - textX;
+  const textHeight = y + height - padding - textY;
+
+  const details = [options.showSupply ? `#${data.tokenId} - ${formatNumber(data.totalSupply)} units` : `#${data.tokenId}`];
+  for (const key of options.featureKeys) {
+    if (key in data.features) details.push(`${key}: ${String(data.features[key])}`);
+  }
+  if (options.showCreator) details.push(`Creator ${truncateAddress(data.creator)}`);
+  if (options.numbered && options.copies > 1) details.push(`Unit ${unit} of ${options.copies}`);
+
+  // Largest font at which the title and every detail line fit; drop lines at the minimum size
+  const lineUnits = TITLE_SCALE + details.length;
+  const fontSize = Math.min(
+    Math.max(textHeight / (lineUnits * LINE_HEIGHT * PT_TO_MM), MIN_FONT_SIZE),
+    MAX_FONT_SIZE
+  );
+  const lineHeight = fontSize * LINE_HEIGHT * PT_TO_MM;
+  const titleSize = fontSize * TITLE_SCALE;
+  const fittingLines = Math.floor((textHeight - titleSize * LINE_HEIGHT * PT_TO_MM) / lineHeight);
+
+  const elements: LabelElement[] = [{ kind: 'qr', x: qrX, y: qrY, size: qrSize, modules }];
+  let baseline = textY + titleSize * PT_TO_MM;
+  elements.push({ kind: 'text', x: textX, y: baseline, text: fitText(data.name, textWidth, titleSize, true), fontSize: titleSize, bold: true });
+  baseline += (titleSize - fontSize) * PT_TO_MM + lineHeight;
+  for (const line of details.slice(0, Math.max(fittingLines, 0))) {
+    elements.push({ kind: 'text', x: textX, y: baseline, text: fitText(line, textWidth, fontSize, false), fontSize, bold: false });
+    baseline += lineHeight;
+  }
+  return elements;
+}
+
+/**
+ * Lay out `options.copies` labels (capped at MAX_LABELS) across as many sheets as needed
+ */
+export function buildPrintJob(data: LabelData, options: LabelOptions): PrintJob {
+  const { template } = options;
+  const modules = toQRCodeMatrix(data.url);
+  const perPage = template.columns * template.rows;
+  const count = Math.min(Math.max(Math.floor(options.copies), 1), MAX_LABELS);
+
+  const pages: LabelElement[][] = [];
+  for (let index = 0; index < count; index++) {
+    const slot = index % perPage;
+    if (slot === 0) pages.push([]);
+    const x = template.marginLeft + (slot % template.columns) * (template.width + template.gapX);
+    const y = template.marginTop + Math.floor(slot / template.columns) * (template.height + template.gapY);
+    pages[pages.length - 1].push(...layoutLabel(data, { ...options, copies: count }, modules, index + 1, x, y));
+  }
+  return { template, pages };
+}
+
+/**
+ * A single label on its own page, for previews
+ */
+export function buildLabelPreview(data: LabelData, options: LabelOptions): PrintJob {
+  const template = {
+    ...options.template,
+    pageWidth: options.template.width,
+    pageHeight: options.template.height,
+    columns: 1,
+    rows: 1,
+    marginTop: 0,
+    marginLeft: 0,
+  };
+  return buildPrintJob(data, { ...options, template, copies: 1 });
+}
+
+/**
+ * Dark modules merged into horizontal runs: [row, column, length] in module units,
+ * offset by the quiet zone
+ */
+function qrRuns(modules: boolean[][]): [number, number, number][] {
+  const runs: [number, number, number][] = [];
+  modules.forEach((row, r) => {
+    let start = -1;
+    row.forEach((dark, c) => {
+      if (dark && start < 0) start = c;
+      if (start >= 0 && (!dark || c === row.length - 1)) {
+        const end = dark ? c + 1 : c;
+        runs.push([r + QR_MARGIN, start + QR_MARGIN, end - start]);
+        start = -1;
+      }
+    });
+  });
+  return runs;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * One SVG document per page, sized in millimetres for print
+ */
+export function toLabelSVGs(job: PrintJob): string[] {
+  const { pageWidth, pageHeight } = job.template;
+
+  return job.pages.map((elements) => {
+    const body = elements.map((element) => {
+      if (element.kind === 'text') {
+        const weight = element.bold ? ' font-weight="bold"' : '';
+        return `<text x="${round(element.x)}" y="${round(element.y)}" font-size="${round(element.fontSize * PT_TO_MM)}"${weight}>${escapeXML(element.text)}</text>`;
+      }
+      const scale = element.size / (element.modules.length + 2 * QR_MARGIN);
+      const path = qrRuns(element.modules)
+        .map(([row, col, length]) => `M${col} ${row}h${length}v1h-${length}z`)
+        .join('');
+      return `<path transform="translate(${round(element.x)} ${round(element.y)}) scale(${round(scale)})" d="${path}" shape-rendering="crispEdges"/>`;
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}mm" height="${pageHeight}mm" viewBox="0 0 ${pageWidth} ${pageHeight}">`,
+      `<rect width="${pageWidth}" height="${pageHeight}" fill="#fff"/>`,
+      '<g font-family="Helvetica, Arial, sans-serif" fill="#000">',
+      ...body,
+      '</g>',
+      '</svg>',
+    ].join('\n');
+  });
+}
+
+/**
+ * Multi-page PDF of the job (jsPDF is loaded on demand)
+ */
+export async function toLabelPDF(job: PrintJob): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const { pageWidth, pageHeight } = job.template;
+  const format = [pageWidth, pageHeight];
+  const orientation = pageWidth > pageHeight ? 'landscape' : 'portrait';
+
+  const doc = new jsPDF({ unit: 'mm', format, orientation });
+  job.pages.forEach((elements, index) => {
+    if (index > 0) doc.addPage(format, orientation);
+    doc.setFillColor(0, 0, 0);
+    for (const element of elements) {
+      if (element.kind === 'text') {
+        doc.setFont('helvetica', element.bold ? 'bold' : 'normal');
+        doc.setFontSize(element.fontSize);
+        doc.text(element.text, element.x, element.y);
+        continue;
+      }
+      const scale = element.size / (element.modules.length + 2 * QR_MARGIN);
+      for (const [row, col, length] of qrRuns(element.modules)) {
+        doc.rect(element.x + col * scale, element.y + row * scale, length * scale, scale, 'F');
+      }
+    }
+  });
+  return doc.output('blob');
+}
@@ -0,0 +1,110 @@
+import { Contract, Provider, isError } from 'ethers';
+
+/**
+ * Multicall3 aggregate3 ABI fragment
+ * Matches the canonical Multicall3 deployment and sc/src/Multicall3.sol
+ */
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+] as const;
+
+/**
+ * A single call to aggregate
+ */
+export interface Call {
+  target: string;
+  callData: string;
+}
+
+/**
+ * Result of an aggregated call
+ */
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Batches view calls through Multicall3 `aggregate3`
+ * Falls back to one eth_call per request when no Multicall3 is deployed
+ */
+export class MulticallBatcher {
+  private multicall: Contract;
+  private available: boolean | null = null;
+
+  constructor(
+    private provider: Provider,
+    private address: string,
+    private batchSize: number
+  ) {
+    this.multicall = new Contract(address, MULTICALL3_ABI, provider);
+  }
+
+  /**
+   * Check (once) whether Multicall3 is deployed at the configured address
+   * A failed check is not cached: the call falls back and the next one checks again
+   */
+  private async isAvailable(): Promise<boolean> {
+    if (this.available === null) {
+      let code: string;
+      try {
+        code = await this.provider.getCode(this.address);
+      } catch (error) {
+        console.warn(`Multicall3 check at ${this.address} failed, falling back to individual calls:`, error);
+        return false;
+      }
+      this.available = code !== '0x';
+      if (!this.available) {
+        console.warn(`Multicall3 not found at ${this.address}, falling back to individual calls`);
+      }
+    }
+    return this.available;
+  }
+
+  /**
+   * Execute calls, allowing individual failures
+   * Results are returned in the same order as the calls
+   */
+  async aggregate(calls: Call[]): Promise<CallResult[]> {
+    if (calls.length === 0) return [];
+
+    if (!(await this.isAvailable())) {
+      return await Promise.all(calls.map((call) => this.callDirect(call)));
+    }
+
+    const chunks: Call[][] = [];
+    for (let i = 0; i < calls.length; i += this.batchSize) {
+      chunks.push(calls.slice(i, i + this.batchSize));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (chunk) => {
+        const response = await this.multicall.aggregate3.staticCall(
+          chunk.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData }))
+        );
+        return response.map((result: CallResult) => ({
+          success: result.success,
+          returnData: result.returnData,
+        }));
+      })
+    );
+
+    return results.flat();
+  }
+
+  /**
+   * Execute a single call without Multicall3
+   * Only a revert counts as a failed call; network errors propagate as with aggregate3
+   */
+  private async callDirect(call: Call): Promise<CallResult> {
+    try {
+      const returnData = await this.provider.call({ to: call.target, data: call.callData });
+      return { success: true, returnData };
+    } catch (error) {
+      if (isError(error, 'CALL_EXCEPTION')) {
+        return { success: false, returnData: '0x' };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  TransferStatus,
+  type CustodyEvent,
+  type CustodyEventType,
+  type DerivedProduct,
+  type ProvenanceNode,
+  type Token,
+} from '@/contracts/models';
+import { indexer, type IndexedToken, type IndexedTransfer } from '@/lib/indexer';
+import { tokenQuery } from '@/lib/queries';
+import { queryCache } from '@/lib/query-cache';
+import { compareBigInt } from '@/lib/utils';
+import { web3Service } from '@/lib/web3';
+
+/**
+ * Provenance
+ * Upstream: walks the parentId links of a token back to its raw material
+ * (tokens are read through the shared cache, so ancestors already shown elsewhere are not refetched)
+ * Downstream and custody: the contract only stores parent links and per-account transfer lists,
+ * so derived products and a token's custody history come from the event index
+ */
+
+/**
+ * Lineage of a token: the token itself first, its raw material last
+ * The contract only accepts existing tokens as parents, so parent IDs always decrease
+ */
+export async function getLineage(tokenId: bigint): Promise<ProvenanceNode[]> {
+  const tokens: Token[] = [];
+  let token = await queryCache.fetch(tokenQuery(tokenId));
+  tokens.push(token);
+  while (token.parentId > 0n && token.parentId < token.id) {
+    token = await queryCache.fetch(tokenQuery(token.parentId));
+    tokens.push(token);
+  }
+
+  const roles = await getCreatorRoles(tokens);
+  return tokens.map((t) => ({ ...t, creatorRole: roles.get(t.creator.toLowerCase()) ?? null }));
+}
+
+/**
+ * Registered role of each creator, keyed by lowercase address
+ */
+async function getCreatorRoles(tokens: Token[]): Promise<Map<string, string>> {
+  const creators = [...new Set(tokens.map((t) => t.creator.toLowerCase()))];
+  const users = await Promise.all(creators.map((creator) => web3Service.getUserInfo(creator)));
+
+  const roles = new Map<string, string>();
+  users.forEach((user, i) => {
+    if (user) roles.set(creators[i], user.role);
+  });
+  return roles;
+}
+
+/**
+ * Products made from a token, recursively, with their current holders
+ */
+export async function getDescendants(tokenId: bigint): Promise<DerivedProduct[]> {
+  await indexer.sync();
+  return getDerivedProducts(tokenId);
+}
+
+async function getDerivedProducts(parentId: bigint): Promise<DerivedProduct[]> {
+  const children = await indexer.getChildTokens(parentId);
+  children.sort((a, b) => compareBigInt(a.id, b.id));
+
+  return Promise.all(
+    children.map(async ({ id, creator, name, totalSupply, features, parentId, dateCreated }) => {
+      const [holders, grandchildren] = await Promise.all([
+        indexer.getTokenHolders(id),
+        getDerivedProducts(id),
+      ]);
+      return {
+        id,
+        creator,
+        name,
+        totalSupply,
+        features,
+        parentId,
+        dateCreated,
+        holders: holders.sort((a, b) => compareBigInt(b.balance, a.balance)),
+        children: grandchildren,
+      };
+    })
+  );
+}
+
+/**
+ * Order of custody events mined in the same block
+ */
+const CUSTODY_EVENT_ORDER: Record<CustodyEventType, number> = {
+  Created: 0,
+  TransferRequested: 1,
+  TransferAccepted: 2,
+  TransferRejected: 2,
+};
+
+/**
+ * Every creation, transfer request and resolution of a token, oldest first,
+ * with the roles of the parties
+ */
+export async function getCustodyTimeline(tokenId: bigint): Promise<CustodyEvent[]> {
+  await indexer.sync();
+  const [token, transfers] = await Promise.all([indexer.getToken(tokenId), indexer.getTransfersForToken(tokenId)]);
+  return getCustodyEvents(token ? [token] : [], transfers);
+}
+
+/**
+ * Tokens and custody events behind a history export
+ */
+export interface CustodyHistory {
+  /** Tokens whose creation is part of the history */
+  tokens: IndexedToken[];
+  events: CustodyEvent[];
+}
+
+/**
+ * Creation and transfers of a token and of every ancestor it was made from
+ */
+export async function getLineageHistory(tokenId: bigint): Promise<CustodyHistory> {
+  await indexer.sync();
+  const tokens: IndexedToken[] = [];
+  let token = await indexer.getToken(tokenId);
+  while (token) {
+    tokens.push(token);
+    token = token.parentId > 0n && token.parentId < token.id ? await indexer.getToken(token.parentId) : null;
+  }
+
+  const transfers = await Promise.all(tokens.map((t) => indexer.getTransfersForToken(t.id)));
+  return { tokens, events: await getCustodyEvents(tokens, transfers.flat()) };
+}
+
+/**
+ * Tokens created by an account and every transfer it sent or received
+ */
+export async function getAccountHistory(address: string): Promise<CustodyHistory> {
+  await indexer.sync();
+  const [tokens, transfers] = await Promise.all([
+    indexer.getTokensByCreator(address),
+    indexer.getTransfersForAccount(address),
+  ]);
+  return { tokens, events: await getCustodyEvents(tokens, transfers) };
+}
+
+async function getCustodyEvents(tokens: IndexedToken[], transfers: IndexedTransfer[]): Promise<CustodyEvent[]> {
+  const users = await indexer.getUsers();
+  const roles = new Map(users.map((user) => [user.address, user.role]));
+  const roleOf = (address: string) => roles.get(address) ?? null;
+
+  const events: CustodyEvent[] = tokens.map((token) => ({
+    type: 'Created',
+    tokenId: token.id,
+    transferId: null,
+    from: null,
+    fromRole: null,
+    to: token.creator,
+    toRole: roleOf(token.creator),
+    amount: token.totalSupply,
+    timestamp: token.dateCreated,
+    blockNumber: token.blockNumber,
+    txHash: token.txHash,
+  }));
+
+  transfers.forEach((transfer) => {
+    const parties = {
+      tokenId: transfer.tokenId,
+      transferId: transfer.id,
+      from: transfer.from,
+      fromRole: roleOf(transfer.from),
+      to: transfer.to,
+      toRole: roleOf(transfer.to),
+      amount: transfer.amount,
+    };
+    events.push({
+      type: 'TransferRequested',
+      ...parties,
+      timestamp: transfer.dateCreated,
+      blockNumber: transfer.blockNumber,
+      txHash: transfer.txHash,
+    });
+    if (transfer.resolvedBlockNumber !== undefined && transfer.status !== TransferStatus.Pending) {
+      events.push({
+        type: transfer.status === TransferStatus.Accepted ? 'TransferAccepted' : 'TransferRejected',
+        ...parties,
+        timestamp: transfer.resolvedAt ?? transfer.dateCreated,
+        blockNumber: transfer.resolvedBlockNumber,
+        txHash: transfer.resolvedTxHash ?? '',
+      });
+    }
+  });
+
+  return events.sort(
+    (a, b) =>
+      a.blockNumber - b.blockNumber ||
+      CUSTODY_EVENT_ORDER[a.type] - CUSTODY_EVENT_ORDER[b.type] ||
+      compareBigInt(a.transferId ?? 0n, b.transferId ?? 0n) ||
+      compareBigInt(a.tokenId, b.tokenId)
+  );
+}
@@ -0,0 +1,77 @@
+import QRCode, { type QRCodeErrorCorrectionLevel } from 'qrcode';
+
+/**
+ * Medium error correction survives small scratches and print defects
+ * while keeping the code readable at label sizes
+ */
+const ERROR_CORRECTION: QRCodeErrorCorrectionLevel = 'M';
+
+/**
+ * Quiet zone around the code, in modules
+ */
+export const QR_MARGIN = 2;
+
+/**
+ * QR code as an SVG document (scales without loss, preferred for print)
+ */
+export function toQRCodeSVG(text: string): Promise<string> {
+  return QRCode.toString(text, { type: 'svg', errorCorrectionLevel: ERROR_CORRECTION, margin: QR_MARGIN });
+}
+
+/**
+ * QR code as a PNG data URL of the given width in pixels
+ */
+export function toQRCodePNG(text: string, width = 512): Promise<string> {
+  return QRCode.toDataURL(text, { type: 'image/png', errorCorrectionLevel: ERROR_CORRECTION, margin: QR_MARGIN, width });
+}
+
+/**
+ * Data URL of an SVG document, usable as an image source
+ */
+export function svgToDataURL(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Modules of the QR code (true = dark), row by row and without the quiet zone
+ * Lets renderers draw the code as vector shapes (e.g. into a PDF)
+ */
+export function toQRCodeMatrix(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: ERROR_CORRECTION });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => modules.get(row, col) === 1)
+  );
+}
+
+/**
+ * Longest side images are scaled down to before decoding; phone photos are far larger
+ * than a QR code needs and decoding time grows with the pixel count
+ */
+const MAX_DECODE_SIZE = 1600;
+
+/**
+ * Find and decode a QR code in an image (photo, screenshot or pasted clipboard image)
+ * Runs entirely in the browser; resolves to null when no code is found
+ */
+export async function decodeQRCodeImage(image: Blob): Promise<string | null> {
+  const { default: jsQR } = await import('jsqr');
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas is not supported by this browser');
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const { data } = context.getImageData(0, 0, width, height);
+    // Printed labels may be light-on-dark, try both
+    return jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })?.data ?? null;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,284 @@
+import type {
+  CustodyEvent,
+  DerivedProduct,
+  Page,
+  ProvenanceNode,
+  Recall,
+  SortOrder,
+  Statistics,
+  Token,
+  TokenWithBalance,
+  TransferWithToken,
+  User,
+} from '@/contracts/models';
+import { queryCache, type Query } from '@/lib/query-cache';
+import type { RecallReport } from '@/lib/recall';
+import type { AuthenticityResult, VerificationLink } from '@/lib/verification';
+
+/**
+ * Contract reads shared through the query cache
+ * Full lists come from the local event index (synced first), pages and single values from the contract
+ */
+
+const normalizeAddress = (address: string) => address.toLowerCase();
+
+export function tokenQuery(tokenId: bigint): Query<Token> {
+  return {
+    key: ['token', tokenId],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getToken(tokenId);
+    },
+    // Token details never change once created
+    staleTime: Infinity,
+  };
+}
+
+/**
+ * Lineage of a token, from the token itself back to its raw material
+ */
+export function provenanceQuery(tokenId: bigint): Query<ProvenanceNode[]> {
+  return {
+    key: ['provenance', tokenId],
+    fetch: async () => {
+      const { getLineage } = await import('@/lib/provenance');
+      return getLineage(tokenId);
+    },
+    // Parents and creator roles never change
+    staleTime: Infinity,
+  };
+}
+
+/**
+ * Products made from a token (recursively) and who holds them, from the local event index
+ */
+export function descendantsQuery(tokenId: bigint): Query<DerivedProduct[]> {
+  return {
+    key: ['descendants', tokenId],
+    fetch: async () => {
+      const { getDescendants } = await import('@/lib/provenance');
+      return getDescendants(tokenId);
+    },
+  };
+}
+
+/**
+ * Custody history of a token across all participants, from the local event index
+ */
+export function custodyQuery(tokenId: bigint): Query<CustodyEvent[]> {
+  return {
+    key: ['custody', tokenId],
+    fetch: async () => {
+      const { getCustodyTimeline } = await import('@/lib/provenance');
+      return getCustodyTimeline(tokenId);
+    },
+  };
+}
+
+/**
+ * Recall in effect for a token (its own or an ancestor's), read from the contract
+ */
+export function recallQuery(tokenId: bigint): Query<Recall | null> {
+  return {
+    key: ['recall', tokenId],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getRecall(tokenId);
+    },
+  };
+}
+
+/**
+ * Recall in effect for every recalled token, keyed by token ID, from the local event index
+ */
+export function recalledTokensQuery(): Query<Map<bigint, Recall>> {
+  return {
+    key: ['recalledTokens'],
+    fetch: async () => {
+      const { getRecalledTokens } = await import('@/lib/recall');
+      return getRecalledTokens();
+    },
+  };
+}
+
+/**
+ * Tokens and accounts affected by the recall of a token, from the local event index
+ */
+export function recallReportQuery(tokenId: bigint): Query<RecallReport> {
+  return {
+    key: ['recallReport', tokenId],
+    fetch: async () => {
+      const { getRecallReport } = await import('@/lib/recall');
+      return getRecallReport(tokenId);
+    },
+  };
+}
+
+/**
+ * Authenticity of a verification link against the active deployment
+ */
+export function authenticityQuery(link: VerificationLink): Query<AuthenticityResult> {
+  return {
+    key: ['authenticity', link.tokenId, link.chainId ?? '', link.contractAddress?.toLowerCase() ?? ''],
+    fetch: async () => {
+      const [{ web3Service }, { checkAuthenticity }] = await Promise.all([
+        import('@/lib/web3'),
+        import('@/lib/verification'),
+      ]);
+      return checkAuthenticity(link, web3Service.getDeployment());
+    },
+    // Tokens are never deleted
+    staleTime: Infinity,
+  };
+}
+
+export function tokenBalanceQuery(tokenId: bigint, address: string): Query<bigint> {
+  return {
+    key: ['tokenBalance', tokenId, normalizeAddress(address)],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getTokenBalance(tokenId, address);
+    },
+  };
+}
+
+export function portfolioQuery(address: string): Query<TokenWithBalance[]> {
+  return {
+    key: ['portfolio', normalizeAddress(address)],
+    fetch: async () => {
+      const { indexer } = await import('@/lib/indexer');
+      await indexer.sync();
+      return indexer.getPortfolio(address);
+    },
+  };
+}
+
+/**
+ * One page of an address's tokens, sliced and ordered by the contract
+ * Shares the portfolio prefix so balance changes invalidate every page
+ */
+export function tokensPageQuery(
+  address: string,
+  offset: number,
+  limit: number,
+  order: SortOrder
+): Query<Page<TokenWithBalance>> {
+  return {
+    key: ['portfolio', normalizeAddress(address), 'page', offset, limit, order],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getUserTokensPage(address, offset, limit, order);
+    },
+  };
+}
+
+export function transfersQuery(address: string): Query<TransferWithToken[]> {
+  return {
+    key: ['transfers', normalizeAddress(address)],
+    fetch: async () => {
+      const { indexer } = await import('@/lib/indexer');
+      await indexer.sync();
+      return indexer.getTransferHistory(address);
+    },
+  };
+}
+
+/**
+ * One page of an address's transfers, sliced and ordered by the contract
+ */
+export function transfersPageQuery(
+  address: string,
+  offset: number,
+  limit: number,
+  order: SortOrder
+): Query<Page<TransferWithToken>> {
+  return {
+    key: ['transfers', normalizeAddress(address), 'page', offset, limit, order],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getUserTransfersPage(address, offset, limit, order);
+    },
+  };
+}
+
+export function usersQuery(): Query<User[]> {
+  return {
+    key: ['users'],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getAllUsers();
+    },
+  };
+}
+
+export function statisticsQuery(): Query<Statistics> {
+  return {
+    key: ['statistics'],
+    fetch: async () => {
+      const { web3Service } = await import('@/lib/web3');
+      return web3Service.getStatistics();
+    },
+  };
+}
+
+// ============================================
+// INVALIDATION
+// ============================================
+
+/**
+ * A token was created: the creator holds a new token, which inherits any recall of its parent
+ */
+export function invalidateTokenCreated(creator: string) {
+  queryCache.invalidate(
+    ['portfolio', normalizeAddress(creator)],
+    ['statistics'],
+    ['descendants'],
+    ['recalledTokens'],
+    ['recallReport']
+  );
+}
+
+/**
+ * A token was recalled, along with every token made from it
+ */
+export function invalidateTokenRecalled() {
+  queryCache.invalidate(['recall'], ['recalledTokens'], ['recallReport']);
+}
+
+/**
+ * A transfer was requested, accepted or rejected
+ * Balances only move when it is accepted
+ */
+export function invalidateTransfer(
+  transfer: { from: string; to: string; tokenId: bigint },
+  balancesChanged: boolean
+) {
+  const parties = [normalizeAddress(transfer.from), normalizeAddress(transfer.to)];
+  queryCache.invalidate(
+    ['statistics'],
+    ['custody', transfer.tokenId],
+    ['recallReport'],
+    ...parties.map((address) => ['transfers', address])
+  );
+  if (balancesChanged) {
+    queryCache.invalidate(
+      ...parties.map((address) => ['portfolio', address]),
+      ...parties.map((address) => ['tokenBalance', transfer.tokenId, address]),
+      ['descendants']
+    );
+  }
+}
+
+/**
+ * A user registered or had their status changed
+ */
+export function invalidateUsers() {
+  queryCache.invalidate(['users'], ['statistics']);
+}
+
+/**
+ * Everything cached belongs to the previous network
+ */
+export function resetQueries() {
+  queryCache.clear();
+}
@@ -0,0 +1,176 @@
+/**
+ * Results older than this are refetched in the background when a component needs them
+ */
+const DEFAULT_STALE_TIME = 30_000;
+
+/**
+ * Cache key: scope first, then arguments (e.g. ['portfolio', address])
+ * Invalidation matches keys by prefix
+ */
+export type QueryKey = readonly (string | number | bigint)[];
+
+/**
+ * A cached read: its key, how to fetch it and how long a result stays fresh
+ */
+export interface Query<T> {
+  key: QueryKey;
+  fetch: () => Promise<T>;
+  staleTime?: number;
+}
+
+/**
+ * Current state of a cached read
+ * data is kept while refetching (stale-while-revalidate); error is the last fetch failure
+ */
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+interface CacheEntry {
+  key: string[];
+  state: QueryState<unknown>;
+  fetch: () => Promise<unknown>;
+  staleTime: number;
+  stale: boolean;
+  promise: Promise<unknown> | null;
+  listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, isFetching: false, updatedAt: 0 };
+
+const normalizeKey = (key: QueryKey) => key.map(String);
+
+const hashKey = (key: QueryKey) => JSON.stringify(normalizeKey(key));
+
+/**
+ * Query Cache
+ * Shares read results between components: concurrent requests for the same key
+ * are de-duplicated, stale results are served while being refetched, and writes
+ * invalidate only the keys they affect
+ * Singleton pattern, used through the hooks in hooks/use-data.ts
+ */
+class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Current state for a key (a shared empty state when nothing was fetched yet)
+   * The returned object only changes when the state does, as useSyncExternalStore requires
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashKey(key))?.state as QueryState<T>) ?? EMPTY_STATE;
+  }
+
+  /**
+   * Fetch a query, joining the request already in flight for the same key
+   */
+  fetch<T>(query: Query<T>): Promise<T> {
+    const entry = this.getEntry(query);
+    return (entry.promise ?? this.run(entry)) as Promise<T>;
+  }
+
+  /**
+   * Watch a query: the listener runs on every state change
+   * Fetches right away when there is no fresh result; returns an unsubscribe function
+   */
+  observe<T>(query: Query<T>, listener: () => void): () => void {
+    const entry = this.getEntry(query);
+    entry.listeners.add(listener);
+
+    const expired = Date.now() - entry.state.updatedAt > entry.staleTime;
+    if (!entry.promise && (entry.stale || expired)) {
+      this.run(entry).catch(() => {});
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Mark every key starting with one of the prefixes as stale
+   * Watched queries refetch immediately, the others on their next use
+   */
+  invalidate(...prefixes: QueryKey[]) {
+    const normalized = prefixes.map(normalizeKey);
+    this.entries.forEach((entry) => {
+      const matches = normalized.some((prefix) => prefix.every((part, i) => entry.key[i] === part));
+      if (!matches) return;
+
+      entry.stale = true;
+      if (entry.listeners.size > 0) {
+        this.run(entry).catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * Drop every result (e.g. after switching networks) and refetch the watched queries
+   */
+  clear() {
+    this.entries.forEach((entry, hash) => {
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+        return;
+      }
+      entry.stale = true;
+      this.setState(entry, EMPTY_STATE);
+      this.run(entry).catch(() => {});
+    });
+  }
+
+  private getEntry(query: Query<unknown>): CacheEntry {
+    const hash = hashKey(query.key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = {
+        key: normalizeKey(query.key),
+        state: EMPTY_STATE,
+        fetch: query.fetch,
+        staleTime: query.staleTime ?? DEFAULT_STALE_TIME,
+        stale: true,
+        promise: null,
+        listeners: new Set(),
+      };
+      this.entries.set(hash, entry);
+    }
+    // Keep the latest fetcher, it may close over newer arguments
+    entry.fetch = query.fetch;
+    return entry;
+  }
+
+  /**
+   * Start a fetch; a newer fetch for the same entry supersedes this one
+   */
+  private run(entry: CacheEntry): Promise<unknown> {
+    const promise = entry.fetch();
+    entry.promise = promise;
+    entry.stale = false;
+    this.setState(entry, { ...entry.state, isFetching: true });
+
+    promise.then(
+      (data) => {
+        if (entry.promise !== promise) return;
+        entry.promise = null;
+        this.setState(entry, { data, error: null, isFetching: false, updatedAt: Date.now() });
+      },
+      (error) => {
+        if (entry.promise !== promise) return;
+        entry.promise = null;
+        console.error(`Error fetching ${entry.key.join('/')}:`, error);
+        this.setState(entry, { ...entry.state, error, isFetching: false });
+      }
+    );
+    return promise;
+  }
+
+  private setState(entry: CacheEntry, state: QueryState<unknown>) {
+    entry.state = state;
+    entry.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const queryCache = new QueryCache();
@@ -0,0 +1,135 @@
+import { TransferStatus, type Recall, type TokenHolder } from '@/contracts/models';
+import { indexer, type IndexedRecall, type IndexedToken } from '@/lib/indexer';
+import { compareBigInt } from '@/lib/utils';
+
+/**
+ * Product Recalls
+ * The contract stores a recall on the recalled token only; every token made from it
+ * (through parentId, at any depth) is covered too. Single tokens are checked against the
+ * contract (see Web3Service.getRecall), lists and recall reports resolve every token
+ * from the event index
+ */
+
+/**
+ * Token covered by a recall, with its current holders
+ */
+export interface RecallReportToken {
+  id: bigint;
+  name: string;
+  parentId: bigint;
+  creator: string;
+  totalSupply: bigint;
+  holders: TokenHolder[];
+}
+
+/**
+ * Pending transfer of a recalled token: it can only be rejected now
+ */
+export interface RecallReportTransfer {
+  id: bigint;
+  tokenId: bigint;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Account holding a recalled token or party to a pending transfer of one
+ */
+export interface RecallReportAccount {
+  address: string;
+  /** null when the address never registered */
+  role: string | null;
+  holdings: { tokenId: bigint; balance: bigint }[];
+  pendingTransfers: RecallReportTransfer[];
+}
+
+export interface RecallReport {
+  generatedAt: string;
+  recall: IndexedRecall;
+  /** The recalled token first, then every token made from it by ID */
+  tokens: RecallReportToken[];
+  accounts: RecallReportAccount[];
+}
+
+/**
+ * Recall in effect for every recalled token, keyed by token ID
+ * Tokens inherit the recall of their nearest recalled ancestor
+ */
+export async function getRecalledTokens(): Promise<Map<bigint, Recall>> {
+  await indexer.sync();
+  const [tokens, recalls] = await Promise.all([indexer.getTokens(), indexer.getRecalls()]);
+  return resolveRecalls(tokens, recalls);
+}
+
+/**
+ * Parents are always created before their children, so walking tokens by ID
+ * resolves every parent's recall before its children's
+ */
+function resolveRecalls(tokens: IndexedToken[], recalls: IndexedRecall[]): Map<bigint, IndexedRecall> {
+  const issued = new Map(recalls.map((recall) => [recall.tokenId, recall]));
+  const resolved = new Map<bigint, IndexedRecall>();
+  for (const token of tokens) {
+    const recall = issued.get(token.id) ?? resolved.get(token.parentId);
+    if (recall) resolved.set(token.id, recall);
+  }
+  return resolved;
+}
+
+/**
+ * Every token and account affected by the recall in effect for a token
+ */
+export async function getRecallReport(tokenId: bigint): Promise<RecallReport> {
+  await indexer.sync();
+  const [tokens, recalls, users] = await Promise.all([indexer.getTokens(), indexer.getRecalls(), indexer.getUsers()]);
+  const recall = resolveRecalls(tokens, recalls).get(tokenId);
+  if (!recall) {
+    throw new Error(`Token #${tokenId} is not recalled`);
+  }
+
+  // The recalled token and everything made from it
+  const affected: IndexedToken[] = [];
+  const covered = new Set<bigint>();
+  for (const token of tokens) {
+    if (token.id === recall.tokenId || covered.has(token.parentId)) {
+      affected.push(token);
+      covered.add(token.id);
+    }
+  }
+
+  const [holders, transfers] = await Promise.all([
+    Promise.all(affected.map((token) => indexer.getTokenHolders(token.id))),
+    Promise.all(affected.map((token) => indexer.getTransfersForToken(token.id))),
+  ]);
+
+  const roles = new Map(users.map((user) => [user.address, user.role]));
+  const accounts = new Map<string, RecallReportAccount>();
+  const accountOf = (address: string) => {
+    let account = accounts.get(address);
+    if (!account) {
+      account = { address, role: roles.get(address) ?? null, holdings: [], pendingTransfers: [] };
+      accounts.set(address, account);
+    }
+    return account;
+  };
+
+  const reportTokens = affected.map(({ id, name, parentId, creator, totalSupply }, i) => {
+    const tokenHolders = holders[i].sort((a, b) => compareBigInt(b.balance, a.balance));
+    tokenHolders.forEach(({ address, balance }) => accountOf(address).holdings.push({ tokenId: id, balance }));
+    transfers[i]
+      .filter((transfer) => transfer.status === TransferStatus.Pending)
+      .forEach(({ id: transferId, from, to, amount }) => {
+        const pending = { id: transferId, tokenId: id, from, to, amount };
+        accountOf(from).pendingTransfers.push(pending);
+        accountOf(to).pendingTransfers.push(pending);
+      });
+    return { id, name, parentId, creator, totalSupply, holders: tokenHolders };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    recall,
+    tokens: reportTokens,
+    accounts: [...accounts.values()],
+  };
+}
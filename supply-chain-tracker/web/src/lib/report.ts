@@ -0,0 +1,261 @@
+import { keccak256, toUtf8Bytes, verifyMessage } from 'ethers';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import type { CustodyEvent } from '@/contracts/models';
+import { toJSON } from '@/lib/export';
+import { formatDate, formatNumber, getStatusLabel } from '@/lib/utils';
+
+/**
+ * Chain of Custody Report
+ * A JSON bundle of a token's ancestry, custody events and participants, hashed and signed
+ * by the exporting account (EIP-191), plus a printable PDF of the same data
+ *
+ * The hash is keccak256 over the UTF-8 JSON of `report` as written in the bundle
+ * (2-space indentation, uint256 values as decimal strings), so a recipient can recompute
+ * it from the file, check it against the signed message and recover the signer
+ */
+
+export interface ReportToken {
+  id: bigint;
+  name: string;
+  parentId: bigint;
+  creator: string;
+  totalSupply: bigint;
+  /** Features JSON exactly as stored on-chain */
+  features: string;
+  dateCreated: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface ReportParticipant {
+  address: string;
+  /** null when the address never registered */
+  role: string | null;
+  status: string | null;
+}
+
+export interface ProvenanceReport {
+  version: 1;
+  generatedAt: string;
+  network: {
+    chainId: number;
+    chainName: string;
+    contractAddress: string;
+  };
+  tokenId: bigint;
+  /** The token first, its raw material last */
+  ancestry: ReportToken[];
+  /** Creations and transfers of every token in the ancestry, oldest first */
+  custody: CustodyEvent[];
+  participants: ReportParticipant[];
+}
+
+export interface ReportSignature {
+  scheme: 'EIP-191';
+  hash: string;
+  message: string;
+  signer: string;
+  signature: string;
+}
+
+export interface SignedProvenanceReport {
+  report: ProvenanceReport;
+  signature: ReportSignature;
+}
+
+export type ReportVerification =
+  | { valid: true; signer: string; tokenId: string; chainId: number; generatedAt: string }
+  | { valid: false; reason: string };
+
+/**
+ * Collect the report of a token from the event index
+ */
+export async function buildProvenanceReport(tokenId: bigint, deployment: NetworkDeployment): Promise<ProvenanceReport> {
+  const [{ getLineageHistory }, { indexer }] = await Promise.all([
+    import('@/lib/provenance'),
+    import('@/lib/indexer'),
+  ]);
+  const [history, users] = await Promise.all([getLineageHistory(tokenId), indexer.getUsers()]);
+  if (history.tokens.length === 0) {
+    throw new Error(`Token #${tokenId} has not been indexed yet`);
+  }
+
+  const addresses = new Set<string>();
+  history.tokens.forEach((token) => addresses.add(token.creator));
+  history.events.forEach((event) => {
+    if (event.from) addresses.add(event.from);
+    addresses.add(event.to);
+  });
+  const usersByAddress = new Map(users.map((user) => [user.address, user]));
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    network: {
+      chainId: deployment.chainId,
+      chainName: deployment.chainName,
+      contractAddress: deployment.contractAddress,
+    },
+    tokenId,
+    ancestry: history.tokens.map(({ id, name, parentId, creator, totalSupply, features, dateCreated, blockNumber, txHash }) => ({
+      id,
+      name,
+      parentId,
+      creator,
+      totalSupply,
+      features,
+      dateCreated,
+      blockNumber,
+      txHash,
+    })),
+    custody: history.events,
+    participants: [...addresses].map((address) => {
+      const user = usersByAddress.get(address);
+      return { address, role: user?.role ?? null, status: user ? getStatusLabel(user.status) : null };
+    }),
+  };
+}
+
+/**
+ * Hash of the report as serialized in the bundle
+ * Works on a freshly built report and on one parsed back from a file alike
+ */
+function hashReport(report: unknown): string {
+  return keccak256(toUtf8Bytes(toJSON(report)));
+}
+
+/**
+ * Text the exporting account signs; readable in the wallet prompt
+ */
+function getSignedMessage(tokenId: bigint | string, chainId: number, hash: string): string {
+  return `SupplyChain chain of custody report\nToken #${tokenId} on chain ${chainId}\nReport hash: ${hash}`;
+}
+
+/**
+ * Hash the report and have the connected wallet sign it
+ */
+export async function signProvenanceReport(report: ProvenanceReport): Promise<SignedProvenanceReport> {
+  const { web3Service } = await import('@/lib/web3');
+  const hash = hashReport(report);
+  const message = getSignedMessage(report.tokenId, report.network.chainId, hash);
+  const signature = await web3Service.signMessage(message);
+
+  return {
+    report,
+    signature: { scheme: 'EIP-191', hash, message, signer: verifyMessage(message, signature), signature },
+  };
+}
+
+/**
+ * Check a bundle read from a file: the report is unchanged and signed by the stated account
+ */
+export function verifyProvenanceReport(bundle: unknown): ReportVerification {
+  const { report, signature } = (bundle ?? {}) as Partial<{ report: ProvenanceReport; signature: ReportSignature }>;
+  if (!report || typeof report !== 'object' || !report.network || !signature || typeof signature.signature !== 'string') {
+    return { valid: false, reason: 'This file is not a signed chain of custody report' };
+  }
+
+  const hash = hashReport(report);
+  if (hash !== signature.hash) {
+    return { valid: false, reason: 'The report was modified after it was signed' };
+  }
+  if (signature.message !== getSignedMessage(report.tokenId, report.network.chainId, hash)) {
+    return { valid: false, reason: 'The signed message does not match the report' };
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(signature.message, signature.signature);
+  } catch {
+    return { valid: false, reason: 'The signature is malformed' };
+  }
+  if (signer.toLowerCase() !== String(signature.signer).toLowerCase()) {
+    return { valid: false, reason: `The report was signed by ${signer}, not by ${signature.signer}` };
+  }
+
+  return {
+    valid: true,
+    signer,
+    tokenId: report.tokenId.toString(),
+    chainId: report.network.chainId,
+    generatedAt: report.generatedAt,
+  };
+}
+
+// ============================================
+// PDF
+// ============================================
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 1.35;
+const PT_TO_MM = 25.4 / 72;
+
+/**
+ * Printable version of a signed report (jsPDF is loaded on demand)
+ */
+export async function toReportPDF({ report, signature }: SignedProvenanceReport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = doc.internal.pageSize.getWidth() - 2 * PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const write = (text: string, { size = 9, bold = false, mono = false, indent = 0 } = {}) => {
+    doc.setFont(mono ? 'courier' : 'helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lineHeight = size * LINE_HEIGHT * PT_TO_MM;
+    for (const line of doc.splitTextToSize(text, textWidth - indent) as string[]) {
+      if (y + lineHeight > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      y += lineHeight;
+      doc.text(line, PAGE_MARGIN + indent, y);
+    }
+  };
+  const heading = (text: string) => {
+    y += 4;
+    write(text, { size: 12, bold: true });
+    y += 1;
+  };
+
+  const token = report.ancestry[0];
+  const roles = new Map(report.participants.map((p) => [p.address, p.role]));
+  const party = (address: string) => `${address} (${roles.get(address) ?? 'unregistered'})`;
+
+  write('Chain of Custody Report', { size: 18, bold: true });
+  write(`${token.name} - token #${report.tokenId}`, { size: 12 });
+  write(`Generated ${report.generatedAt} on ${report.network.chainName} (chain ${report.network.chainId})`);
+  write(`SupplyChain contract ${report.network.contractAddress}`);
+
+  heading('Ancestry');
+  report.ancestry.forEach((t, index) => {
+    write(`${index === 0 ? 'Product' : `Ancestor ${index}`}: ${t.name} (#${t.id})`, { bold: true });
+    write(`Created ${formatDate(t.dateCreated)} by ${party(t.creator)}`, { indent: 4 });
+    write(`Supply ${formatNumber(t.totalSupply)} - parent ${t.parentId === 0n ? 'none (raw material)' : `#${t.parentId}`}`, { indent: 4 });
+    write(`Block ${t.blockNumber}, tx ${t.txHash}`, { indent: 4, mono: true, size: 8 });
+    write(`Features: ${t.features || '{}'}`, { indent: 4, mono: true, size: 8 });
+  });
+
+  heading('Custody');
+  report.custody.forEach((event) => {
+    const transfer = event.transferId !== null ? ` #${event.transferId}` : '';
+    write(`${formatDate(event.timestamp)} - ${event.type}${transfer} - token #${event.tokenId}, ${formatNumber(event.amount)} units`, { bold: true });
+    if (event.from) write(`From ${party(event.from)}`, { indent: 4 });
+    write(`To ${party(event.to)}`, { indent: 4 });
+    write(`Block ${event.blockNumber}, tx ${event.txHash}`, { indent: 4, mono: true, size: 8 });
+  });
+
+  heading('Participants');
+  report.participants.forEach((p) => {
+    write(`${p.address} - ${p.role ?? 'unregistered'}${p.status ? `, ${p.status}` : ''}`, { mono: true, size: 8 });
+  });
+
+  heading('Signature (EIP-191)');
+  write(`Signed by ${signature.signer}`);
+  write(`Report hash (keccak256): ${signature.hash}`, { mono: true, size: 8 });
+  write(`Signature: ${signature.signature}`, { mono: true, size: 8 });
+  write('Verify the accompanying JSON bundle to confirm the report is unchanged.', { size: 8 });
+
+  return doc.output('blob');
+}
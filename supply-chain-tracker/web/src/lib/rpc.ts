@@ -0,0 +1,114 @@
+import { FetchRequest, JsonRpcPayload, JsonRpcProvider, JsonRpcResult } from 'ethers';
+
+/**
+ * Attempts per endpoint for idempotent requests (first try included)
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Base delay of the exponential backoff between attempts
+ */
+const BACKOFF_BASE = 250;
+
+/**
+ * Requests taking longer than this are abandoned
+ */
+const REQUEST_TIMEOUT = 10_000;
+
+/**
+ * After failing over, try the primary endpoint again once this much time has passed
+ */
+const PRIMARY_RETRY_INTERVAL = 60_000;
+
+/**
+ * Methods that change state; never retried or replayed on another endpoint
+ */
+const NON_IDEMPOTENT_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+/**
+ * Connection health as seen by the last request
+ * degraded: it only succeeded after retries or on a fallback endpoint
+ * offline: every endpoint failed
+ */
+export type ConnectionHealth = 'healthy' | 'degraded' | 'offline';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * JSON-RPC provider with retries, failover and timeouts
+ * Transport failures (network errors, HTTP errors, timeouts) of idempotent requests
+ * are retried with exponential backoff, then the next endpoint is tried.
+ * JSON-RPC errors (e.g. reverts) are returned as-is.
+ *
+ * Events use getLogs polling rather than node-side filters, which would be lost on failover.
+ */
+export class ResilientRpcProvider extends JsonRpcProvider {
+  private readonly urls: string[];
+  private activeIndex = 0;
+  private failedOverAt = 0;
+  private health: ConnectionHealth = 'healthy';
+  private readonly onHealthChange: (health: ConnectionHealth) => void;
+
+  constructor(urls: string[], chainId: number, onHealthChange: (health: ConnectionHealth) => void) {
+    super(urls[0], chainId, { staticNetwork: true, polling: true });
+    this.urls = urls;
+    this.onHealthChange = onHealthChange;
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const idempotent = payloads.every((p) => !NON_IDEMPOTENT_METHODS.has(p.method));
+    const attempts = idempotent ? MAX_ATTEMPTS : 1;
+
+    // Go back to the primary endpoint from time to time
+    if (this.activeIndex !== 0 && Date.now() - this.failedOverAt > PRIMARY_RETRY_INTERVAL) {
+      this.activeIndex = 0;
+    }
+
+    const endpoints = idempotent ? this.urls.length : 1;
+    let lastError: unknown;
+    for (let i = 0; i < endpoints; i++) {
+      const index = (this.activeIndex + i) % this.urls.length;
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        if (attempt > 0) {
+          await sleep(BACKOFF_BASE * 2 ** (attempt - 1) + Math.random() * BACKOFF_BASE);
+        }
+        try {
+          const result = await this.sendTo(this.urls[index], payload);
+          if (index !== this.activeIndex) {
+            this.activeIndex = index;
+            this.failedOverAt = Date.now();
+          }
+          this.setHealth(i === 0 && attempt === 0 && index === 0 ? 'healthy' : 'degraded');
+          return result;
+        } catch (error) {
+          lastError = error;
+        }
+      }
+    }
+
+    this.setHealth('offline');
+    throw lastError;
+  }
+
+  /**
+   * Post a payload to one endpoint (mirrors JsonRpcProvider._send, with a timeout)
+   */
+  private async sendTo(url: string, payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const request = new FetchRequest(url);
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+    request.timeout = REQUEST_TIMEOUT;
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  }
+
+  private setHealth(health: ConnectionHealth) {
+    if (health === this.health) return;
+    this.health = health;
+    this.onHealthChange(health);
+  }
+}
@@ -0,0 +1,845 @@
+import { Wallet, ZeroAddress, getAddress, hexlify, randomBytes } from 'ethers';
+import { ROLES, TEST_ACCOUNTS, TEST_PRIVATE_KEYS, TestAccount } from '@/contracts/config';
+import { NetworkDeployment, toHexChainId } from '@/contracts/deployments';
+import {
+  Page,
+  Recall,
+  SortOrder,
+  Statistics,
+  Token,
+  TokenWithBalance,
+  Transfer,
+  TransferStatus,
+  TransferWithToken,
+  User,
+  UserStatus,
+} from '@/contracts/models';
+import type { EventName, SupplyChainEventLog } from '@/contracts/types';
+import { decodeContractError } from '@/lib/errors';
+import type { ConnectionHealth } from '@/lib/rpc';
+import type { TransactionAction } from '@/lib/transactions';
+import { compareBigInt } from '@/lib/utils';
+import type { WalletDetail } from '@/lib/wallets';
+import type { BlockInfo, Simulation, SubmittedTransaction, SupplyChainEvent, Web3Service } from '@/lib/web3-service';
+
+/**
+ * Deployment reported by the simulator (same chain and addresses as the local Anvil entry)
+ */
+export const SIMULATED_DEPLOYMENT: NetworkDeployment = {
+  chainId: 31337,
+  chainName: 'In-memory Simulator',
+  contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  multicallAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  adminAddress: TEST_ACCOUNTS.admin,
+  deployBlock: 0,
+  rpcUrls: [],
+  explorerUrl: null,
+  nativeCurrency: { name: 'Ethereum', symbol: 'ETH', decimals: 18 },
+  local: true,
+};
+
+/**
+ * Gas reported by successful simulations (nothing is metered, rough figures only)
+ */
+const SIMULATED_GAS: Record<TransactionAction, bigint> = {
+  requestUserRole: 120_000n,
+  changeUserStatus: 35_000n,
+  createToken: 250_000n,
+  transfer: 200_000n,
+  acceptTransfer: 90_000n,
+  rejectTransfer: 35_000n,
+  recallToken: 75_000n,
+};
+
+const VALID_ROLES: string[] = Object.values(ROLES);
+
+/**
+ * Token with its balances, keyed by checksummed address
+ */
+interface TokenRecord extends Token {
+  balances: Map<string, bigint>;
+}
+
+/**
+ * Event emitted by the write being executed, turned into a log when its block is mined
+ */
+interface PendingEvent {
+  eventName: EventName;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Applies the effects of a write whose checks passed, at the given block timestamp
+ */
+type Commit = (timestamp: number) => void;
+
+export interface SimulatorOptions {
+  deployment?: NetworkDeployment;
+  /** Contract admin (defaults to the deployment's admin) */
+  admin?: string;
+}
+
+/**
+ * Revert with a SupplyChain.sol require message
+ * Shaped like a node's revert so decodeContractError maps it to the same error code
+ */
+function revert(reason: string): never {
+  throw Object.assign(new Error(`execution reverted: ${reason}`), { code: 'CALL_EXCEPTION', reason });
+}
+
+function ensure(condition: boolean, reason: string): asserts condition {
+  if (!condition) revert(reason);
+}
+
+const randomHash = () => hexlify(randomBytes(32));
+
+/**
+ * Slice an ID list stored oldest first, like the contract's _paginate
+ */
+function paginate(list: bigint[], offset: number, limit: number, newestFirst: boolean): bigint[] {
+  const ordered = newestFirst ? [...list].reverse() : list;
+  return ordered.slice(offset, offset + limit);
+}
+
+/**
+ * In-memory SupplyChain simulator
+ * Pure TypeScript implementation of the Web3Service interface that reproduces the
+ * rules of SupplyChain.sol (role checks, role-to-role transfers, parent ownership,
+ * pending/accept/reject, recalls) with the contract's revert messages and events.
+ * Every write is mined instantly in its own block. Used for tests, demos and previews
+ * (NEXT_PUBLIC_SIMULATOR=true); state lives in memory only.
+ *
+ * The signer is picked with connectBurner or connectAs; a connected browser wallet
+ * signs as the admin account.
+ */
+export class SimulatedWeb3Service implements Web3Service {
+  private readonly deployment: NetworkDeployment;
+  private readonly admin: string;
+  private wallet: WalletDetail | null = null;
+  private account: string | null = null;
+
+  private nextTokenId = 1n;
+  private nextTransferId = 1n;
+  private nextUserId = 1n;
+  private users = new Map<bigint, User>();
+  private addressToUserId = new Map<string, bigint>();
+  private tokens = new Map<bigint, TokenRecord>();
+  private transfers = new Map<bigint, Transfer>();
+  private userTokenIds = new Map<string, bigint[]>();
+  private userTransferIds = new Map<string, bigint[]>();
+  private recalls = new Map<bigint, Recall>();
+
+  private blocks: BlockInfo[] = [];
+  private logs: SupplyChainEventLog[] = [];
+  private pendingEvents: PendingEvent[] = [];
+  private logListeners = new Set<(log: SupplyChainEventLog) => void>();
+
+  constructor({ deployment = SIMULATED_DEPLOYMENT, admin }: SimulatorOptions = {}) {
+    this.deployment = deployment;
+    this.admin = getAddress(admin ?? deployment.adminAddress);
+    // Genesis block, the contract is deployed in it
+    this.blocks.push({ number: 0, hash: randomHash(), timestamp: Math.floor(Date.now() / 1000) });
+  }
+
+  /**
+   * Simulator with approved users for every test account and a small product chain:
+   * wheat (producer) partly transferred to the factory, flour made from it and
+   * a pending flour transfer to the retailer
+   */
+  static withDemoData(options?: SimulatorOptions): SimulatedWeb3Service {
+    const simulator = new SimulatedWeb3Service(options);
+    const { producer, factory, retailer, consumer } = TEST_ACCOUNTS;
+
+    const roles: [string, string][] = [
+      [producer, ROLES.PRODUCER],
+      [factory, ROLES.FACTORY],
+      [retailer, ROLES.RETAILER],
+      [consumer, ROLES.CONSUMER],
+    ];
+    roles.forEach(([address, role]) => {
+      simulator.execute(address, (sender) => simulator.prepareRequestUserRole(sender, role));
+      simulator.execute(simulator.admin, (sender) =>
+        simulator.prepareChangeStatusUser(sender, address, UserStatus.Approved)
+      );
+    });
+
+    const wheat = simulator.nextTokenId;
+    simulator.execute(producer, (sender) =>
+      simulator.prepareCreateToken(sender, 'Organic Wheat', 1000n, '{"origin":"Castilla","harvest":"2025"}', 0n)
+    );
+    const wheatTransfer = simulator.nextTransferId;
+    simulator.execute(producer, (sender) => simulator.prepareTransfer(sender, factory, wheat, 400n));
+    simulator.execute(factory, (sender) => simulator.prepareAcceptTransfer(sender, wheatTransfer));
+
+    const flour = simulator.nextTokenId;
+    simulator.execute(factory, (sender) =>
+      simulator.prepareCreateToken(sender, 'Whole Wheat Flour', 300n, '{"unit":"kg","batch":"F-001"}', wheat)
+    );
+    simulator.execute(factory, (sender) => simulator.prepareTransfer(sender, retailer, flour, 120n));
+
+    return simulator;
+  }
+
+  // ============================================
+  // NETWORK & WALLET
+  // ============================================
+
+  getWallet(): WalletDetail | null {
+    return this.wallet;
+  }
+
+  setWallet(wallet: WalletDetail | null) {
+    this.wallet = wallet;
+  }
+
+  getDeployment(): NetworkDeployment {
+    return this.deployment;
+  }
+
+  /**
+   * Only the simulated chain is available
+   */
+  setDeployment(chainId: number): boolean {
+    if (chainId !== this.deployment.chainId) {
+      throw new Error(`Unsupported network (chain ID ${chainId})`);
+    }
+    return false;
+  }
+
+  isBurnerAvailable(): boolean {
+    return true;
+  }
+
+  async connectBurner(account: TestAccount): Promise<string> {
+    return this.connectAs(TEST_ACCOUNTS[account]);
+  }
+
+  /**
+   * Sign the next writes as any address
+   */
+  connectAs(address: string): string {
+    this.account = getAddress(address);
+    return this.account;
+  }
+
+  initReadOnly() {}
+
+  async init() {
+    this.account ??= this.admin;
+  }
+
+  isWalletAvailable(): boolean {
+    return true;
+  }
+
+  disconnect() {
+    this.wallet = null;
+    this.account = null;
+  }
+
+  async connectWallet(): Promise<string> {
+    await this.init();
+    return this.account!;
+  }
+
+  async getAccount(): Promise<string | null> {
+    return this.account;
+  }
+
+  async getChainId(): Promise<string> {
+    return toHexChainId(this.deployment.chainId);
+  }
+
+  async switchNetwork(chainId: number) {
+    this.setDeployment(chainId);
+  }
+
+  /**
+   * Only the test accounts have known keys
+   */
+  async signMessage(message: string): Promise<string> {
+    const account = (Object.keys(TEST_ACCOUNTS) as TestAccount[]).find((name) => TEST_ACCOUNTS[name] === this.account);
+    if (!account) {
+      throw new Error(`The simulator cannot sign for ${this.account ?? 'a disconnected wallet'}`);
+    }
+    return new Wallet(TEST_PRIVATE_KEYS[account]).signMessage(message);
+  }
+
+  /**
+   * There is no connection to lose
+   */
+  getConnectionHealth(): ConnectionHealth {
+    return 'healthy';
+  }
+
+  subscribeToConnectionHealth(): () => void {
+    return () => {};
+  }
+
+  // ============================================
+  // EXECUTION
+  // ============================================
+
+  private requireAccount(): string {
+    if (!this.account) {
+      throw new Error('No wallet selected');
+    }
+    return this.account;
+  }
+
+  /**
+   * Run a write's checks, apply it and mine it in a new block
+   * A failed check is thrown as a decoded ContractError and leaves the state untouched
+   */
+  private execute(sender: string, prepare: (sender: string) => Commit): SubmittedTransaction {
+    let commit: Commit;
+    try {
+      commit = prepare(sender);
+    } catch (error) {
+      throw decodeContractError(error);
+    }
+
+    const timestamp = Math.max(Math.floor(Date.now() / 1000), this.latestBlock().timestamp + 1);
+    commit(timestamp);
+    return this.mine(timestamp);
+  }
+
+  /**
+   * Run a write's checks only
+   */
+  private simulate(action: TransactionAction, prepare: (sender: string) => Commit): Simulation {
+    try {
+      prepare(this.requireAccount());
+      return { ok: true, gasLimit: SIMULATED_GAS[action], gasPrice: null, cost: null };
+    } catch (error) {
+      return { ok: false, error: decodeContractError(error) };
+    }
+  }
+
+  private emit(eventName: EventName, args: Record<string, unknown>) {
+    this.pendingEvents.push({ eventName, args });
+  }
+
+  /**
+   * Seal a block holding one transaction and the events it emitted
+   * Listeners are notified after the write returns, as when a node is polled
+   */
+  private mine(timestamp: number): SubmittedTransaction {
+    const block: BlockInfo = { number: this.blocks.length, hash: randomHash(), timestamp };
+    const transactionHash = randomHash();
+    this.blocks.push(block);
+
+    // Event args are readable by position and by name, like ethers' Result
+    const logs = this.pendingEvents.map(
+      ({ eventName, args }, index) =>
+        ({
+          address: this.deployment.contractAddress,
+          blockNumber: block.number,
+          blockHash: block.hash,
+          transactionHash,
+          transactionIndex: 0,
+          index,
+          eventName,
+          args: Object.assign(Object.values(args), args),
+        }) as unknown as SupplyChainEventLog
+    );
+    this.pendingEvents = [];
+    this.logs.push(...logs);
+
+    // Only listeners subscribed when the block was mined, unless they unsubscribed since
+    const listeners = [...this.logListeners];
+    setTimeout(() => {
+      listeners
+        .filter((listener) => this.logListeners.has(listener))
+        .forEach((listener) => logs.forEach((log) => listener(log)));
+    }, 0);
+    return { hash: transactionHash };
+  }
+
+  private latestBlock(): BlockInfo {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  // ============================================
+  // CONTRACT RULES
+  // ============================================
+
+  /**
+   * onlyApprovedUser modifier
+   */
+  private requireApprovedUser(sender: string): User {
+    const userId = this.addressToUserId.get(sender);
+    ensure(userId !== undefined, 'User not registered');
+    const user = this.users.get(userId)!;
+    ensure(user.status === UserStatus.Approved, 'User not approved');
+    return user;
+  }
+
+  /**
+   * _isValidTransfer: Producer -> Factory -> Retailer -> Consumer
+   */
+  private isValidTransfer(fromRole: string, toRole: string): boolean {
+    if (fromRole === ROLES.PRODUCER) return toRole === ROLES.FACTORY;
+    if (fromRole === ROLES.FACTORY) return toRole === ROLES.RETAILER;
+    if (fromRole === ROLES.RETAILER) return toRole === ROLES.CONSUMER;
+    return false;
+  }
+
+  private isValidTokenId(tokenId: bigint): boolean {
+    return tokenId > 0n && tokenId < this.nextTokenId;
+  }
+
+  private isValidTransferId(transferId: bigint): boolean {
+    return transferId > 0n && transferId < this.nextTransferId;
+  }
+
+  private balanceOf(tokenId: bigint, address: string): bigint {
+    return this.tokens.get(tokenId)?.balances.get(address) ?? 0n;
+  }
+
+  /**
+   * getRecallSource: the token itself or its nearest recalled ancestor, 0 if not recalled
+   */
+  private recallSourceOf(tokenId: bigint): bigint {
+    let currentId = tokenId;
+    while (currentId !== 0n) {
+      if (this.recalls.has(currentId)) return currentId;
+      currentId = this.tokens.get(currentId)?.parentId ?? 0n;
+    }
+    return 0n;
+  }
+
+  private pushId(lists: Map<string, bigint[]>, address: string, id: bigint) {
+    lists.set(address, [...(lists.get(address) ?? []), id]);
+  }
+
+  private prepareRequestUserRole(sender: string, role: string): Commit {
+    ensure(!this.addressToUserId.has(sender), 'User already registered');
+    ensure(VALID_ROLES.includes(role), 'Invalid role');
+
+    return () => {
+      const id = this.nextUserId++;
+      this.users.set(id, { id, userAddress: sender, role, status: UserStatus.Pending });
+      this.addressToUserId.set(sender, id);
+      this.emit('UserRoleRequested', { user: sender, role });
+    };
+  }
+
+  private prepareChangeStatusUser(sender: string, userAddress: string, status: UserStatus): Commit {
+    ensure(sender === this.admin, 'Only admin can perform this action');
+    const address = getAddress(userAddress);
+    const userId = this.addressToUserId.get(address);
+    ensure(userId !== undefined, 'User not found');
+
+    return () => {
+      this.users.set(userId, { ...this.users.get(userId)!, status });
+      this.emit('UserStatusChanged', { user: address, status: BigInt(status) });
+    };
+  }
+
+  private prepareCreateToken(
+    sender: string,
+    name: string,
+    totalSupply: bigint,
+    features: string,
+    parentId: bigint
+  ): Commit {
+    const user = this.requireApprovedUser(sender);
+    ensure(name.length > 0, 'Name cannot be empty');
+    ensure(totalSupply > 0n, 'Supply must be greater than 0');
+
+    if (user.role === ROLES.PRODUCER) {
+      ensure(parentId === 0n, 'Producer cannot have parent token');
+    } else if (user.role === ROLES.FACTORY || user.role === ROLES.RETAILER) {
+      ensure(this.isValidTokenId(parentId), 'Invalid parent token');
+      ensure(this.balanceOf(parentId, sender) > 0n, 'Must own parent token');
+    } else {
+      revert('Consumer cannot create tokens');
+    }
+
+    return (timestamp) => {
+      const id = this.nextTokenId++;
+      this.tokens.set(id, {
+        id,
+        creator: sender,
+        name,
+        totalSupply,
+        features,
+        parentId,
+        dateCreated: timestamp,
+        balances: new Map([[sender, totalSupply]]),
+      });
+      this.pushId(this.userTokenIds, sender, id);
+      this.emit('TokenCreated', { tokenId: id, creator: sender, name, totalSupply });
+    };
+  }
+
+  private prepareTransfer(sender: string, recipient: string, tokenId: bigint, amount: bigint): Commit {
+    const fromUser = this.requireApprovedUser(sender);
+    const to = getAddress(recipient);
+    ensure(to !== ZeroAddress, 'Invalid recipient');
+    ensure(to !== sender, 'Cannot transfer to yourself');
+    ensure(this.isValidTokenId(tokenId), 'Invalid token ID');
+    ensure(this.recallSourceOf(tokenId) === 0n, 'Token is recalled');
+    ensure(amount > 0n, 'Amount must be greater than 0');
+    ensure(this.balanceOf(tokenId, sender) >= amount, 'Insufficient balance');
+
+    const toUserId = this.addressToUserId.get(to);
+    ensure(toUserId !== undefined, 'Recipient not registered');
+    const toUser = this.users.get(toUserId)!;
+    ensure(toUser.status === UserStatus.Approved, 'Recipient not approved');
+
+    ensure(fromUser.role !== ROLES.CONSUMER, 'Consumer cannot transfer');
+    ensure(this.isValidTransfer(fromUser.role, toUser.role), 'Invalid role transfer');
+
+    return (timestamp) => {
+      const id = this.nextTransferId++;
+      this.transfers.set(id, {
+        id,
+        from: sender,
+        to,
+        tokenId,
+        dateCreated: timestamp,
+        amount,
+        status: TransferStatus.Pending,
+      });
+      this.pushId(this.userTransferIds, sender, id);
+      this.pushId(this.userTransferIds, to, id);
+      this.emit('TransferRequested', { transferId: id, from: sender, to, tokenId, amount });
+    };
+  }
+
+  private prepareAcceptTransfer(sender: string, transferId: bigint): Commit {
+    this.requireApprovedUser(sender);
+    ensure(this.isValidTransferId(transferId), 'Invalid transfer ID');
+    const txn = this.transfers.get(transferId)!;
+
+    ensure(txn.to === sender, 'Only recipient can accept');
+    ensure(txn.status === TransferStatus.Pending, 'Transfer not pending');
+    ensure(this.recallSourceOf(txn.tokenId) === 0n, 'Token is recalled');
+    ensure(this.balanceOf(txn.tokenId, txn.from) >= txn.amount, 'Insufficient balance');
+
+    return () => {
+      const balances = this.tokens.get(txn.tokenId)!.balances;
+      balances.set(txn.from, this.balanceOf(txn.tokenId, txn.from) - txn.amount);
+      balances.set(txn.to, this.balanceOf(txn.tokenId, txn.to) + txn.amount);
+
+      this.transfers.set(transferId, { ...txn, status: TransferStatus.Accepted });
+
+      // Add token to recipient's list if first time
+      if (!this.userTokenIds.get(txn.to)?.includes(txn.tokenId)) {
+        this.pushId(this.userTokenIds, txn.to, txn.tokenId);
+      }
+
+      this.emit('TransferAccepted', { transferId });
+    };
+  }
+
+  private prepareRejectTransfer(sender: string, transferId: bigint): Commit {
+    this.requireApprovedUser(sender);
+    ensure(this.isValidTransferId(transferId), 'Invalid transfer ID');
+    const txn = this.transfers.get(transferId)!;
+
+    ensure(txn.to === sender, 'Only recipient can reject');
+    ensure(txn.status === TransferStatus.Pending, 'Transfer not pending');
+
+    return () => {
+      this.transfers.set(transferId, { ...txn, status: TransferStatus.Rejected });
+      this.emit('TransferRejected', { transferId });
+    };
+  }
+
+  private prepareRecallToken(sender: string, tokenId: bigint, reason: string): Commit {
+    ensure(this.isValidTokenId(tokenId), 'Invalid token ID');
+    ensure(sender === this.tokens.get(tokenId)!.creator || sender === this.admin, 'Only creator or admin can recall');
+    ensure(reason.length > 0, 'Reason cannot be empty');
+    ensure(!this.recalls.has(tokenId), 'Token already recalled');
+
+    return (timestamp) => {
+      this.recalls.set(tokenId, { tokenId, recalledBy: sender, reason, dateRecalled: timestamp });
+      this.emit('TokenRecalled', { tokenId, recalledBy: sender, reason });
+    };
+  }
+
+  // ============================================
+  // USER MANAGEMENT
+  // ============================================
+
+  async requestUserRole(role: string) {
+    return this.execute(this.requireAccount(), (sender) => this.prepareRequestUserRole(sender, role));
+  }
+
+  async simulateRequestUserRole(role: string): Promise<Simulation> {
+    return this.simulate('requestUserRole', (sender) => this.prepareRequestUserRole(sender, role));
+  }
+
+  async getUserInfo(address: string): Promise<User | null> {
+    const userId = this.addressToUserId.get(getAddress(address));
+    return userId !== undefined ? { ...this.users.get(userId)! } : null;
+  }
+
+  async changeUserStatus(userAddress: string, status: UserStatus) {
+    return this.execute(this.requireAccount(), (sender) =>
+      this.prepareChangeStatusUser(sender, userAddress, status)
+    );
+  }
+
+  async simulateChangeUserStatus(userAddress: string, status: UserStatus): Promise<Simulation> {
+    return this.simulate('changeUserStatus', (sender) => this.prepareChangeStatusUser(sender, userAddress, status));
+  }
+
+  async isAdmin(address: string): Promise<boolean> {
+    return getAddress(address) === this.admin;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return [...this.users.values()].map((user) => ({ ...user }));
+  }
+
+  async getStatistics(): Promise<Statistics> {
+    return {
+      totalUsers: Number(this.nextUserId) - 1,
+      totalTokens: Number(this.nextTokenId) - 1,
+      totalTransfers: Number(this.nextTransferId) - 1,
+    };
+  }
+
+  // ============================================
+  // TOKEN MANAGEMENT
+  // ============================================
+
+  async createToken(name: string, totalSupply: bigint, features: string, parentId: bigint) {
+    return this.execute(this.requireAccount(), (sender) =>
+      this.prepareCreateToken(sender, name, totalSupply, features, parentId)
+    );
+  }
+
+  async simulateCreateToken(
+    name: string,
+    totalSupply: bigint,
+    features: string,
+    parentId: bigint
+  ): Promise<Simulation> {
+    return this.simulate('createToken', (sender) =>
+      this.prepareCreateToken(sender, name, totalSupply, features, parentId)
+    );
+  }
+
+  async getToken(tokenId: bigint): Promise<Token> {
+    ensure(this.isValidTokenId(tokenId), 'Invalid token ID');
+    const { id, creator, name, totalSupply, features, parentId, dateCreated } = this.tokens.get(tokenId)!;
+    return { id, creator, name, totalSupply, features, parentId, dateCreated };
+  }
+
+  async getTokenBalance(tokenId: bigint, address: string): Promise<bigint> {
+    ensure(this.isValidTokenId(tokenId), 'Invalid token ID');
+    return this.balanceOf(tokenId, getAddress(address));
+  }
+
+  async getUserTokens(address: string): Promise<bigint[]> {
+    return [...(this.userTokenIds.get(getAddress(address)) ?? [])];
+  }
+
+  async getTokensBatch(tokenIds: bigint[]): Promise<Token[]> {
+    return Promise.all(tokenIds.filter((id) => this.isValidTokenId(id)).map((id) => this.getToken(id)));
+  }
+
+  async getTokenBalancesBatch(tokenIds: bigint[], address: string): Promise<bigint[]> {
+    const owner = getAddress(address);
+    return tokenIds.map((id) => (this.isValidTokenId(id) ? this.balanceOf(id, owner) : 0n));
+  }
+
+  async getUserPortfolio(address: string): Promise<TokenWithBalance[]> {
+    return this.getTokensWithBalances(await this.getUserTokens(address), address);
+  }
+
+  async getUserTokensPage(
+    address: string,
+    offset: number,
+    limit: number,
+    order: SortOrder = 'newest'
+  ): Promise<Page<TokenWithBalance>> {
+    const ids = await this.getUserTokens(address);
+    const items = await this.getTokensWithBalances(paginate(ids, offset, limit, order === 'newest'), address);
+    return { items, total: ids.length, offset, limit };
+  }
+
+  private async getTokensWithBalances(tokenIds: bigint[], address: string): Promise<TokenWithBalance[]> {
+    const [tokens, balances] = await Promise.all([
+      this.getTokensBatch(tokenIds),
+      this.getTokenBalancesBatch(tokenIds, address),
+    ]);
+    return tokens.map((token, i) => ({ ...token, balance: balances[i] }));
+  }
+
+  // ============================================
+  // RECALL MANAGEMENT
+  // ============================================
+
+  async recallToken(tokenId: bigint, reason: string) {
+    return this.execute(this.requireAccount(), (sender) => this.prepareRecallToken(sender, tokenId, reason));
+  }
+
+  async simulateRecallToken(tokenId: bigint, reason: string): Promise<Simulation> {
+    return this.simulate('recallToken', (sender) => this.prepareRecallToken(sender, tokenId, reason));
+  }
+
+  async getRecall(tokenId: bigint): Promise<Recall | null> {
+    ensure(this.isValidTokenId(tokenId), 'Invalid token ID');
+    const sourceId = this.recallSourceOf(tokenId);
+    return sourceId !== 0n ? { ...this.recalls.get(sourceId)! } : null;
+  }
+
+  // ============================================
+  // TRANSFER MANAGEMENT
+  // ============================================
+
+  async transfer(to: string, tokenId: bigint, amount: bigint) {
+    return this.execute(this.requireAccount(), (sender) => this.prepareTransfer(sender, to, tokenId, amount));
+  }
+
+  async simulateTransfer(to: string, tokenId: bigint, amount: bigint): Promise<Simulation> {
+    return this.simulate('transfer', (sender) => this.prepareTransfer(sender, to, tokenId, amount));
+  }
+
+  async acceptTransfer(transferId: bigint) {
+    return this.execute(this.requireAccount(), (sender) => this.prepareAcceptTransfer(sender, transferId));
+  }
+
+  async simulateAcceptTransfer(transferId: bigint): Promise<Simulation> {
+    return this.simulate('acceptTransfer', (sender) => this.prepareAcceptTransfer(sender, transferId));
+  }
+
+  async rejectTransfer(transferId: bigint) {
+    return this.execute(this.requireAccount(), (sender) => this.prepareRejectTransfer(sender, transferId));
+  }
+
+  async simulateRejectTransfer(transferId: bigint): Promise<Simulation> {
+    return this.simulate('rejectTransfer', (sender) => this.prepareRejectTransfer(sender, transferId));
+  }
+
+  async getTransfer(transferId: bigint): Promise<Transfer> {
+    ensure(this.isValidTransferId(transferId), 'Invalid transfer ID');
+    return { ...this.transfers.get(transferId)! };
+  }
+
+  async getUserTransfers(address: string): Promise<bigint[]> {
+    return [...(this.userTransferIds.get(getAddress(address)) ?? [])];
+  }
+
+  async getTransfersBatch(transferIds: bigint[]): Promise<Transfer[]> {
+    return Promise.all(
+      transferIds.filter((id) => this.isValidTransferId(id)).map((id) => this.getTransfer(id))
+    );
+  }
+
+  async getUserTransferHistory(address: string): Promise<TransferWithToken[]> {
+    const transfers = await this.getTransfersWithTokenNames(await this.getUserTransfers(address));
+    return transfers.sort((a, b) => b.dateCreated - a.dateCreated || compareBigInt(b.id, a.id));
+  }
+
+  async getUserTransfersPage(
+    address: string,
+    offset: number,
+    limit: number,
+    order: SortOrder = 'newest'
+  ): Promise<Page<TransferWithToken>> {
+    const ids = await this.getUserTransfers(address);
+    const items = await this.getTransfersWithTokenNames(paginate(ids, offset, limit, order === 'newest'));
+    return { items, total: ids.length, offset, limit };
+  }
+
+  private async getTransfersWithTokenNames(transferIds: bigint[]): Promise<TransferWithToken[]> {
+    const transfers = await this.getTransfersBatch(transferIds);
+    return transfers.map((transfer) => ({
+      ...transfer,
+      tokenName: this.tokens.get(transfer.tokenId)?.name ?? `Token #${transfer.tokenId}`,
+    }));
+  }
+
+  // ============================================
+  // EVENTS & BLOCKS
+  // ============================================
+
+  async getBlockNumber(): Promise<number> {
+    return this.latestBlock().number;
+  }
+
+  async getBlockInfo(blockNumber: number): Promise<BlockInfo | null> {
+    const block = this.blocks[blockNumber];
+    return block ? { ...block } : null;
+  }
+
+  /**
+   * Same filtering as the ethers backend: transfers involving the account,
+   * its own registration/status changes (all of them for admins) and every recall
+   */
+  subscribeToEvents(
+    account: string,
+    isAdmin: boolean,
+    onEvent: (event: SupplyChainEvent) => void
+  ): () => void {
+    const isAccount = (address: string) => address.toLowerCase() === account.toLowerCase();
+
+    const listener = (log: SupplyChainEventLog) => {
+      switch (log.eventName) {
+        case 'TransferRequested': {
+          const { transferId, from, to, tokenId, amount } = log.args;
+          if (isAccount(from) || isAccount(to)) {
+            onEvent({ type: 'TransferRequested', transferId, from, to, tokenId, amount });
+          }
+          break;
+        }
+        case 'TransferAccepted':
+        case 'TransferRejected': {
+          const transfer = this.transfers.get(log.args.transferId)!;
+          if (isAccount(transfer.from) || isAccount(transfer.to)) {
+            const { id: transferId, from, to, tokenId, amount } = transfer;
+            onEvent({ type: log.eventName, transferId, from, to, tokenId, amount });
+          }
+          break;
+        }
+        case 'TokenRecalled': {
+          const { tokenId, recalledBy, reason } = log.args;
+          onEvent({ type: 'TokenRecalled', tokenId, recalledBy, reason });
+          break;
+        }
+        case 'UserRoleRequested':
+          if (isAdmin || isAccount(log.args.user)) {
+            onEvent({ type: 'UserRoleRequested', user: log.args.user, role: log.args.role });
+          }
+          break;
+        case 'UserStatusChanged':
+          if (isAdmin || isAccount(log.args.user)) {
+            onEvent({ type: 'UserStatusChanged', user: log.args.user, status: Number(log.args.status) as UserStatus });
+          }
+          break;
+      }
+    };
+
+    this.logListeners.add(listener);
+    return () => {
+      this.logListeners.delete(listener);
+    };
+  }
+
+  async getContractEvents(fromBlock: number, toBlock: number): Promise<SupplyChainEventLog[]> {
+    return this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+  }
+
+  // ============================================
+  // UTILITY FUNCTIONS
+  // ============================================
+
+  async getNextTokenId(): Promise<bigint> {
+    return this.nextTokenId;
+  }
+
+  async getNextTransferId(): Promise<bigint> {
+    return this.nextTransferId;
+  }
+
+  async getNextUserId(): Promise<bigint> {
+    return this.nextUserId;
+  }
+}
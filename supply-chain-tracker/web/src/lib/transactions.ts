@@ -0,0 +1,341 @@
+import type { ContractTransactionResponse, Provider } from 'ethers';
+import { ContractError } from '@/lib/errors';
+
+/**
+ * localStorage key for tracked transactions
+ */
+const STORAGE_KEY = 'trackedTransactions';
+
+/**
+ * Maximum number of transactions kept in history
+ */
+const MAX_TRANSACTIONS = 25;
+
+/**
+ * Confirmations after which a transaction is no longer watched
+ */
+const TARGET_CONFIRMATIONS = 3;
+
+/**
+ * Delay between status checks
+ */
+const POLL_INTERVAL = 2000;
+
+/**
+ * How long a transaction may be missing from the node before it is considered dropped
+ */
+const DROP_TIMEOUT = 60_000;
+
+/**
+ * Most recent blocks searched for the transaction that took over a tracked one's nonce
+ */
+const REPLACEMENT_SCAN_BLOCKS = 100;
+
+/**
+ * Write actions performed through Web3Service
+ */
+export type TransactionAction =
+  | 'requestUserRole'
+  | 'createToken'
+  | 'transfer'
+  | 'acceptTransfer'
+  | 'rejectTransfer'
+  | 'recallToken'
+  | 'changeUserStatus';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced';
+
+/**
+ * Transaction recorded by the tracker
+ * Parameters are stored as strings so the record survives JSON serialization
+ */
+export interface TrackedTransaction {
+  hash: string;
+  action: TransactionAction;
+  params: Record<string, string>;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  chainId: number;
+  /** Head block when submitted, where the search for a replacement starts */
+  startBlock?: number;
+  /** Transaction mined with the same nonce instead (wallet speed-up or cancel) */
+  replacedBy?: string;
+  submittedAt: number;
+  status: TransactionStatus;
+  confirmations: number;
+  blockNumber?: number;
+  lastSeenAt: number;
+}
+
+type Listener = (transactions: TrackedTransaction[]) => void;
+
+/**
+ * Settles the promise returned by track() once the transaction leaves the pending state
+ */
+interface Waiter {
+  resolve: () => void;
+  reject: (error: ContractError) => void;
+}
+
+/**
+ * Transaction Tracker
+ * Records every write, persists it in localStorage and watches it until it is
+ * confirmed, reverted, dropped or replaced (also after a page reload)
+ * Singleton pattern, status checks go through the read-only provider
+ */
+class TransactionTracker {
+  private transactions: TrackedTransaction[] = [];
+  private listeners: Listener[] = [];
+  private waiters = new Map<string, Waiter>();
+  private provider: Provider | null = null;
+  private chainId: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private loaded = false;
+
+  /**
+   * Attach the provider used to watch transactions and resume pending ones
+   */
+  setProvider(provider: Provider, chainId: number) {
+    this.provider = provider;
+    this.chainId = chainId;
+    this.load();
+    this.schedule();
+  }
+
+  /**
+   * Record a submitted transaction
+   * Resolves once it, or a sped-up copy, is mined successfully; rejects if it reverts, is dropped or replaced,
+   * or right away when there is no provider to watch it with
+   */
+  async track(
+    tx: ContractTransactionResponse,
+    action: TransactionAction,
+    params: Record<string, string | number | bigint>
+  ): Promise<void> {
+    this.load();
+    const startBlock = await this.provider?.getBlockNumber().catch(() => undefined);
+    const now = Date.now();
+    this.upsert({
+      hash: tx.hash,
+      action,
+      params: Object.fromEntries(Object.entries(params).map(([key, value]) => [key, value.toString()])),
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      chainId: Number(tx.chainId),
+      startBlock,
+      submittedAt: now,
+      status: 'pending',
+      confirmations: 0,
+      lastSeenAt: now,
+    });
+    if (!this.provider) {
+      throw new ContractError('NETWORK_ERROR', `No provider to watch transaction ${tx.hash}`);
+    }
+
+    const settled = new Promise<void>((resolve, reject) => {
+      this.waiters.set(tx.hash, { resolve, reject });
+    });
+    this.schedule();
+    return settled;
+  }
+
+  /**
+   * Get all tracked transactions (most recent first)
+   */
+  getTransactions(): TrackedTransaction[] {
+    this.load();
+    return this.transactions;
+  }
+
+  /**
+   * Remove transactions that are no longer pending
+   */
+  clearFinished() {
+    this.transactions = this.transactions.filter((tx) => tx.status === 'pending');
+    this.emit();
+  }
+
+  /**
+   * Subscribe to changes, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // ============================================
+  // WATCHING
+  // ============================================
+
+  /**
+   * Transactions that still need status checks on the current chain
+   */
+  private getWatched(): TrackedTransaction[] {
+    return this.transactions.filter(
+      (tx) =>
+        (tx.chainId === this.chainId || this.waiters.has(tx.hash)) &&
+        (tx.status === 'pending' ||
+          (tx.status === 'confirmed' && tx.confirmations < TARGET_CONFIRMATIONS))
+    );
+  }
+
+  private schedule() {
+    if (this.timer || !this.provider || this.getWatched().length === 0) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('Error checking transactions:', error);
+      } finally {
+        this.timer = null;
+        this.schedule();
+      }
+    }, POLL_INTERVAL);
+  }
+
+  private async poll() {
+    const provider = this.provider;
+    if (!provider) return;
+
+    const head = await provider.getBlockNumber();
+    for (const tx of this.getWatched()) {
+      const next = await this.check(provider, tx, head);
+      if (next !== tx) {
+        this.upsert(next);
+        this.settle(next);
+      }
+    }
+  }
+
+  /**
+   * Work out the current state of a transaction
+   */
+  private async check(provider: Provider, tx: TrackedTransaction, head: number): Promise<TrackedTransaction> {
+    if (tx.status === 'confirmed' && tx.blockNumber !== undefined) {
+      const confirmations = head - tx.blockNumber + 1;
+      return confirmations !== tx.confirmations ? { ...tx, confirmations } : tx;
+    }
+
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt) {
+      return {
+        ...tx,
+        status: receipt.status === 1 ? 'confirmed' : 'failed',
+        blockNumber: receipt.blockNumber,
+        confirmations: head - receipt.blockNumber + 1,
+      };
+    }
+
+    // Not mined: still known to the node means still pending
+    const response = await provider.getTransaction(tx.hash);
+    if (response) {
+      return { ...tx, lastSeenAt: Date.now() };
+    }
+
+    // Unknown to the node: another transaction used the nonce, or it was evicted
+    const nonce = await provider.getTransactionCount(tx.from, 'latest');
+    if (nonce > tx.nonce) {
+      return await this.checkReplacement(provider, tx, head);
+    }
+    if (Date.now() - tx.lastSeenAt > DROP_TIMEOUT) {
+      return { ...tx, status: 'dropped' };
+    }
+    return tx;
+  }
+
+  /**
+   * Find the transaction mined with the nonce of a tracked one, as ethers does
+   * A wallet speed-up resends the same call and settles the original; a cancel or
+   * a different call means the original never ran
+   */
+  private async checkReplacement(provider: Provider, tx: TrackedTransaction, head: number): Promise<TrackedTransaction> {
+    const from = tx.from.toLowerCase();
+    const to = tx.to?.toLowerCase();
+    const start = Math.max(tx.startBlock ?? 0, head - REPLACEMENT_SCAN_BLOCKS + 1);
+
+    for (let number = start; number <= head; number++) {
+      const block = await provider.getBlock(number, true);
+      const replacement = block?.prefetchedTransactions.find(
+        (t) => t.from.toLowerCase() === from && t.nonce === tx.nonce
+      );
+      if (!replacement) continue;
+
+      if (replacement.to?.toLowerCase() !== to || replacement.data !== tx.data) {
+        return { ...tx, status: 'replaced', replacedBy: replacement.hash };
+      }
+      const receipt = await provider.getTransactionReceipt(replacement.hash);
+      if (!receipt) return tx;
+      return {
+        ...tx,
+        status: receipt.status === 1 ? 'confirmed' : 'failed',
+        replacedBy: replacement.hash,
+        blockNumber: receipt.blockNumber,
+        confirmations: head - receipt.blockNumber + 1,
+      };
+    }
+
+    // Mined outside the searched blocks: the call cannot be matched
+    return { ...tx, status: 'replaced' };
+  }
+
+  /**
+   * Settle the promise of a live track() call
+   */
+  private settle(tx: TrackedTransaction) {
+    const waiter = this.waiters.get(tx.hash);
+    if (!waiter || tx.status === 'pending') return;
+
+    this.waiters.delete(tx.hash);
+    if (tx.status === 'confirmed') {
+      waiter.resolve();
+    } else if (tx.status === 'failed') {
+      waiter.reject(new ContractError('TRANSACTION_REVERTED', tx.replacedBy ?? tx.hash));
+    } else if (tx.status === 'replaced') {
+      waiter.reject(new ContractError('TRANSACTION_REPLACED', tx.replacedBy ?? tx.hash));
+    } else {
+      waiter.reject(new ContractError('TRANSACTION_DROPPED', tx.hash));
+    }
+  }
+
+  // ============================================
+  // PERSISTENCE
+  // ============================================
+
+  /**
+   * Insert or update a transaction, trimming the history to MAX_TRANSACTIONS
+   * Transactions a live track() call still waits for are never trimmed
+   */
+  private upsert(tx: TrackedTransaction) {
+    this.transactions = [tx, ...this.transactions.filter((t) => t.hash !== tx.hash)]
+      .sort((a, b) => b.submittedAt - a.submittedAt)
+      .filter((t, index) => index < MAX_TRANSACTIONS || this.waiters.has(t.hash));
+    this.emit();
+  }
+
+  private load() {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      this.transactions = saved ? JSON.parse(saved) : [];
+    } catch {
+      this.transactions = [];
+    }
+  }
+
+  private emit() {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    }
+    this.listeners.forEach((listener) => listener(this.transactions));
+  }
+}
+
+// Export singleton instance
+export const transactionTracker = new TransactionTracker();
@@ -32,11 +32,83 @@ export function formatDate(timestamp: number): string {
 
 /**
  * Format number with thousand separators
+ * Accepts bigint so on-chain quantities keep every digit
  */
-export function formatNumber(num: number): string {
+export function formatNumber(num: number | bigint): string {
   return num.toLocaleString();
 }
 
+/**
+ * Largest value a Solidity uint256 can hold
+ */
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * Result of parsing user input into an on-chain quantity
+ */
+export type ParsedQuantity = { value: bigint; error: null } | { value: null; error: string };
+
+/**
+ * Parse a whole-unit quantity entered by the user
+ * Accepts digits with optional thousand separators (commas, spaces, underscores);
+ * rejects decimals, signs, exponents and values outside [min, max]
+ */
+export function parseQuantity(
+  input: string,
+  { min = 1n, max = MAX_UINT256 }: { min?: bigint; max?: bigint } = {}
+): ParsedQuantity {
+  const digits = input.trim().replace(/[,_\s]/g, '');
+  if (!digits) {
+    return { value: null, error: 'Please enter an amount' };
+  }
+  if (!/^\d+$/.test(digits)) {
+    return { value: null, error: 'Amount must be a whole number of units' };
+  }
+
+  const value = BigInt(digits);
+  if (value < min) {
+    return { value: null, error: `Amount must be at least ${formatNumber(min)}` };
+  }
+  if (value > max) {
+    return { value: null, error: `Amount cannot exceed ${formatNumber(max)}` };
+  }
+  return { value, error: null };
+}
+
+/**
+ * Parse a token or transfer ID (route params, select values)
+ * Returns null unless the input is a positive uint256
+ */
+export function parseId(input: string | null | undefined): bigint | null {
+  const digits = input?.trim();
+  if (!digits || !/^\d+$/.test(digits)) return null;
+  const id = BigInt(digits);
+  return id > 0n && id <= MAX_UINT256 ? id : null;
+}
+
+/**
+ * Compare two bigints (for Array.prototype.sort)
+ */
+export function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Share of part in whole as a percentage (for display)
+ * Divides in bigint first so huge quantities keep their precision
+ */
+export function percentOf(part: bigint, whole: bigint): number {
+  if (whole <= 0n) return 0;
+  return Number((part * 10000n) / whole) / 100;
+}
+
+/**
+ * Sum a list of bigints
+ */
+export function sumBigInt(values: bigint[]): bigint {
+  return values.reduce((sum, value) => sum + value, 0n);
+}
+
 /**
  * Validate Ethereum address format
  */
@@ -55,6 +127,18 @@ export function parseJSON<T>(json: string, fallback: T): T {
   }
 }
 
+/**
+ * Check whether a string is valid JSON
+ */
+export function isValidJSON(json: string): boolean {
+  try {
+    JSON.parse(json);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Get role badge color classes
  */
@@ -95,13 +179,6 @@ export function getStatusLabel(status: number, type: 'user' | 'transfer' = 'user
   }
 }
 
-/**
- * Convert BigInt to number safely (for display)
- */
-export function bigIntToNumber(value: bigint): number {
-  return Number(value);
-}
-
 /**
  * Convert BigInt to string (for JSON serialization)
  */
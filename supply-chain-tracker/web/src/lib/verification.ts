@@ -0,0 +1,112 @@
+import { isAddress } from 'ethers';
+import { NetworkDeployment, getDeployment } from '@/contracts/deployments';
+import type { Token } from '@/contracts/models';
+import { decodeContractError } from '@/lib/errors';
+import { parseId } from '@/lib/utils';
+
+/**
+ * Product Verification
+ * Links printed on packaging (as QR codes) and the authenticity check behind /verify/[id]
+ * A link names the token and the deployment that issued it:
+ * /verify/<tokenId>?chain=<chainId>&contract=<address>
+ */
+
+/**
+ * Contents of a verification link (chain and contract are absent in hand-typed links)
+ */
+export interface VerificationLink {
+  tokenId: bigint;
+  chainId: number | null;
+  contractAddress: string | null;
+}
+
+/**
+ * authentic: the token exists on the contract that issued the link
+ * wrong-network: the link was issued on another supported network
+ * unknown-contract: the link names a contract that is not a known deployment
+ * not-found: the contract has no token with this ID
+ */
+export type AuthenticityStatus = 'authentic' | 'wrong-network' | 'unknown-contract' | 'not-found';
+
+export interface AuthenticityResult {
+  status: AuthenticityStatus;
+  token: Token | null;
+  /** Deployment that issued the link, when it is a supported one */
+  issuer: NetworkDeployment | null;
+}
+
+/**
+ * Absolute verification URL for a token of a deployment
+ */
+export function getVerificationUrl(tokenId: bigint, deployment: NetworkDeployment, origin = window.location.origin) {
+  const params = new URLSearchParams({
+    chain: deployment.chainId.toString(),
+    contract: deployment.contractAddress,
+  });
+  return `${origin.replace(/\/$/, '')}/verify/${tokenId}?${params}`;
+}
+
+/**
+ * Parse a verification URL (absolute, or a path of this app)
+ * Returns null when it does not point at /verify/<tokenId> on this app's origin,
+ * so a code printed by another site is never opened as one of ours
+ */
+export function parseVerificationUrl(url: string, origin = window.location.origin): VerificationLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), origin);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== new URL(origin).origin) return null;
+
+  const match = parsed.pathname.match(/^\/verify\/([^/]+)\/?$/);
+  const tokenId = match ? parseId(decodeURIComponent(match[1])) : null;
+  if (tokenId === null) return null;
+
+  return parseVerificationParams(tokenId, parsed.searchParams);
+}
+
+/**
+ * Read the chain and contract parameters of a verification link (invalid values are dropped)
+ */
+export function parseVerificationParams(tokenId: bigint, params: URLSearchParams): VerificationLink {
+  const chain = Number(params.get('chain'));
+  const contract = params.get('contract');
+  return {
+    tokenId,
+    chainId: Number.isInteger(chain) && chain > 0 ? chain : null,
+    contractAddress: contract && isAddress(contract) ? contract : null,
+  };
+}
+
+/**
+ * Check a link against the active deployment and read the token from the contract
+ */
+export async function checkAuthenticity(
+  link: VerificationLink,
+  deployment: NetworkDeployment
+): Promise<AuthenticityResult> {
+  const issuer = link.chainId !== null ? getDeployment(link.chainId) : deployment;
+  if (!issuer) {
+    return { status: 'unknown-contract', token: null, issuer: null };
+  }
+  if (link.contractAddress && link.contractAddress.toLowerCase() !== issuer.contractAddress.toLowerCase()) {
+    return { status: 'unknown-contract', token: null, issuer: null };
+  }
+  if (issuer.chainId !== deployment.chainId) {
+    return { status: 'wrong-network', token: null, issuer };
+  }
+
+  const { web3Service } = await import('@/lib/web3');
+  try {
+    const token = await web3Service.getToken(link.tokenId);
+    return { status: 'authentic', token, issuer };
+  } catch (error) {
+    const decoded = decodeContractError(error);
+    if (decoded.code === 'INVALID_TOKEN_ID') {
+      return { status: 'not-found', token: null, issuer };
+    }
+    throw decoded;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Minimal EIP-1193 provider interface used by the app
+ */
+export interface EIP1193Provider {
+  request: (args: { method: string; params?: unknown[] | Record<string, unknown> }) => Promise<unknown>;
+  on: (event: string, callback: (...args: never[]) => void) => void;
+  removeListener: (event: string, callback: (...args: never[]) => void) => void;
+  isMetaMask?: boolean;
+}
+
+/**
+ * Wallet metadata announced through EIP-6963
+ * rdns is stable across page loads and used to remember the chosen wallet
+ */
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface WalletDetail {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: WalletDetail;
+}
+
+/**
+ * rdns used for a legacy window.ethereum provider that does not support EIP-6963
+ */
+export const INJECTED_WALLET_RDNS = 'injected';
+
+/**
+ * How long to wait for a remembered wallet to announce itself
+ */
+const DISCOVERY_TIMEOUT = 500;
+
+type Listener = (wallets: WalletDetail[]) => void;
+
+/**
+ * Wallet Registry
+ * Collects the browser wallets announced through EIP-6963 (multi injected provider discovery)
+ * Singleton pattern, falls back to window.ethereum when no wallet announces itself
+ */
+class WalletRegistry {
+  private wallets: WalletDetail[] = [];
+  private listeners: Listener[] = [];
+  private started = false;
+
+  /**
+   * Start listening for announcements and ask installed wallets to announce themselves
+   */
+  start() {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('eip6963:announceProvider', (event) => {
+      this.add((event as AnnounceProviderEvent).detail);
+    });
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+  }
+
+  /**
+   * All discovered wallets, plus the legacy injected provider if nothing was announced
+   */
+  getWallets(): WalletDetail[] {
+    this.start();
+    if (this.wallets.length > 0 || typeof window === 'undefined' || !window.ethereum) {
+      return this.wallets;
+    }
+    return [
+      {
+        info: {
+          uuid: INJECTED_WALLET_RDNS,
+          name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+          icon: '',
+          rdns: INJECTED_WALLET_RDNS,
+        },
+        provider: window.ethereum,
+      },
+    ];
+  }
+
+  /**
+   * Find a wallet by rdns, waiting briefly for late announcements
+   */
+  async findWallet(rdns: string): Promise<WalletDetail | null> {
+    const find = () => this.getWallets().find((w) => w.info.rdns === rdns) ?? null;
+    const wallet = find();
+    if (wallet || rdns === INJECTED_WALLET_RDNS) return wallet;
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(find());
+      }, DISCOVERY_TIMEOUT);
+      const unsubscribe = this.subscribe(() => {
+        const announced = find();
+        if (announced) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(announced);
+        }
+      });
+    });
+  }
+
+  /**
+   * Subscribe to newly discovered wallets, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private add(detail: WalletDetail) {
+    if (!detail?.info?.rdns || !detail.provider) return;
+    this.wallets = [...this.wallets.filter((w) => w.info.rdns !== detail.info.rdns), detail];
+    this.listeners.forEach((listener) => listener(this.wallets));
+  }
+}
+
+// Export singleton instance
+export const walletRegistry = new WalletRegistry();
+
+// Type declarations for the legacy injected provider
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+}
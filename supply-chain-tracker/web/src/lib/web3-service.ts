@@ -0,0 +1,152 @@
+import type { TestAccount } from '@/contracts/config';
+import type { NetworkDeployment } from '@/contracts/deployments';
+import type {
+  Page,
+  Recall,
+  SortOrder,
+  Statistics,
+  Token,
+  TokenWithBalance,
+  Transfer,
+  TransferWithToken,
+  User,
+  UserStatus,
+} from '@/contracts/models';
+import type { SupplyChainEventLog } from '@/contracts/types';
+import type { ContractError } from '@/lib/errors';
+import type { ConnectionHealth } from '@/lib/rpc';
+import type { WalletDetail } from '@/lib/wallets';
+
+/**
+ * Live contract event relevant to the connected account
+ */
+export type SupplyChainEvent =
+  | { type: 'TransferRequested'; transferId: bigint; from: string; to: string; tokenId: bigint; amount: bigint }
+  | { type: 'TransferAccepted'; transferId: bigint; from: string; to: string; tokenId: bigint; amount: bigint }
+  | { type: 'TransferRejected'; transferId: bigint; from: string; to: string; tokenId: bigint; amount: bigint }
+  | { type: 'TokenRecalled'; tokenId: bigint; recalledBy: string; reason: string }
+  | { type: 'UserRoleRequested'; user: string; role: string }
+  | { type: 'UserStatusChanged'; user: string; status: UserStatus };
+
+/**
+ * Outcome of a write simulated against the current chain state
+ * cost is gasLimit times the current max fee, null when the node reports no fee data
+ */
+export type Simulation =
+  | { ok: true; gasLimit: bigint; gasPrice: bigint | null; cost: bigint | null }
+  | { ok: false; error: ContractError };
+
+/**
+ * Write that made it into a block (or at least to the node)
+ */
+export interface SubmittedTransaction {
+  hash: string;
+}
+
+/**
+ * Block number, hash and timestamp (seconds)
+ */
+export interface BlockInfo {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+/**
+ * Web3 Service
+ * Everything the app reads from and writes to the SupplyChain contract goes
+ * through this interface. Backends: the ethers implementation talking to a
+ * real node (lib/web3.ts) and the in-memory simulator (lib/simulator.ts).
+ *
+ * Writes throw a decoded ContractError when they revert.
+ */
+export interface Web3Service {
+  // Network and wallet
+  getWallet(): WalletDetail | null;
+  setWallet(wallet: WalletDetail | null): void;
+  getDeployment(): NetworkDeployment;
+  /** Returns false if the deployment did not change */
+  setDeployment(chainId: number): boolean;
+  isBurnerAvailable(): boolean;
+  /** Returns the address of the burner account */
+  connectBurner(account: TestAccount): Promise<string>;
+  initReadOnly(): void;
+  init(): Promise<void>;
+  isWalletAvailable(): boolean;
+  disconnect(): void;
+  connectWallet(): Promise<string>;
+  getAccount(): Promise<string | null>;
+  /** EIP-155 hex chain ID reported by the wallet */
+  getChainId(): Promise<string>;
+  switchNetwork(chainId: number): Promise<void>;
+  /** EIP-191 (personal_sign) signature of a message by the connected account */
+  signMessage(message: string): Promise<string>;
+
+  // Connection health
+  getConnectionHealth(): ConnectionHealth;
+  /** Returns an unsubscribe function */
+  subscribeToConnectionHealth(listener: (health: ConnectionHealth) => void): () => void;
+
+  // Users
+  requestUserRole(role: string): Promise<SubmittedTransaction>;
+  simulateRequestUserRole(role: string): Promise<Simulation>;
+  /** null when the address is not registered */
+  getUserInfo(address: string): Promise<User | null>;
+  changeUserStatus(userAddress: string, status: UserStatus): Promise<SubmittedTransaction>;
+  simulateChangeUserStatus(userAddress: string, status: UserStatus): Promise<Simulation>;
+  isAdmin(address: string): Promise<boolean>;
+  getAllUsers(): Promise<User[]>;
+  getStatistics(): Promise<Statistics>;
+
+  // Tokens
+  createToken(name: string, totalSupply: bigint, features: string, parentId: bigint): Promise<SubmittedTransaction>;
+  simulateCreateToken(name: string, totalSupply: bigint, features: string, parentId: bigint): Promise<Simulation>;
+  getToken(tokenId: bigint): Promise<Token>;
+  getTokenBalance(tokenId: bigint, address: string): Promise<bigint>;
+  getUserTokens(address: string): Promise<bigint[]>;
+  /** Tokens that fail to load are skipped */
+  getTokensBatch(tokenIds: bigint[]): Promise<Token[]>;
+  getTokenBalancesBatch(tokenIds: bigint[], address: string): Promise<bigint[]>;
+  getUserPortfolio(address: string): Promise<TokenWithBalance[]>;
+  getUserTokensPage(address: string, offset: number, limit: number, order?: SortOrder): Promise<Page<TokenWithBalance>>;
+
+  // Recalls
+  /** Recalls the token and every product made from it */
+  recallToken(tokenId: bigint, reason: string): Promise<SubmittedTransaction>;
+  simulateRecallToken(tokenId: bigint, reason: string): Promise<Simulation>;
+  /** Recall in effect for the token (its own or an ancestor's), null when it is not recalled */
+  getRecall(tokenId: bigint): Promise<Recall | null>;
+
+  // Transfers
+  transfer(to: string, tokenId: bigint, amount: bigint): Promise<SubmittedTransaction>;
+  simulateTransfer(to: string, tokenId: bigint, amount: bigint): Promise<Simulation>;
+  acceptTransfer(transferId: bigint): Promise<SubmittedTransaction>;
+  simulateAcceptTransfer(transferId: bigint): Promise<Simulation>;
+  rejectTransfer(transferId: bigint): Promise<SubmittedTransaction>;
+  simulateRejectTransfer(transferId: bigint): Promise<Simulation>;
+  getTransfer(transferId: bigint): Promise<Transfer>;
+  getUserTransfers(address: string): Promise<bigint[]>;
+  /** Transfers that fail to load are skipped */
+  getTransfersBatch(transferIds: bigint[]): Promise<Transfer[]>;
+  /** Most recent first */
+  getUserTransferHistory(address: string): Promise<TransferWithToken[]>;
+  getUserTransfersPage(
+    address: string,
+    offset: number,
+    limit: number,
+    order?: SortOrder
+  ): Promise<Page<TransferWithToken>>;
+
+  // Events and blocks
+  getBlockNumber(): Promise<number>;
+  getBlockInfo(blockNumber: number): Promise<BlockInfo | null>;
+  /** Live events involving an account (every registration for admins) and every recall, returns an unsubscribe function */
+  subscribeToEvents(account: string, isAdmin: boolean, onEvent: (event: SupplyChainEvent) => void): () => void;
+  /** Events in a block range (inclusive), sorted by block number and log index */
+  getContractEvents(fromBlock: number, toBlock: number): Promise<SupplyChainEventLog[]>;
+
+  // Counters
+  getNextTokenId(): Promise<bigint>;
+  getNextTransferId(): Promise<bigint>;
+  getNextUserId(): Promise<bigint>;
+}
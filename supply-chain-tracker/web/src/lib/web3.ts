@@ -1,39 +1,352 @@
-import { BrowserProvider, Contract, Eip1193Provider } from 'ethers';
+import {
+  BrowserProvider,
+  Contract,
+  ContractEventName,
+  ContractTransactionResponse,
+  Eip1193Provider,
+  EventLog,
+  Listener,
+  Wallet,
+} from 'ethers';
 import { SUPPLY_CHAIN_ABI } from '@/contracts/abi';
-import { CONTRACT_CONFIG } from '@/contracts/config';
+import {
+  BURNER_WALLETS_ENABLED,
+  MULTICALL_CONFIG,
+  SIMULATOR_ENABLED,
+  TEST_PRIVATE_KEYS,
+  TestAccount,
+} from '@/contracts/config';
+import {
+  DEFAULT_DEPLOYMENT,
+  NetworkDeployment,
+  getDeployment,
+  isLocalDeployment,
+  toHexChainId,
+} from '@/contracts/deployments';
+import {
+  Page,
+  Recall,
+  SortOrder,
+  Statistics,
+  Token,
+  TokenWithBalance,
+  Transfer,
+  TransferWithToken,
+  User,
+  UserStatus,
+  toRecall,
+  toToken,
+  toTransfer,
+  toUser,
+} from '@/contracts/models';
+import type {
+  EventArgs,
+  FunctionArgs,
+  FunctionResult,
+  SupplyChainContract,
+  SupplyChainEventLog,
+  TypedContractMethod,
+  ViewFunctionName,
+} from '@/contracts/types';
+import { MulticallBatcher } from '@/lib/multicall';
+import { decodeContractError } from '@/lib/errors';
+import { transactionTracker, type TransactionAction } from '@/lib/transactions';
+import { walletRegistry, type EIP1193Provider, type WalletDetail } from '@/lib/wallets';
+import { ResilientRpcProvider, type ConnectionHealth } from '@/lib/rpc';
+import { compareBigInt } from '@/lib/utils';
+import { SimulatedWeb3Service } from '@/lib/simulator';
+import type { BlockInfo, Simulation, SupplyChainEvent, Web3Service } from '@/lib/web3-service';
 
 /**
- * Web3 Service for blockchain interactions
+ * localStorage key for the selected network
+ */
+const SELECTED_CHAIN_KEY = 'selectedChainId';
+
+/**
+ * Web3 Service for blockchain interactions (ethers backend)
  * Singleton pattern to manage contract instance
+ *
+ * View calls go through a read-only JSON-RPC provider so the app works
+ * without a wallet; the signer is only attached when a write is requested.
  */
-class Web3Service {
+class EthersWeb3Service implements Web3Service {
+  private readProvider: ResilientRpcProvider | null = null;
+  private readContract: SupplyChainContract | null = null;
+  private multicall: MulticallBatcher | null = null;
   private provider: BrowserProvider | null = null;
-  private contract: Contract | null = null;
+  private contract: SupplyChainContract | null = null;
+  private deployment: NetworkDeployment | null = null;
+  private wallet: WalletDetail | null = null;
+  private burner: Wallet | null = null;
+  private connectionHealth: ConnectionHealth = 'healthy';
+  private healthListeners: ((health: ConnectionHealth) => void)[] = [];
 
   /**
-   * Initialize Web3 provider and contract instance
+   * Wallet used for signing (picked through EIP-6963 discovery)
    */
-  async init() {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      throw new Error('MetaMask not installed');
+  getWallet(): WalletDetail | null {
+    return this.wallet;
+  }
+
+  /**
+   * Select the wallet used for signing, dropping the signer of the previous one
+   */
+  setWallet(wallet: WalletDetail | null) {
+    if (wallet?.provider === this.wallet?.provider && !this.burner) return;
+    this.wallet = wallet;
+    this.burner = null;
+    this.provider = null;
+    this.contract = null;
+  }
+
+  /**
+   * EIP-1193 provider of the selected wallet
+   */
+  private requireWallet(): EIP1193Provider {
+    if (!this.wallet) {
+      throw new Error('No wallet selected');
     }
+    return this.wallet.provider;
+  }
+
+  /**
+   * Active deployment (last selected network, or the default one)
+   */
+  getDeployment(): NetworkDeployment {
+    if (!this.deployment) {
+      const saved = typeof window !== 'undefined' ? localStorage.getItem(SELECTED_CHAIN_KEY) : null;
+      this.deployment = (saved && getDeployment(Number(saved))) || DEFAULT_DEPLOYMENT;
+    }
+    return this.deployment;
+  }
+
+  /**
+   * Point the service at the deployment of another supported chain
+   * Contract instances are rebuilt on next use; returns false if nothing changed
+   */
+  setDeployment(chainId: number): boolean {
+    const deployment = getDeployment(chainId);
+    if (!deployment) {
+      throw new Error(`Unsupported network (chain ID ${chainId})`);
+    }
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(SELECTED_CHAIN_KEY, chainId.toString());
+    }
+    if (deployment === this.getDeployment()) return false;
+
+    this.deployment = deployment;
+    this.readProvider = null;
+    this.readContract = null;
+    this.multicall = null;
+    this.provider = null;
+    this.contract = null;
+    this.burner = null;
+    return true;
+  }
+
+  // ============================================
+  // BURNER WALLETS (local development only)
+  // ============================================
+
+  /**
+   * Whether burner-wallet mode may be used on the active deployment
+   */
+  isBurnerAvailable(): boolean {
+    return BURNER_WALLETS_ENABLED && isLocalDeployment(this.getDeployment());
+  }
 
-    this.provider = new BrowserProvider(window.ethereum as Eip1193Provider);
+  /**
+   * Sign with a well-known Anvil test account instead of a browser wallet
+   * Refuses unless the node behind the read provider really reports a local chain
+   */
+  async connectBurner(account: TestAccount): Promise<string> {
+    if (!this.isBurnerAvailable()) {
+      throw new Error('Burner wallets are only available on local development chains');
+    }
+
+    this.initReadOnly();
+    const deployment = this.getDeployment();
+    const nodeChainId = Number(await this.readProvider!.send('eth_chainId', []));
+    if (nodeChainId !== deployment.chainId) {
+      throw new Error(`RPC node reports chain ID ${nodeChainId}, expected local chain ${deployment.chainId}`);
+    }
+
+    this.wallet = null;
+    this.provider = null;
+    this.burner = new Wallet(TEST_PRIVATE_KEYS[account], this.readProvider!);
+    this.contract = new Contract(
+      deployment.contractAddress,
+      SUPPLY_CHAIN_ABI,
+      this.burner
+    ) as unknown as SupplyChainContract;
+    return this.burner.address;
+  }
+
+  /**
+   * Initialize read-only provider and contract instance
+   */
+  initReadOnly() {
+    if (this.readProvider && this.readContract) return;
+
+    const deployment = this.getDeployment();
+    this.readProvider = new ResilientRpcProvider(deployment.rpcUrls, deployment.chainId, (health) =>
+      this.setConnectionHealth(health)
+    );
+    this.readContract = new Contract(
+      deployment.contractAddress,
+      SUPPLY_CHAIN_ABI,
+      this.readProvider
+    ) as unknown as SupplyChainContract;
+    this.multicall = new MulticallBatcher(
+      this.readProvider,
+      deployment.multicallAddress,
+      MULTICALL_CONFIG.batchSize
+    );
+
+    // Resume watching transactions submitted before a reload
+    transactionTracker.setProvider(this.readProvider, deployment.chainId);
+  }
+
+  /**
+   * Initialize wallet provider and signer-backed contract instance
+   */
+  async init() {
+    const wallet = this.requireWallet();
+
+    this.initReadOnly();
+
+    this.provider = new BrowserProvider(wallet as Eip1193Provider);
     const signer = await this.provider.getSigner();
     this.contract = new Contract(
-      CONTRACT_CONFIG.address,
+      this.getDeployment().contractAddress,
       SUPPLY_CHAIN_ABI,
       signer
+    ) as unknown as SupplyChainContract;
+  }
+
+  /**
+   * Ensure the read-only contract is initialized
+   */
+  private ensureReadContract(): SupplyChainContract {
+    this.initReadOnly();
+    return this.readContract!;
+  }
+
+  /**
+   * Run calls of one view function in Multicall3 batches
+   * Returns the decoded result per call, or null when that call reverted
+   */
+  private async batchCall<N extends ViewFunctionName>(
+    method: N,
+    argsList: FunctionArgs<N>[]
+  ): Promise<(FunctionResult<N> | null)[]> {
+    const contract = this.ensureReadContract();
+    const results = await this.multicall!.aggregate(
+      argsList.map((args) => ({
+        target: this.getDeployment().contractAddress,
+        callData: contract.interface.encodeFunctionData(method, args),
+      }))
     );
+
+    // A result that does not decode means the ABI is out of date: let it throw
+    return results.map((result) => {
+      if (!result.success) return null;
+      const decoded = contract.interface.decodeFunctionResult(method, result.returnData);
+      // Unwrap single outputs like a direct contract call does
+      return (decoded.length === 1 ? decoded[0] : decoded) as FunctionResult<N>;
+    });
   }
 
   /**
-   * Ensure provider and contract are initialized
+   * Ensure the signer-backed contract is initialized (prompts for a wallet)
    */
-  private async ensureInitialized() {
-    if (!this.provider || !this.contract) {
+  private async ensureSignerContract(): Promise<SupplyChainContract> {
+    if (!this.contract) {
       await this.init();
     }
+    return this.contract!;
+  }
+
+  /**
+   * Send a write through the signer and track it until it is mined
+   * Failures are decoded into a ContractError
+   */
+  private async sendTransaction(
+    action: TransactionAction,
+    params: Record<string, string | number | bigint>,
+    send: (contract: SupplyChainContract) => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionResponse> {
+    try {
+      const contract = await this.ensureSignerContract();
+      const tx = await send(contract);
+      await transactionTracker.track(tx, action, params);
+      return tx;
+    } catch (error) {
+      throw decodeContractError(error);
+    }
+  }
+
+  /**
+   * Run a write as a static call from the connected account, then estimate its gas
+   * Never throws: a predicted revert is returned as a decoded ContractError
+   */
+  private async simulate<A extends readonly unknown[]>(
+    select: (contract: SupplyChainContract) => TypedContractMethod<A, void, true>,
+    args: A
+  ): Promise<Simulation> {
+    try {
+      const contract = await this.ensureSignerContract();
+      const method = select(contract);
+      await method.staticCall(...args);
+      const [gasLimit, feeData] = await Promise.all([method.estimateGas(...args), this.readProvider!.getFeeData()]);
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+      return { ok: true, gasLimit, gasPrice, cost: gasPrice !== null ? gasLimit * gasPrice : null };
+    } catch (error) {
+      return { ok: false, error: decodeContractError(error) };
+    }
+  }
+
+  /**
+   * Check if any browser wallet has been discovered
+   */
+  isWalletAvailable(): boolean {
+    return walletRegistry.getWallets().length > 0;
+  }
+
+  /**
+   * Drop the wallet and its signer, keeping read-only access
+   */
+  disconnect() {
+    this.wallet = null;
+    this.burner = null;
+    this.provider = null;
+    this.contract = null;
+  }
+
+  // ============================================
+  // CONNECTION HEALTH
+  // ============================================
+
+  /**
+   * Health of the read-only RPC connection (retries, failover, outages)
+   */
+  getConnectionHealth(): ConnectionHealth {
+    return this.connectionHealth;
+  }
+
+  /**
+   * Subscribe to connection health changes, returns an unsubscribe function
+   */
+  subscribeToConnectionHealth(listener: (health: ConnectionHealth) => void): () => void {
+    this.healthListeners.push(listener);
+    return () => {
+      this.healthListeners = this.healthListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private setConnectionHealth(health: ConnectionHealth) {
+    this.connectionHealth = health;
+    this.healthListeners.forEach((listener) => listener(health));
   }
 
   // ============================================
@@ -44,14 +357,12 @@ class Web3Service {
    * Connect wallet and request account access
    */
   async connectWallet(): Promise<string> {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      throw new Error('MetaMask not installed');
-    }
+    const wallet = this.requireWallet();
 
     await this.init();
-    const accounts = await window.ethereum.request({
+    const accounts = (await wallet.request({
       method: 'eth_requestAccounts',
-    });
+    })) as string[];
     return accounts[0];
   }
 
@@ -59,6 +370,7 @@ class Web3Service {
    * Get current connected account
    */
   async getAccount(): Promise<string | null> {
+    if (this.burner) return this.burner.address;
     if (!this.provider) return null;
     try {
       const signer = await this.provider.getSigner();
@@ -72,40 +384,43 @@ class Web3Service {
    * Get current network chain ID
    */
   async getChainId(): Promise<string> {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      throw new Error('MetaMask not installed');
-    }
-    return await window.ethereum.request({ method: 'eth_chainId' });
+    const wallet = this.requireWallet();
+    return (await wallet.request({ method: 'eth_chainId' })) as string;
   }
 
   /**
-   * Switch to Anvil network (or add if not present)
+   * Ask the wallet to switch to a supported network (adding it if unknown)
+   * Without a wallet only the read-only deployment changes
    */
-  async switchToAnvilNetwork() {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      throw new Error('MetaMask not installed');
+  async switchNetwork(chainId: number) {
+    const deployment = getDeployment(chainId);
+    if (!deployment) {
+      throw new Error(`Unsupported network (chain ID ${chainId})`);
+    }
+    if (!this.wallet) {
+      this.setDeployment(chainId);
+      return;
     }
 
+    const wallet = this.wallet.provider;
+    const hexChainId = toHexChainId(chainId);
     try {
-      await window.ethereum.request({
+      await wallet.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0x7a69' }], // 31337 in hex
+        params: [{ chainId: hexChainId }],
       });
-    } catch (switchError: any) {
+    } catch (switchError: unknown) {
       // Chain not added, add it
-      if (switchError.code === 4902) {
-        await window.ethereum.request({
+      if ((switchError as { code?: number }).code === 4902) {
+        await wallet.request({
           method: 'wallet_addEthereumChain',
           params: [
             {
-              chainId: '0x7a69',
-              chainName: 'Anvil Local',
-              rpcUrls: ['http://localhost:8545'],
-              nativeCurrency: {
-                name: 'Ethereum',
-                symbol: 'ETH',
-                decimals: 18,
-              },
+              chainId: hexChainId,
+              chainName: deployment.chainName,
+              rpcUrls: deployment.rpcUrls,
+              nativeCurrency: deployment.nativeCurrency,
+              blockExplorerUrls: deployment.explorerUrl ? [deployment.explorerUrl] : undefined,
             },
           ],
         });
@@ -113,6 +428,26 @@ class Web3Service {
         throw switchError;
       }
     }
+    this.setDeployment(chainId);
+  }
+
+  /**
+   * Sign a message (EIP-191) with the burner or browser wallet
+   * Failures, including a declined prompt, are decoded into a ContractError
+   */
+  async signMessage(message: string): Promise<string> {
+    try {
+      if (this.burner) {
+        return await this.burner.signMessage(message);
+      }
+      if (!this.provider) {
+        await this.init();
+      }
+      const signer = await this.provider!.getSigner();
+      return await signer.signMessage(message);
+    } catch (error) {
+      throw decodeContractError(error);
+    }
   }
 
   // ============================================
@@ -123,87 +458,92 @@ class Web3Service {
    * Request a role for the current user
    */
   async requestUserRole(role: string) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.requestUserRole(role);
-    await tx.wait();
-    return tx;
+    return this.sendTransaction('requestUserRole', { role }, (contract) => contract.requestUserRole(role));
+  }
+
+  /**
+   * Simulate requestUserRole without sending it
+   */
+  async simulateRequestUserRole(role: string): Promise<Simulation> {
+    return this.simulate((contract) => contract.requestUserRole, [role]);
   }
 
   /**
    * Get user information by address
    */
-  async getUserInfo(address: string) {
-    await this.ensureInitialized();
+  async getUserInfo(address: string): Promise<User | null> {
+    const contract = this.ensureReadContract();
     try {
-      const user = await this.contract!.getUserInfo(address);
-      return {
-        id: Number(user.id),
-        userAddress: user.userAddress,
-        role: user.role,
-        status: Number(user.status),
-      };
-    } catch (error: any) {
-      // User not found
-      if (error.message.includes('User not found')) {
+      const user = await contract.getUserInfo(address);
+      return toUser(user);
+    } catch (error) {
+      const decoded = decodeContractError(error);
+      if (decoded.code === 'USER_NOT_FOUND') {
         return null;
       }
-      throw error;
+      throw decoded;
     }
   }
 
   /**
    * Change user status (admin only)
    */
-  async changeUserStatus(userAddress: string, status: number) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.changeStatusUser(userAddress, status);
-    await tx.wait();
-    return tx;
+  async changeUserStatus(userAddress: string, status: UserStatus) {
+    return this.sendTransaction('changeUserStatus', { userAddress, status }, (contract) =>
+      contract.changeStatusUser(userAddress, status)
+    );
+  }
+
+  /**
+   * Simulate changeUserStatus without sending it
+   */
+  async simulateChangeUserStatus(userAddress: string, status: UserStatus): Promise<Simulation> {
+    return this.simulate((contract) => contract.changeStatusUser, [userAddress, status]);
   }
 
   /**
    * Check if address is admin
    */
   async isAdmin(address: string): Promise<boolean> {
-    await this.ensureInitialized();
-    return await this.contract!.isAdmin(address);
+    const contract = this.ensureReadContract();
+    return await contract.isAdmin(address);
   }
 
   /**
    * Get all users (admin only)
    */
-  async getAllUsers() {
-    await this.ensureInitialized();
-    const nextUserId = await this.contract!.nextUserId();
+  async getAllUsers(): Promise<User[]> {
+    const contract = this.ensureReadContract();
+    const nextUserId = await contract.nextUserId();
     const totalUsers = Number(nextUserId) - 1; // nextUserId starts at 1
-    
-    const users = [];
-    for (let i = 1; i <= totalUsers; i++) {
-      try {
-        const user = await this.contract!.users(i);
-        users.push({
-          id: Number(user.id),
-          userAddress: user.userAddress,
-          role: user.role,
-          status: Number(user.status),
-        });
-      } catch (error) {
-        console.error(`Error fetching user ${i}:`, error);
+
+    const results = await this.batchCall(
+      'users',
+      Array.from({ length: totalUsers }, (_, i) => [BigInt(i + 1)] as const)
+    );
+
+    const users: User[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const user = results[i];
+      if (!user) {
+        console.error(`Error fetching user ${i + 1}`);
+        continue;
       }
+      users.push(toUser(user));
     }
-    
+
     return users;
   }
 
   /**
    * Get contract statistics
    */
-  async getStatistics() {
-    await this.ensureInitialized();
+  async getStatistics(): Promise<Statistics> {
+    const contract = this.ensureReadContract();
     const [nextUserId, nextTokenId, nextTransferId] = await Promise.all([
-      this.contract!.nextUserId(),
-      this.contract!.nextTokenId(),
-      this.contract!.nextTransferId(),
+      contract.nextUserId(),
+      contract.nextTokenId(),
+      contract.nextTransferId(),
     ]);
 
     return {
@@ -222,58 +562,153 @@ class Web3Service {
    */
   async createToken(
     name: string,
-    totalSupply: number,
+    totalSupply: bigint,
     features: string,
-    parentId: number
+    parentId: bigint
   ) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.createToken(name, totalSupply, features, parentId);
-    await tx.wait();
-    return tx;
+    return this.sendTransaction('createToken', { name, totalSupply, features, parentId }, (contract) =>
+      contract.createToken(name, totalSupply, features, parentId)
+    );
+  }
+
+  /**
+   * Simulate createToken without sending it
+   */
+  async simulateCreateToken(
+    name: string,
+    totalSupply: bigint,
+    features: string,
+    parentId: bigint
+  ): Promise<Simulation> {
+    return this.simulate((contract) => contract.createToken, [name, totalSupply, features, parentId]);
   }
 
   /**
    * Get token information by ID
    */
-  async getToken(tokenId: number) {
-    await this.ensureInitialized();
-    const token = await this.contract!.getToken(tokenId);
-    return {
-      id: Number(token.id),
-      creator: token.creator,
-      name: token.name,
-      totalSupply: Number(token.totalSupply),
-      features: token.features,
-      parentId: Number(token.parentId),
-      dateCreated: Number(token.dateCreated),
-    };
+  async getToken(tokenId: bigint): Promise<Token> {
+    const contract = this.ensureReadContract();
+    const token = await contract.getToken(tokenId);
+    return toToken(token);
   }
 
   /**
    * Get token balance for specific address
    */
-  async getTokenBalance(tokenId: number, address: string): Promise<number> {
-    await this.ensureInitialized();
-    const balance = await this.contract!.getTokenBalance(tokenId, address);
-    return Number(balance);
+  async getTokenBalance(tokenId: bigint, address: string): Promise<bigint> {
+    const contract = this.ensureReadContract();
+    return await contract.getTokenBalance(tokenId, address);
   }
 
   /**
    * Get all token IDs owned by user
    */
-  async getUserTokens(address: string): Promise<number[]> {
-    await this.ensureInitialized();
-    const tokens = await this.contract!.getUserTokens(address);
-    return tokens.map((id: bigint) => Number(id));
+  async getUserTokens(address: string): Promise<bigint[]> {
+    const contract = this.ensureReadContract();
+    const tokens = await contract.getUserTokens(address);
+    return [...tokens];
   }
 
   /**
    * Get multiple tokens information (batch request)
+   * Tokens that fail to load are skipped
    */
-  async getTokensBatch(tokenIds: number[]) {
-    await this.ensureInitialized();
-    const promises = tokenIds.map((id) => this.getToken(id));
-    return await Promise.all(promises);
+  async getTokensBatch(tokenIds: bigint[]): Promise<Token[]> {
+    const results = await this.batchCall('getToken', tokenIds.map((id) => [id] as const));
+    return results
+      .filter((token): token is FunctionResult<'getToken'> => token !== null)
+      .map(toToken);
+  }
+
+  /**
+   * Get balances of multiple tokens for an address (batch request)
+   */
+  async getTokenBalancesBatch(tokenIds: bigint[], address: string): Promise<bigint[]> {
+    const results = await this.batchCall(
+      'getTokenBalance',
+      tokenIds.map((id) => [id, address] as const)
+    );
+    return results.map((balance) => balance ?? 0n);
+  }
+
+  /**
+   * Get all tokens owned by user with their balances
+   * One round trip for the IDs plus batches for details and balances
+   */
+  async getUserPortfolio(address: string): Promise<TokenWithBalance[]> {
+    const tokenIds = await this.getUserTokens(address);
+    return this.getTokensWithBalances(tokenIds, address);
+  }
+
+  /**
+   * Get one page of the tokens owned by user with their balances
+   * The contract slices and orders the ID list, only the page is loaded
+   */
+  async getUserTokensPage(
+    address: string,
+    offset: number,
+    limit: number,
+    order: SortOrder = 'newest'
+  ): Promise<Page<TokenWithBalance>> {
+    const contract = this.ensureReadContract();
+    const [ids, total] = await contract.getUserTokensPage(
+      address,
+      BigInt(offset),
+      BigInt(limit),
+      order === 'newest'
+    );
+    const items = await this.getTokensWithBalances([...ids], address);
+    return { items, total: Number(total), offset, limit };
+  }
+
+  /**
+   * Load tokens and an address's balances (batch request), keeping the ID order
+   */
+  private async getTokensWithBalances(tokenIds: bigint[], address: string): Promise<TokenWithBalance[]> {
+    const [tokens, balances] = await Promise.all([
+      this.batchCall('getToken', tokenIds.map((id) => [id] as const)),
+      this.batchCall('getTokenBalance', tokenIds.map((id) => [id, address] as const)),
+    ]);
+
+    const portfolio: TokenWithBalance[] = [];
+    for (let i = 0; i < tokenIds.length; i++) {
+      const token = tokens[i];
+      const balance = balances[i];
+      if (!token) continue;
+      portfolio.push({
+        ...toToken(token),
+        balance: balance ?? 0n,
+      });
+    }
+    return portfolio;
+  }
+
+  // ============================================
+  // RECALL MANAGEMENT
+  // ============================================
+
+  /**
+   * Recall a token and every product made from it
+   */
+  async recallToken(tokenId: bigint, reason: string) {
+    return this.sendTransaction('recallToken', { tokenId, reason }, (contract) => contract.recallToken(tokenId, reason));
+  }
+
+  /**
+   * Simulate recallToken without sending it
+   */
+  async simulateRecallToken(tokenId: bigint, reason: string): Promise<Simulation> {
+    return this.simulate((contract) => contract.recallToken, [tokenId, reason]);
+  }
+
+  /**
+   * Get the recall in effect for a token (its own or the nearest recalled ancestor's)
+   */
+  async getRecall(tokenId: bigint): Promise<Recall | null> {
+    const contract = this.ensureReadContract();
+    const sourceId = await contract.getRecallSource(tokenId);
+    if (sourceId === 0n) return null;
+    return toRecall(sourceId, await contract.recalls(sourceId));
   }
 
   // ============================================
@@ -283,66 +718,223 @@ class Web3Service {
   /**
    * Initiate a transfer
    */
-  async transfer(to: string, tokenId: number, amount: number) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.transfer(to, tokenId, amount);
-    await tx.wait();
-    return tx;
+  async transfer(to: string, tokenId: bigint, amount: bigint) {
+    return this.sendTransaction('transfer', { to, tokenId, amount }, (contract) => contract.transfer(to, tokenId, amount));
+  }
+
+  /**
+   * Simulate transfer without sending it
+   */
+  async simulateTransfer(to: string, tokenId: bigint, amount: bigint): Promise<Simulation> {
+    return this.simulate((contract) => contract.transfer, [to, tokenId, amount]);
   }
 
   /**
    * Accept a pending transfer
    */
-  async acceptTransfer(transferId: number) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.acceptTransfer(transferId);
-    await tx.wait();
-    return tx;
+  async acceptTransfer(transferId: bigint) {
+    return this.sendTransaction('acceptTransfer', { transferId }, (contract) => contract.acceptTransfer(transferId));
+  }
+
+  /**
+   * Simulate acceptTransfer without sending it
+   */
+  async simulateAcceptTransfer(transferId: bigint): Promise<Simulation> {
+    return this.simulate((contract) => contract.acceptTransfer, [transferId]);
   }
 
   /**
    * Reject a pending transfer
    */
-  async rejectTransfer(transferId: number) {
-    await this.ensureInitialized();
-    const tx = await this.contract!.rejectTransfer(transferId);
-    await tx.wait();
-    return tx;
+  async rejectTransfer(transferId: bigint) {
+    return this.sendTransaction('rejectTransfer', { transferId }, (contract) => contract.rejectTransfer(transferId));
+  }
+
+  /**
+   * Simulate rejectTransfer without sending it
+   */
+  async simulateRejectTransfer(transferId: bigint): Promise<Simulation> {
+    return this.simulate((contract) => contract.rejectTransfer, [transferId]);
   }
 
   /**
    * Get transfer information by ID
    */
-  async getTransfer(transferId: number) {
-    await this.ensureInitialized();
-    const transfer = await this.contract!.getTransfer(transferId);
-    return {
-      id: Number(transfer.id),
-      from: transfer.from,
-      to: transfer.to,
-      tokenId: Number(transfer.tokenId),
-      dateCreated: Number(transfer.dateCreated),
-      amount: Number(transfer.amount),
-      status: Number(transfer.status),
-    };
+  async getTransfer(transferId: bigint): Promise<Transfer> {
+    const contract = this.ensureReadContract();
+    const transfer = await contract.getTransfer(transferId);
+    return toTransfer(transfer);
   }
 
   /**
    * Get all transfer IDs involving a user
    */
-  async getUserTransfers(address: string): Promise<number[]> {
-    await this.ensureInitialized();
-    const transfers = await this.contract!.getUserTransfers(address);
-    return transfers.map((id: bigint) => Number(id));
+  async getUserTransfers(address: string): Promise<bigint[]> {
+    const contract = this.ensureReadContract();
+    const transfers = await contract.getUserTransfers(address);
+    return [...transfers];
   }
 
   /**
    * Get multiple transfers information (batch request)
+   * Transfers that fail to load are skipped
+   */
+  async getTransfersBatch(transferIds: bigint[]): Promise<Transfer[]> {
+    const results = await this.batchCall('getTransfer', transferIds.map((id) => [id] as const));
+    return results
+      .filter((transfer): transfer is FunctionResult<'getTransfer'> => transfer !== null)
+      .map(toTransfer);
+  }
+
+  /**
+   * Get all transfers involving user with their token names
+   * Sorted by dateCreated (most recent first)
+   */
+  async getUserTransferHistory(address: string): Promise<TransferWithToken[]> {
+    const transferIds = await this.getUserTransfers(address);
+    const transfers = await this.getTransfersWithTokenNames(transferIds);
+    return transfers.sort((a, b) => b.dateCreated - a.dateCreated || compareBigInt(b.id, a.id));
+  }
+
+  /**
+   * Get one page of the transfers involving user with their token names
+   * Transfer IDs grow with dateCreated, so the contract's order is chronological
+   */
+  async getUserTransfersPage(
+    address: string,
+    offset: number,
+    limit: number,
+    order: SortOrder = 'newest'
+  ): Promise<Page<TransferWithToken>> {
+    const contract = this.ensureReadContract();
+    const [ids, total] = await contract.getUserTransfersPage(
+      address,
+      BigInt(offset),
+      BigInt(limit),
+      order === 'newest'
+    );
+    const items = await this.getTransfersWithTokenNames([...ids]);
+    return { items, total: Number(total), offset, limit };
+  }
+
+  /**
+   * Load transfers and the names of their tokens (batch request), keeping the ID order
+   */
+  private async getTransfersWithTokenNames(transferIds: bigint[]): Promise<TransferWithToken[]> {
+    const transfers = await this.getTransfersBatch(transferIds);
+
+    const tokenIds = [...new Set(transfers.map((t) => t.tokenId))];
+    const tokens = await this.getTokensBatch(tokenIds);
+    const tokenNames = new Map(tokens.map((t) => [t.id, t.name]));
+
+    return transfers.map((transfer) => ({
+      ...transfer,
+      tokenName: tokenNames.get(transfer.tokenId) ?? `Token #${transfer.tokenId}`,
+    }));
+  }
+
+  // ============================================
+  // EVENTS & BLOCKS
+  // ============================================
+
+  /**
+   * Get the latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    this.initReadOnly();
+    return await this.readProvider!.getBlockNumber();
+  }
+
+  /**
+   * Get block number, hash and timestamp
    */
-  async getTransfersBatch(transferIds: number[]) {
-    await this.ensureInitialized();
-    const promises = transferIds.map((id) => this.getTransfer(id));
-    return await Promise.all(promises);
+  async getBlockInfo(blockNumber: number): Promise<BlockInfo | null> {
+    this.initReadOnly();
+    const block = await this.readProvider!.getBlock(blockNumber);
+    if (!block) return null;
+    return {
+      number: block.number,
+      hash: block.hash!,
+      timestamp: block.timestamp,
+    };
+  }
+
+  /**
+   * Subscribe to live events involving an account
+   * Admins also receive every registration and status change; recalls reach everyone
+   * Returns an unsubscribe function
+   */
+  subscribeToEvents(
+    account: string,
+    isAdmin: boolean,
+    onEvent: (event: SupplyChainEvent) => void
+  ): () => void {
+    const contract = this.ensureReadContract();
+    const subscriptions: [ContractEventName, Listener][] = [];
+    const subscribe = (event: ContractEventName, listener: Listener) => {
+      contract.on(event, listener);
+      subscriptions.push([event, listener]);
+    };
+    const isAccount = (address: string) => address.toLowerCase() === account.toLowerCase();
+
+    // Outgoing and incoming transfer requests
+    const onTransferRequested = (...[transferId, from, to, tokenId, amount]: EventArgs<'TransferRequested'>) => {
+      onEvent({ type: 'TransferRequested', transferId, from, to, tokenId, amount });
+    };
+    subscribe(contract.filters.TransferRequested(null, account), onTransferRequested);
+    subscribe(contract.filters.TransferRequested(null, null, account), onTransferRequested);
+
+    // Accept/reject only index the transfer ID, so look it up to filter by account
+    const onTransferResolved = (type: 'TransferAccepted' | 'TransferRejected') => async (transferId: bigint) => {
+      try {
+        const transfer = await this.getTransfer(transferId);
+        if (!isAccount(transfer.from) && !isAccount(transfer.to)) return;
+        onEvent({
+          type,
+          transferId: transfer.id,
+          from: transfer.from,
+          to: transfer.to,
+          tokenId: transfer.tokenId,
+          amount: transfer.amount,
+        });
+      } catch (error) {
+        console.error(`Error handling ${type} event:`, error);
+      }
+    };
+    subscribe('TransferAccepted', onTransferResolved('TransferAccepted'));
+    subscribe('TransferRejected', onTransferResolved('TransferRejected'));
+
+    // Recalls are rare and may concern any holder downstream
+    subscribe('TokenRecalled', (...[tokenId, recalledBy, reason]: EventArgs<'TokenRecalled'>) =>
+      onEvent({ type: 'TokenRecalled', tokenId, recalledBy, reason })
+    );
+
+    // Registrations and status changes
+    subscribe(
+      isAdmin ? 'UserRoleRequested' : contract.filters.UserRoleRequested(account),
+      (...[user, role]: EventArgs<'UserRoleRequested'>) => onEvent({ type: 'UserRoleRequested', user, role })
+    );
+    subscribe(
+      isAdmin ? 'UserStatusChanged' : contract.filters.UserStatusChanged(account),
+      (...[user, status]: EventArgs<'UserStatusChanged'>) =>
+        onEvent({ type: 'UserStatusChanged', user, status: Number(status) as UserStatus })
+    );
+
+    return () => {
+      subscriptions.forEach(([event, listener]) => contract.off(event, listener));
+    };
+  }
+
+  /**
+   * Get all SupplyChain events in a block range (inclusive)
+   * Sorted by block number and log index
+   */
+  async getContractEvents(fromBlock: number, toBlock: number): Promise<SupplyChainEventLog[]> {
+    const contract = this.ensureReadContract();
+    const logs = await contract.queryFilter('*', fromBlock, toBlock);
+    return logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index) as unknown as SupplyChainEventLog[];
   }
 
   // ============================================
@@ -352,43 +944,29 @@ class Web3Service {
   /**
    * Get next token ID (for UI display)
    */
-  async getNextTokenId(): Promise<number> {
-    await this.ensureInitialized();
-    const nextId = await this.contract!.nextTokenId();
-    return Number(nextId);
+  async getNextTokenId(): Promise<bigint> {
+    const contract = this.ensureReadContract();
+    return await contract.nextTokenId();
   }
 
   /**
    * Get next transfer ID (for UI display)
    */
-  async getNextTransferId(): Promise<number> {
-    await this.ensureInitialized();
-    const nextId = await this.contract!.nextTransferId();
-    return Number(nextId);
+  async getNextTransferId(): Promise<bigint> {
+    const contract = this.ensureReadContract();
+    return await contract.nextTransferId();
   }
 
   /**
    * Get next user ID (for UI display)
    */
-  async getNextUserId(): Promise<number> {
-    await this.ensureInitialized();
-    const nextId = await this.contract!.nextUserId();
-    return Number(nextId);
-  }
-}
-
-// Export singleton instance
-export const web3Service = new Web3Service();
-
-// Type declarations for window.ethereum
-declare global {
-  interface Window {
-    ethereum?: {
-      request: (args: { method: string; params?: any[] }) => Promise<any>;
-      on: (event: string, callback: (...args: any[]) => void) => void;
-      removeListener: (event: string, callback: (...args: any[]) => void) => void;
-      isMetaMask?: boolean;
-    };
+  async getNextUserId(): Promise<bigint> {
+    const contract = this.ensureReadContract();
+    return await contract.nextUserId();
   }
 }
 
+// Export singleton instance (the in-memory simulator when NEXT_PUBLIC_SIMULATOR=true)
+export const web3Service: Web3Service = SIMULATOR_ENABLED
+  ? SimulatedWeb3Service.withDemoData()
+  : new EthersWeb3Service();
@@ -0,0 +1,317 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { TEST_ACCOUNTS } from '@/contracts/config';
+import { TransferStatus, UserStatus } from '@/contracts/models';
+import { SimulatedWeb3Service } from '@/lib/simulator';
+
+/**
+ * SimulatedWeb3Service against the rules of SupplyChain.sol
+ * Same scenarios as sc/test/SupplyChain.t.sol: the simulator must revert with the
+ * contract's messages, in the contract's check order, and emit the same events
+ */
+
+const { admin, producer, factory, retailer, consumer } = TEST_ACCOUNTS;
+const unauthorized = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+
+let sim: SimulatedWeb3Service;
+
+/**
+ * Run the following calls as an account (vm.prank)
+ */
+function as(address: string): SimulatedWeb3Service {
+  sim.connectAs(address);
+  return sim;
+}
+
+/**
+ * Expect a call to revert with a SupplyChain.sol require message (vm.expectRevert)
+ */
+async function expectRevert(call: Promise<unknown>, reason: string) {
+  await assert.rejects(call, (error: { reason?: string }) => {
+    assert.equal(error.reason, reason);
+    return true;
+  });
+}
+
+/**
+ * Name and arguments (in ABI order) of the events emitted by the latest write (vm.expectEmit)
+ */
+async function lastEvents(): Promise<{ eventName: string; args: unknown[] }[]> {
+  const block = await sim.getBlockNumber();
+  const logs = await sim.getContractEvents(block, block);
+  return logs.map(({ eventName, args }) => ({ eventName, args: [...(args as unknown as unknown[])] }));
+}
+
+async function registerApproved(address: string, role: string) {
+  await as(address).requestUserRole(role);
+  await as(admin).changeUserStatus(address, UserStatus.Approved);
+}
+
+/**
+ * Wheat (1) -> flour (2) -> bread (3), transfers 1 and 2 accepted (_setUpProductChain)
+ */
+async function setUpProductChain() {
+  await registerApproved(producer, 'Producer');
+  await registerApproved(factory, 'Factory');
+  await registerApproved(retailer, 'Retailer');
+  await registerApproved(consumer, 'Consumer');
+
+  await as(producer).createToken('Wheat', 1000n, '{}', 0n);
+  await as(producer).transfer(factory, 1n, 400n);
+  await as(factory).acceptTransfer(1n);
+
+  await as(factory).createToken('Flour', 300n, '{}', 1n);
+  await as(factory).transfer(retailer, 2n, 100n);
+  await as(retailer).acceptTransfer(2n);
+
+  await as(retailer).createToken('Bread', 50n, '{}', 2n);
+}
+
+beforeEach(() => {
+  sim = new SimulatedWeb3Service({ admin });
+});
+
+// ============================================
+// USER MANAGEMENT
+// ============================================
+
+describe('user management', () => {
+  test('registration emits UserRoleRequested and leaves the user pending', async () => {
+    await as(producer).requestUserRole('Producer');
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'UserRoleRequested', args: [producer, 'Producer'] }]);
+    const user = await sim.getUserInfo(producer);
+    assert.equal(user?.role, 'Producer');
+    assert.equal(user?.status, UserStatus.Pending);
+  });
+
+  test('admin approval emits UserStatusChanged', async () => {
+    await as(producer).requestUserRole('Producer');
+    await as(admin).changeUserStatus(producer, UserStatus.Approved);
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'UserStatusChanged', args: [producer, BigInt(UserStatus.Approved)] }]);
+    assert.equal((await sim.getUserInfo(producer))?.status, UserStatus.Approved);
+  });
+
+  test('registration validation', async () => {
+    await as(producer).requestUserRole('Producer');
+    await expectRevert(as(producer).requestUserRole('Factory'), 'User already registered');
+    await expectRevert(as(factory).requestUserRole('Farmer'), 'Invalid role');
+  });
+
+  test('only the admin changes statuses, of registered users', async () => {
+    await as(producer).requestUserRole('Producer');
+    await expectRevert(as(producer).changeUserStatus(producer, UserStatus.Approved), 'Only admin can perform this action');
+    await expectRevert(as(admin).changeUserStatus(unauthorized, UserStatus.Approved), 'User not found');
+  });
+
+  test('only approved users can operate', async () => {
+    await expectRevert(as(producer).createToken('Wheat', 1000n, '{}', 0n), 'User not registered');
+    await as(producer).requestUserRole('Producer');
+    await expectRevert(as(producer).createToken('Wheat', 1000n, '{}', 0n), 'User not approved');
+  });
+});
+
+// ============================================
+// TOKEN MANAGEMENT
+// ============================================
+
+describe('token management', () => {
+  test('producer creates raw material, emitting TokenCreated', async () => {
+    await registerApproved(producer, 'Producer');
+    await as(producer).createToken('Wheat', 1000n, '{"origin":"Spain"}', 0n);
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'TokenCreated', args: [1n, producer, 'Wheat', 1000n] }]);
+    assert.equal(await sim.getTokenBalance(1n, producer), 1000n);
+    assert.deepEqual(await sim.getUserTokens(producer), [1n]);
+  });
+
+  test('token creation validation', async () => {
+    await registerApproved(producer, 'Producer');
+    await expectRevert(as(producer).createToken('', 1000n, '{}', 0n), 'Name cannot be empty');
+    await expectRevert(as(producer).createToken('Wheat', 0n, '{}', 0n), 'Supply must be greater than 0');
+    await expectRevert(as(producer).createToken('Wheat', 1000n, '{}', 1n), 'Producer cannot have parent token');
+  });
+
+  test('factory and retailer need a parent they own', async () => {
+    await registerApproved(producer, 'Producer');
+    await registerApproved(factory, 'Factory');
+    await registerApproved(retailer, 'Retailer');
+    await as(producer).createToken('Wheat', 1000n, '{}', 0n);
+
+    await expectRevert(as(factory).createToken('Flour', 100n, '{}', 0n), 'Invalid parent token');
+    await expectRevert(as(retailer).createToken('Bread', 100n, '{}', 0n), 'Invalid parent token');
+    await expectRevert(as(factory).createToken('Flour', 100n, '{}', 1n), 'Must own parent token');
+  });
+
+  test('consumer cannot create tokens', async () => {
+    await registerApproved(consumer, 'Consumer');
+    await expectRevert(as(consumer).createToken('Sandwich', 1n, '{}', 0n), 'Consumer cannot create tokens');
+  });
+
+  test('reads reject invalid token IDs', async () => {
+    await expectRevert(sim.getToken(1n), 'Invalid token ID');
+    await expectRevert(sim.getTokenBalance(0n, producer), 'Invalid token ID');
+  });
+});
+
+// ============================================
+// TRANSFER MANAGEMENT
+// ============================================
+
+describe('transfer management', () => {
+  beforeEach(async () => {
+    await registerApproved(producer, 'Producer');
+    await registerApproved(factory, 'Factory');
+    await as(producer).createToken('Wheat', 1000n, '{}', 0n);
+  });
+
+  test('transfer stays pending and emits TransferRequested', async () => {
+    await as(producer).transfer(factory, 1n, 200n);
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'TransferRequested', args: [1n, producer, factory, 1n, 200n] }]);
+    assert.equal((await sim.getTransfer(1n)).status, TransferStatus.Pending);
+    assert.equal(await sim.getTokenBalance(1n, producer), 1000n);
+    assert.equal(await sim.getTokenBalance(1n, factory), 0n);
+  });
+
+  test('accept moves the balance and emits TransferAccepted', async () => {
+    await as(producer).transfer(factory, 1n, 200n);
+    await as(factory).acceptTransfer(1n);
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'TransferAccepted', args: [1n] }]);
+    assert.equal((await sim.getTransfer(1n)).status, TransferStatus.Accepted);
+    assert.equal(await sim.getTokenBalance(1n, producer), 800n);
+    assert.equal(await sim.getTokenBalance(1n, factory), 200n);
+    assert.deepEqual(await sim.getUserTokens(factory), [1n]);
+
+    await expectRevert(as(factory).acceptTransfer(1n), 'Transfer not pending');
+  });
+
+  test('reject keeps the balances and emits TransferRejected', async () => {
+    await as(producer).transfer(factory, 1n, 200n);
+    await as(factory).rejectTransfer(1n);
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'TransferRejected', args: [1n] }]);
+    assert.equal((await sim.getTransfer(1n)).status, TransferStatus.Rejected);
+    assert.equal(await sim.getTokenBalance(1n, producer), 1000n);
+    assert.equal(await sim.getTokenBalance(1n, factory), 0n);
+  });
+
+  test('only the recipient accepts or rejects', async () => {
+    await as(producer).transfer(factory, 1n, 200n);
+    await expectRevert(as(producer).acceptTransfer(1n), 'Only recipient can accept');
+    await expectRevert(as(producer).rejectTransfer(1n), 'Only recipient can reject');
+    await expectRevert(as(factory).acceptTransfer(2n), 'Invalid transfer ID');
+  });
+
+  test('transfer validation, in the order of the contract checks', async () => {
+    await expectRevert(as(producer).transfer(producer, 1n, 100n), 'Cannot transfer to yourself');
+    await expectRevert(as(producer).transfer(factory, 2n, 100n), 'Invalid token ID');
+    await expectRevert(as(producer).transfer(factory, 1n, 0n), 'Amount must be greater than 0');
+    await expectRevert(as(producer).transfer(factory, 1n, 1001n), 'Insufficient balance');
+    await expectRevert(as(producer).transfer(unauthorized, 1n, 100n), 'Recipient not registered');
+
+    // Balance is checked before the recipient
+    await expectRevert(as(producer).transfer(unauthorized, 1n, 1001n), 'Insufficient balance');
+  });
+
+  test('unapproved recipient', async () => {
+    await as(retailer).requestUserRole('Retailer');
+    await expectRevert(as(producer).transfer(retailer, 1n, 100n), 'Recipient not approved');
+  });
+
+  test('invalid role transfer', async () => {
+    // Producer cannot transfer to Retailer (must go to Factory)
+    await registerApproved(retailer, 'Retailer');
+    await expectRevert(as(producer).transfer(retailer, 1n, 100n), 'Invalid role transfer');
+  });
+
+  test('consumer cannot transfer', async () => {
+    await as(producer).transfer(factory, 1n, 200n);
+    await as(factory).acceptTransfer(1n);
+    await as(factory).createToken('Flour', 100n, '{}', 1n);
+
+    await registerApproved(retailer, 'Retailer');
+    await as(factory).transfer(retailer, 2n, 50n);
+    await as(retailer).acceptTransfer(2n);
+    await as(retailer).createToken('Flour Pack', 25n, '{}', 2n);
+
+    await registerApproved(consumer, 'Consumer');
+    await as(retailer).transfer(consumer, 3n, 10n);
+    await as(consumer).acceptTransfer(3n);
+
+    // Now consumer has tokens, but still cannot transfer (end of chain)
+    await expectRevert(as(consumer).transfer(producer, 3n, 5n), 'Consumer cannot transfer');
+  });
+});
+
+// ============================================
+// RECALLS
+// ============================================
+
+describe('recalls', () => {
+  beforeEach(setUpProductChain);
+
+  test('creator recalls a token, emitting TokenRecalled', async () => {
+    await as(factory).recallToken(2n, 'Contaminated batch');
+
+    assert.deepEqual(await lastEvents(), [{ eventName: 'TokenRecalled', args: [2n, factory, 'Contaminated batch'] }]);
+    const recall = await sim.getRecall(2n);
+    assert.equal(recall?.tokenId, 2n);
+    assert.equal(recall?.recalledBy, factory);
+  });
+
+  test('admin recalls any token', async () => {
+    await as(admin).recallToken(1n, 'Pesticide residue');
+    assert.equal((await sim.getRecall(1n))?.recalledBy, admin);
+  });
+
+  test('only the creator or the admin can recall', async () => {
+    await expectRevert(as(factory).recallToken(1n, 'Contaminated batch'), 'Only creator or admin can recall');
+    await expectRevert(as(unauthorized).recallToken(1n, 'Contaminated batch'), 'Only creator or admin can recall');
+  });
+
+  test('recall validation', async () => {
+    await expectRevert(as(admin).recallToken(99n, 'Contaminated batch'), 'Invalid token ID');
+    await expectRevert(as(producer).recallToken(1n, ''), 'Reason cannot be empty');
+
+    await as(producer).recallToken(1n, 'Contaminated batch');
+    await expectRevert(as(admin).recallToken(1n, 'Second recall'), 'Token already recalled');
+  });
+
+  test('recall propagates to derived tokens only', async () => {
+    await as(retailer).recallToken(3n, 'Mislabelled allergens');
+    assert.equal((await sim.getRecall(3n))?.tokenId, 3n);
+    assert.equal(await sim.getRecall(2n), null);
+    assert.equal(await sim.getRecall(1n), null);
+
+    // A descendant recall does not hide its own source when an ancestor is recalled later
+    await as(producer).recallToken(1n, 'Contaminated batch');
+    assert.equal((await sim.getRecall(3n))?.tokenId, 3n);
+    assert.equal((await sim.getRecall(2n))?.tokenId, 1n);
+  });
+
+  test('recalled tokens cannot be transferred', async () => {
+    await as(producer).recallToken(1n, 'Contaminated batch');
+    await expectRevert(as(factory).transfer(retailer, 2n, 50n), 'Token is recalled');
+    await expectRevert(as(retailer).transfer(consumer, 3n, 10n), 'Token is recalled');
+  });
+
+  test('pending transfers of a recalled token cannot be accepted', async () => {
+    await as(retailer).transfer(consumer, 3n, 10n);
+    await as(producer).recallToken(1n, 'Contaminated batch');
+
+    await expectRevert(as(consumer).acceptTransfer(3n), 'Token is recalled');
+    assert.equal(await sim.getTokenBalance(3n, consumer), 0n);
+    assert.equal(await sim.getTokenBalance(3n, retailer), 50n);
+  });
+
+  test('pending transfers of a recalled token can be rejected', async () => {
+    await as(retailer).transfer(consumer, 3n, 10n);
+    await as(retailer).recallToken(3n, 'Mislabelled allergens');
+
+    await as(consumer).rejectTransfer(3n);
+    assert.equal((await sim.getTransfer(3n)).status, TransferStatus.Rejected);
+  });
+});